@@ -3,7 +3,7 @@
  * Shows different ways to configure the database connection
  */
 
-import { D1ORM, createDatabaseService, createDatabaseServiceFromEnv, type D1ConnectionConfig } from '../src/index.js';
+import { D1ORM, DatabaseService, createDatabaseService, createDatabaseServiceFromEnv, createDatabaseServiceFromSqlite, type D1ConnectionConfig } from '../src/index.js';
 import dotenv from 'dotenv';
 
 dotenv.config(); // Load environment variables from .env file
@@ -80,6 +80,7 @@ async function loadConfigFromSomewhere(): Promise<D1ConnectionConfig> {
 async function multiDatabaseExample() {
     console.log('🔧 Example 4: Multiple Database Connections');
 
+    // Each call with a config creates an independent client
     // Production database
     const prodDb = await createDatabaseService({
         token: "prod_token",
@@ -103,9 +104,43 @@ async function multiDatabaseExample() {
     return { prodOrm, devOrm };
 }
 
+// Example 5: Local SQLite (offline development and CI, no credentials needed)
+async function localSqliteExample() {
+    console.log('🔧 Example 5: Local SQLite');
+
+    // In-memory by default; pass { filename: './dev.sqlite' } to persist
+    // Requires Node.js 22.5+ (node:sqlite) or the better-sqlite3 package
+    const db = await createDatabaseServiceFromSqlite();
+    const orm = new D1ORM({ database: db, logging: true });
+
+    console.log('✅ Database configured against local SQLite');
+    return orm;
+}
+
+// Example 6: Per-tenant clients with the DatabaseService constructor
+async function perTenantExample(tenants: Array<{ name: string; config: D1ConnectionConfig }>) {
+    console.log('🔧 Example 6: Per-tenant Clients');
+
+    const clients = new Map<string, D1ORM>();
+    for (const tenant of tenants) {
+        const db = new DatabaseService({
+            config: tenant.config,
+            timeout: 10000,
+            migrationsDir: `./migrations/${tenant.name}`
+        });
+        await db.initialize();
+        clients.set(tenant.name, new D1ORM({ database: db }));
+    }
+
+    console.log(`✅ ${clients.size} tenant databases configured`);
+    return clients;
+}
+
 export {
     explicitConfigExample,
     environmentConfigExample,
     dynamicConfigExample,
-    multiDatabaseExample
+    multiDatabaseExample,
+    localSqliteExample,
+    perTenantExample
 };
@@ -120,6 +120,7 @@ async function debugDatabaseError() {
 
             try {
                 // Use debug helper to analyze the data first
+                // @ts-expect-error some cases miss email, use an unknown status or pass age as a string on purpose
                 const debugInfo = User.debugInsertData(testCase.data);
 
                 console.log('🔍 Debug Analysis:');
@@ -138,6 +139,7 @@ async function debugDatabaseError() {
                 }
 
                 // Attempt to create the record
+                // @ts-expect-error the invalid cases above are rejected by the inferred input type too
                 const result = await User.create(testCase.data);
                 console.log('✅ Success:', result);
 
@@ -158,8 +160,8 @@ async function debugDatabaseError() {
                     if (errorWithDebug.tableName) {
                         console.log('🏷️ Table:', errorWithDebug.tableName);
                     }
-                    if (errorWithDebug.originalError) {
-                        console.log('🔧 Original Error:', errorWithDebug.originalError.message);
+                    if (errorWithDebug.originalMessage) {
+                        console.log('🔧 Original Error:', errorWithDebug.originalMessage, errorWithDebug.code ?? '');
                     }
                 }
 
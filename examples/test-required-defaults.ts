@@ -125,6 +125,7 @@ async function testRequiredFieldsWithDefaults() {
         // Test 4: Missing required field without default (should fail)
         console.log('\n🧪 Test 4: Missing required field without default (should fail)');
         try {
+            // @ts-expect-error total is required and has no default
             const order2 = await Orders.create({
                 // Missing 'total' which is required and has no default
                 // order_number and status should use defaults
@@ -139,6 +140,7 @@ async function testRequiredFieldsWithDefaults() {
         try {
             const setting3 = await Settings.create({
                 user_id: 3,
+                // @ts-expect-error theme only takes the enum values
                 theme: 'rainbow'  // Invalid enum value
             });
             console.log('❌ Unexpected success - should have failed:', setting3);
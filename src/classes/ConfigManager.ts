@@ -21,8 +21,14 @@ export class ConfigManager {
     private config: D1Config | null = null;
     private envLoaded: boolean = false;
 
-    private constructor() {
-        // Don't load config automatically, let it be set explicitly or fall back to env
+    /**
+     * Create a standalone config holder. Without a config it lazily
+     * falls back to environment variables, like the global instance.
+     */
+    constructor(config?: D1Config) {
+        if (config) {
+            this.setConfig(config);
+        }
     }
 
     public static getInstance(): ConfigManager {
@@ -218,7 +224,9 @@ export class ConfigManager {
                 token: config.token.trim(),
                 accountId: config.accountId.trim(),
                 databaseId: config.databaseId.trim(),
-                databaseName: config.databaseName.trim()
+                databaseName: config.databaseName.trim(),
+                retry: config.retry,
+                timeout: config.timeout
             };
 
         } catch (error) {
@@ -4,52 +4,78 @@ import {
     TableSchema,
     QueryResult,
     DatabaseInfo,
-    D1Response,
+    D1Driver,
+    D1Statement,
+    QueryOptions,
+    Logger,
     ColumnInfo,
     IndexInfo,
     ConstraintInfo
 } from '../types/database.js';
+import { RestApiDriver } from '../drivers/RestApiDriver.js';
+import { AuthError, RequestError, TimeoutError, toD1ORMError } from '../errors.js';
+import { escapeIdentifier, quoteIdentifier } from '../utils/sql.js';
+
+function isD1Driver(value: D1Config | D1Driver): value is D1Driver {
+    return typeof (value as D1Driver).query === 'function';
+}
 
 export class D1DatabaseManager {
-    private config: D1Config;
-    private baseUrl: string;
+    private driver: D1Driver;
+    private databaseName: string;
+    private defaultTimeout?: number;
+    private logger: Logger;
+
+    constructor(configOrDriver: D1Config | D1Driver, options: { timeout?: number; logger?: Logger } = {}) {
+        this.logger = options.logger ?? console;
+
+        if (isD1Driver(configOrDriver)) {
+            this.driver = configOrDriver;
+            this.databaseName = configOrDriver.name;
+            this.defaultTimeout = options.timeout;
+        } else {
+            this.driver = new RestApiDriver(configOrDriver);
+            this.databaseName = configOrDriver.databaseName;
+            this.defaultTimeout = options.timeout ?? configOrDriver.timeout;
+        }
+    }
+
+    /**
+     * Set the default timeout applied to queries without their own (undefined disables it)
+     */
+    setDefaultTimeout(timeout: number | undefined): void {
+        this.defaultTimeout = timeout;
+    }
 
-    constructor(config: D1Config) {
-        this.config = config;
-        this.baseUrl = `https://api.cloudflare.com/client/v4/accounts/${config.accountId}/d1/database/${config.databaseId}`;
+    /**
+     * Get the driver used to execute queries
+     */
+    getDriver(): D1Driver {
+        return this.driver;
     }
 
     /**
      * Execute a raw SQL query
      */
-    async query<T = any>(sql: string, params: any[] = []): Promise<QueryResult<T>> {
+    async query<T = any>(sql: string, params: any[] = [], options: QueryOptions = {}): Promise<QueryResult<T>> {
         try {
-            const response = await this.makeRequest('/query', {
-                method: 'POST',
-                body: JSON.stringify({
-                    sql,
-                    params
-                })
-            });
-
-            if (!response.success) {
-                throw new Error(response.errors?.[0]?.message || 'Query failed');
-            }
-
-            // The actual results are in result[0] for D1 API
-            const queryResult = response.result[0];
-
-            return {
-                results: queryResult?.results || [],
-                success: queryResult?.success || true,
-                meta: queryResult?.meta || {}
-            };
+            return await this.withTimeout(options, opts => this.driver.query<T>(sql, params, opts));
         } catch (error) {
+            // Cancellation is not a query failure; let callers see the typed error
+            if (error instanceof TimeoutError || options.signal?.aborted) {
+                throw error;
+            }
+            // SQL failures are reported in the result; API failures (auth, rate limits) are thrown typed
+            const dbError = toD1ORMError(error, { sql, params });
+            if (dbError instanceof RequestError) {
+                throw dbError;
+            }
             return {
                 results: [],
                 success: false,
                 meta: {},
-                error: error instanceof Error ? error.message : 'Unknown error'
+                error: dbError.originalMessage,
+                errorCode: dbError.code
             };
         }
     }
@@ -57,26 +83,51 @@ export class D1DatabaseManager {
     /**
      * Execute multiple SQL statements in a batch
      */
-    async batch(statements: Array<{ sql: string; params?: any[] }>): Promise<QueryResult[]> {
+    async batch(statements: D1Statement[], options: QueryOptions = {}): Promise<QueryResult[]> {
         try {
-            const response = await this.makeRequest('/batch', {
-                method: 'POST',
-                body: JSON.stringify(statements)
-            });
-
-            if (!response.success) {
-                throw new Error(response.errors?.[0]?.message || 'Batch query failed');
+            return await this.withTimeout(options, opts => this.driver.batch(statements, opts));
+        } catch (error) {
+            if (error instanceof TimeoutError || options.signal?.aborted) {
+                throw error;
             }
+            throw toD1ORMError(error);
+        }
+    }
 
-            // For batch requests, result is an array of query results
-            return response.result.map((result: any) => ({
-                results: result.results || [],
-                success: result.success,
-                meta: result.meta || {},
-                error: result.error
-            }));
-        } catch (error) {
-            throw new Error(`Batch execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    /**
+     * Run a driver call under the effective timeout and caller signal.
+     * The driver receives a combined signal so it can abort in-flight work;
+     * the race makes sure we reject even if the driver cannot be cancelled.
+     */
+    private async withTimeout<R>(options: QueryOptions, run: (options: QueryOptions) => Promise<R>): Promise<R> {
+        const timeout = options.timeout ?? this.defaultTimeout;
+        const callerSignal = options.signal;
+
+        if (!timeout && !callerSignal) {
+            return run(options);
+        }
+
+        if (callerSignal?.aborted) {
+            throw callerSignal.reason;
+        }
+
+        const controller = new AbortController();
+        const onCallerAbort = () => controller.abort(callerSignal!.reason);
+        callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+
+        const timer = timeout
+            ? setTimeout(() => controller.abort(new TimeoutError(timeout)), timeout)
+            : undefined;
+
+        const aborted = new Promise<never>((_, reject) => {
+            controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+        });
+
+        try {
+            return await Promise.race([run({ ...options, signal: controller.signal }), aborted]);
+        } finally {
+            clearTimeout(timer);
+            callerSignal?.removeEventListener('abort', onCallerAbort);
         }
     }
 
@@ -85,22 +136,15 @@ export class D1DatabaseManager {
      */
     async getDatabaseInfo(): Promise<DatabaseInfo> {
         try {
-            const response = await this.makeRequest('', {
-                method: 'GET'
-            });
-
-            if (!response.success) {
-                throw new Error(response.errors?.[0]?.message || 'Failed to get database info');
-            }
-
+            const info = this.driver.getDatabaseInfo ? await this.driver.getDatabaseInfo() : {};
             const tables = await this.listTables();
 
             return {
-                name: response.result.name || this.config.databaseName,
-                size: response.result.file_size || 0,
+                name: info.name || this.databaseName,
+                size: info.size || 0,
                 tables: tables.map(t => t.name),
-                version: response.result.version || 'unknown',
-                created_at: response.result.created_at || new Date().toISOString()
+                version: info.version || 'unknown',
+                created_at: info.created_at || new Date().toISOString()
             };
         } catch (error) {
             throw new Error(`Failed to get database info: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -123,13 +167,14 @@ export class D1DatabaseManager {
     }
 
     /**
-     * Get schema information for a specific table
+     * Get schema information for a specific table. The name is escaped rather than
+     * validated, so every table listed by listTables() can be inspected.
      */
     async getTableSchema(tableName: string): Promise<TableSchema> {
         try {
             // Get column information
             const columnsResult = await this.query<any>(
-                `PRAGMA table_info(${tableName})`
+                `PRAGMA table_info(${escapeIdentifier(tableName)})`
             );
 
             if (!columnsResult.success) {
@@ -147,14 +192,14 @@ export class D1DatabaseManager {
 
             // Get index information
             const indexesResult = await this.query<any>(
-                `PRAGMA index_list(${tableName})`
+                `PRAGMA index_list(${escapeIdentifier(tableName)})`
             );
 
             const indexes: IndexInfo[] = [];
             if (indexesResult.success) {
                 for (const idx of indexesResult.results) {
                     const indexInfoResult = await this.query<any>(
-                        `PRAGMA index_info(${idx.name})`
+                        `PRAGMA index_info(${escapeIdentifier(idx.name)})`
                     );
 
                     if (indexInfoResult.success) {
@@ -170,7 +215,7 @@ export class D1DatabaseManager {
 
             // Get foreign key information
             const fkResult = await this.query<any>(
-                `PRAGMA foreign_key_list(${tableName})`
+                `PRAGMA foreign_key_list(${escapeIdentifier(tableName)})`
             );
 
             const constraints: ConstraintInfo[] = [];
@@ -221,7 +266,7 @@ export class D1DatabaseManager {
                 const schema = await this.getTableSchema(table.name);
                 schemas.push(schema);
             } catch (error) {
-                console.warn(`Failed to get schema for table '${table.name}':`, error);
+                this.logger.warn(`Failed to get schema for table '${table.name}':`, error);
             }
         }
 
@@ -233,7 +278,7 @@ export class D1DatabaseManager {
      */
     async createTable(tableName: string, columns: ColumnInfo[]): Promise<QueryResult> {
         const columnDefinitions = columns.map(col => {
-            let def = `${col.name} ${col.type}`;
+            let def = `${quoteIdentifier(col.name)} ${col.type}`;
 
             if (col.primaryKey) {
                 def += ' PRIMARY KEY';
@@ -253,7 +298,7 @@ export class D1DatabaseManager {
             return def;
         }).join(', ');
 
-        const sql = `CREATE TABLE ${tableName} (${columnDefinitions})`;
+        const sql = `CREATE TABLE ${quoteIdentifier(tableName)} (${columnDefinitions})`;
         return await this.query(sql);
     }
 
@@ -261,7 +306,7 @@ export class D1DatabaseManager {
      * Drop a table
      */
     async dropTable(tableName: string): Promise<QueryResult> {
-        return await this.query(`DROP TABLE IF EXISTS ${tableName}`);
+        return await this.query(`DROP TABLE IF EXISTS ${quoteIdentifier(tableName)}`);
     }
 
     /**
@@ -325,7 +370,7 @@ export class D1DatabaseManager {
                 [migration.id, migration.name, migration.sql, migration.timestamp]
             );
 
-            console.log(`Migration ${migration.id} applied successfully`);
+            this.logger.log(`Migration ${migration.id} applied successfully`);
         } catch (error) {
             throw new Error(`Failed to run migration ${migration.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
@@ -369,40 +414,22 @@ export class D1DatabaseManager {
             throw new Error(`Failed to rollback migration ${migrationId}`);
         }
 
-        console.log(`Migration ${migrationId} rolled back`);
-    }
-
-    /**
-     * Execute a raw HTTP request to the Cloudflare API
-     */
-    private async makeRequest(endpoint: string, options: RequestInit): Promise<D1Response> {
-        const url = `${this.baseUrl}${endpoint}`;
-
-        const response = await fetch(url, {
-            ...options,
-            headers: {
-                'Authorization': `Bearer ${this.config.token}`,
-                'Content-Type': 'application/json',
-                ...options.headers
-            }
-        });
-
-        if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        return await response.json() as D1Response<any>;
+        this.logger.log(`Migration ${migrationId} rolled back`);
     }
 
     /**
      * Test database connectivity
      */
-    async testConnection(): Promise<boolean> {
+    async testConnection(options: QueryOptions = {}): Promise<boolean> {
         try {
-            const result = await this.query('SELECT 1 as test');
+            const result = await this.query('SELECT 1 as test', [], options);
             return result.success;
         } catch (error) {
-            console.error('Database connection test failed:', error);
+            // Bad credentials are a configuration problem, not a connectivity one
+            if (error instanceof TimeoutError || error instanceof AuthError) {
+                throw error;
+            }
+            this.logger.error('Database connection test failed:', error);
             return false;
         }
     }
@@ -421,7 +448,7 @@ export class D1DatabaseManager {
 
             for (const table of tables) {
                 const result = await this.query<{ count: number }>(
-                    `SELECT COUNT(*) as count FROM ${table.name}`
+                    `SELECT COUNT(*) as count FROM ${escapeIdentifier(table.name)}`
                 );
                 if (result.success) {
                     totalRecords += result.results[0]?.count || 0;
@@ -1,26 +1,72 @@
 import { D1DatabaseManager } from './D1DatabaseManager.js';
 import { MigrationManager } from './MigrationManager.js';
 import { ConfigManager } from './ConfigManager.js';
-import { TableSchema, QueryResult, DatabaseInfo } from '../types/database.js';
+import { D1ORMError } from '../errors.js';
+import { TableSchema, QueryResult, DatabaseInfo, D1Config, D1Driver, D1Statement, Logger, QueryOptions } from '../types/database.js';
+
+export interface DatabaseServiceOptions {
+    config?: D1Config; // REST API credentials; falls back to environment variables
+    driver?: D1Driver; // Custom transport (binding, SQLite, ...); takes precedence over config
+    logger?: Logger; // Defaults to console
+    timeout?: number; // Default per-query timeout in milliseconds
+    migrationsDir?: string; // Defaults to ./migrations
+}
 
 export class DatabaseService {
     private static instance: DatabaseService;
     private dbManager: D1DatabaseManager | null = null;
     private migrationManager: MigrationManager | null = null;
     private configManager: ConfigManager;
+    private driver: D1Driver | null = null;
+    private logger: Logger;
+    private migrationsDir?: string;
+    private defaultTimeout?: number;
     private initialized: boolean = false;
 
-    private constructor() {
-        this.configManager = ConfigManager.getInstance();
+    /**
+     * Create an independent client. Each instance has its own configuration,
+     * D1DatabaseManager and MigrationManager, so several can live side by side.
+     */
+    constructor(options: DatabaseServiceOptions = {}) {
+        this.configManager = new ConfigManager(options.config);
+        this.driver = options.driver ?? null;
+        this.logger = options.logger ?? console;
+        this.defaultTimeout = options.timeout;
+        this.migrationsDir = options.migrationsDir;
     }
 
+    /**
+     * Process-wide client backed by the global ConfigManager (legacy API)
+     */
     public static getInstance(): DatabaseService {
         if (!DatabaseService.instance) {
-            DatabaseService.instance = new DatabaseService();
+            const service = new DatabaseService();
+            service.configManager = ConfigManager.getInstance();
+            DatabaseService.instance = service;
         }
         return DatabaseService.instance;
     }
 
+    /**
+     * Use a custom driver (e.g. a Worker D1 binding) instead of the REST API.
+     * Resets the service so the next initialize() connects through the new driver.
+     */
+    public useDriver(driver: D1Driver): void {
+        this.driver = driver;
+        this.dbManager = null;
+        this.migrationManager = null;
+        this.initialized = false;
+    }
+
+    /**
+     * Set the default timeout for every query (milliseconds, undefined disables it).
+     * Individual calls can override it with `{ timeout }` or cancel with `{ signal }`.
+     */
+    public setDefaultTimeout(timeout: number | undefined): void {
+        this.defaultTimeout = timeout;
+        this.dbManager?.setDefaultTimeout(timeout);
+    }
+
     /**
      * Initialize the database service with comprehensive error handling
      */
@@ -30,23 +76,19 @@ export class DatabaseService {
         }
 
         try {
-            console.log('🔄 Initializing database service...');
+            this.logger.log('🔄 Initializing database service...');
 
-            // Get configuration (this will now work after setConfig is called)
-            const config = this.configManager.getConfig();
-
-            // Initialize managers
-            this.dbManager = new D1DatabaseManager(config);
-            this.migrationManager = new MigrationManager(this.dbManager);
-
-            // Test connection with timeout
-            const connectionTimeout = 30000; // 30 seconds
-            const connectionPromise = this.dbManager.testConnection();
-            const timeoutPromise = new Promise<boolean>((_, reject) => {
-                setTimeout(() => reject(new Error('Connection timeout after 30 seconds')), connectionTimeout);
+            // Initialize managers; without a custom driver, fall back to the REST API
+            // (config comes from setConfig or environment variables)
+            this.dbManager = new D1DatabaseManager(this.driver ?? this.configManager.getConfig(), {
+                timeout: this.defaultTimeout,
+                logger: this.logger
             });
+            this.migrationManager = new MigrationManager(this.dbManager, this.migrationsDir, this.logger);
 
-            const isConnected = await Promise.race([connectionPromise, timeoutPromise]);
+            // Test connection; the request is aborted if it exceeds the timeout
+            const connectionTimeout = 30000; // 30 seconds
+            const isConnected = await this.dbManager.testConnection({ timeout: connectionTimeout });
 
             if (!isConnected) {
                 const error = new Error('Failed to establish database connection - check your configuration and network');
@@ -54,27 +96,27 @@ export class DatabaseService {
                 throw error;
             }
 
-            console.log('✅ Database connection established successfully');
+            this.logger.log('✅ Database connection established successfully');
 
             // Run pending migrations with error handling
             try {
-                console.log('🔄 Checking for pending migrations...');
+                this.logger.log('🔄 Checking for pending migrations...');
                 await this.migrationManager.runPendingMigrations();
-                console.log('✅ Migration check completed');
+                this.logger.log('✅ Migration check completed');
             } catch (error) {
                 const migrationError = new Error(`Migration failed: ${error instanceof Error ? error.message : String(error)}`);
                 migrationError.name = 'MigrationError';
-                console.error('❌ Migration error:', error);
+                this.logger.error('❌ Migration error:', error);
                 throw migrationError;
             }
 
             this.initialized = true;
-            console.log('🎉 Database service initialized successfully');
+            this.logger.log('🎉 Database service initialized successfully');
 
         } catch (error) {
             // Enhanced error context for initialization failures
             if (error instanceof Error) {
-                if (error.name === 'DatabaseConnectionError' || error.name === 'MigrationError' || error.name === 'ConfigurationError') {
+                if (error instanceof D1ORMError || error.name === 'DatabaseConnectionError' || error.name === 'MigrationError' || error.name === 'ConfigurationError') {
                     throw error; // Re-throw specific errors as-is
                 }
 
@@ -120,14 +162,18 @@ export class DatabaseService {
     /**
      * Execute a SQL query with enhanced error handling
      */
-    public async query<T = any>(sql: string, params: any[] = []): Promise<QueryResult<T>> {
+    public async query<T = any>(sql: string, params: any[] = [], options: QueryOptions = {}): Promise<QueryResult<T>> {
         try {
             if (!sql || typeof sql !== 'string' || sql.trim() === '') {
                 throw new Error('SQL query cannot be empty');
             }
 
-            return await this.getDbManager().query<T>(sql, params);
+            return await this.getDbManager().query<T>(sql, params, options);
         } catch (error) {
+            // Typed errors (constraints, timeouts, API failures) and caller aborts pass through
+            if (error instanceof D1ORMError || options.signal?.aborted) {
+                throw error;
+            }
             const queryError = new Error(`Query execution failed: ${error instanceof Error ? error.message : String(error)}`);
             queryError.name = 'QueryExecutionError';
             throw queryError;
@@ -137,7 +183,7 @@ export class DatabaseService {
     /**
      * Execute multiple SQL statements in a batch with enhanced error handling
      */
-    public async batch(statements: Array<{ sql: string; params?: any[] }>): Promise<QueryResult[]> {
+    public async batch(statements: D1Statement[], options: QueryOptions = {}): Promise<QueryResult[]> {
         try {
             if (!statements || !Array.isArray(statements) || statements.length === 0) {
                 throw new Error('Batch statements cannot be empty');
@@ -151,8 +197,12 @@ export class DatabaseService {
                 }
             }
 
-            return await this.getDbManager().batch(statements);
+            return await this.getDbManager().batch(statements, options);
         } catch (error) {
+            // Typed errors (constraints, timeouts, API failures) and caller aborts pass through
+            if (error instanceof D1ORMError || options.signal?.aborted) {
+                throw error;
+            }
             const batchError = new Error(`Batch execution failed: ${error instanceof Error ? error.message : String(error)}`);
             batchError.name = 'BatchExecutionError';
             throw batchError;
@@ -259,7 +309,7 @@ export class DatabaseService {
       (4, 'Bob''s Draft', 'This is Bob''s draft post', 3, false)
     `);
 
-        console.log('Sample data inserted successfully');
+        this.logger.log('Sample data inserted successfully');
     }
 
     /**
@@ -284,18 +334,21 @@ export class DatabaseService {
         let status: 'healthy' | 'unhealthy' = 'healthy';
 
         // Check connection
-        const connectionOk = this.dbManager ? await this.dbManager.testConnection() : false;
+        const connectionOk = this.dbManager ? await this.dbManager.testConnection().catch(() => false) : false;
         if (!connectionOk) {
             errors.push('Database connection failed');
             status = 'unhealthy';
         }
 
-        // Check configuration
-        const configValidation = this.configManager.validateConfig();
-        const configOk = configValidation.isValid;
-        if (!configOk) {
-            errors.push(`Configuration is invalid: ${configValidation.errors.join(', ')}`);
-            status = 'unhealthy';
+        // Check configuration (custom drivers carry their own connection details)
+        let configOk = true;
+        if (!this.driver) {
+            const configValidation = this.configManager.validateConfig();
+            configOk = configValidation.isValid;
+            if (!configOk) {
+                errors.push(`Configuration is invalid: ${configValidation.errors.join(', ')}`);
+                status = 'unhealthy';
+            }
         }
 
         // Check migrations
@@ -357,7 +410,12 @@ export class DatabaseService {
      * Clean up resources
      */
     public async cleanup(): Promise<void> {
-        // Perform any necessary cleanup
-        console.log('Database service cleanup completed');
+        if (this.driver?.close) {
+            await this.driver.close();
+            this.dbManager = null;
+            this.migrationManager = null;
+            this.initialized = false;
+        }
+        this.logger.log('Database service cleanup completed');
     }
 }
@@ -1,5 +1,6 @@
-import { Migration } from '../types/database.js';
+import { Logger, Migration } from '../types/database.js';
 import { D1DatabaseManager } from './D1DatabaseManager.js';
+import { quoteIdentifier } from '../utils/sql.js';
 import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -7,15 +8,17 @@ import * as path from 'path';
 export class MigrationManager {
     private db: D1DatabaseManager;
     private migrationsDir: string;
+    private logger: Logger;
 
-    constructor(db: D1DatabaseManager, migrationsDir: string = './migrations') {
+    constructor(db: D1DatabaseManager, migrationsDir: string = './migrations', logger: Logger = console) {
         this.db = db;
         this.migrationsDir = migrationsDir;
-        this.ensureMigrationsDirectory();
+        this.logger = logger;
     }
 
     /**
-     * Create migrations directory if it doesn't exist
+     * Create migrations directory if it doesn't exist.
+     * Only called when writing, so read-only runtimes (Workers) can still load the manager.
      */
     private ensureMigrationsDirectory(): void {
         if (!fs.existsSync(this.migrationsDir)) {
@@ -31,6 +34,7 @@ export class MigrationManager {
         const id = uuidv4();
         const fileName = `${timestamp}_${name.replace(/\s+/g, '_').toLowerCase()}.sql`;
         const filePath = path.join(this.migrationsDir, fileName);
+        this.ensureMigrationsDirectory();
 
         const migration: Migration = {
             id,
@@ -50,7 +54,7 @@ ${sql}`;
 
         fs.writeFileSync(filePath, fileContent, 'utf8');
 
-        console.log(`Migration created: ${fileName}`);
+        this.logger.log(`Migration created: ${fileName}`);
         return migration;
     }
 
@@ -137,24 +141,24 @@ ${sql}`;
         const pendingMigrations = await this.getPendingMigrations();
 
         if (pendingMigrations.length === 0) {
-            console.log('No pending migrations to run');
+            this.logger.log('No pending migrations to run');
             return;
         }
 
-        console.log(`Running ${pendingMigrations.length} pending migration(s)...`);
+        this.logger.log(`Running ${pendingMigrations.length} pending migration(s)...`);
 
         for (const migration of pendingMigrations) {
             try {
                 await this.db.runMigration(migration);
-                console.log(`✓ Applied migration: ${migration.name}`);
+                this.logger.log(`✓ Applied migration: ${migration.name}`);
             } catch (error) {
-                console.error(`✗ Failed to apply migration: ${migration.name}`);
-                console.error(error);
+                this.logger.error(`✗ Failed to apply migration: ${migration.name}`);
+                this.logger.error(error);
                 throw error;
             }
         }
 
-        console.log('All pending migrations applied successfully');
+        this.logger.log('All pending migrations applied successfully');
     }
 
     /**
@@ -209,7 +213,7 @@ ${sql}`;
         defaultValue?: string;
     }>): Promise<Migration> {
         const columnDefinitions = columns.map(col => {
-            let def = `  ${col.name} ${col.type}`;
+            let def = `  ${quoteIdentifier(col.name)} ${col.type}`;
 
             if (col.primaryKey) {
                 def += ' PRIMARY KEY';
@@ -229,7 +233,7 @@ ${sql}`;
             return def;
         }).join(',\n');
 
-        const sql = `CREATE TABLE ${tableName} (\n${columnDefinitions}\n);`;
+        const sql = `CREATE TABLE ${quoteIdentifier(tableName)} (\n${columnDefinitions}\n);`;
 
         return await this.createMigration(`create_${tableName}_table`, sql);
     }
@@ -238,7 +242,7 @@ ${sql}`;
      * Generate a migration to drop a table
      */
     async generateDropTableMigration(tableName: string): Promise<Migration> {
-        const sql = `DROP TABLE IF EXISTS ${tableName};`;
+        const sql = `DROP TABLE IF EXISTS ${quoteIdentifier(tableName)};`;
         return await this.createMigration(`drop_${tableName}_table`, sql);
     }
 
@@ -249,7 +253,7 @@ ${sql}`;
         nullable?: boolean;
         defaultValue?: string;
     } = {}): Promise<Migration> {
-        let sql = `ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${columnType}`;
+        let sql = `ALTER TABLE ${quoteIdentifier(tableName)} ADD COLUMN ${quoteIdentifier(columnName)} ${columnType}`;
 
         if (options.nullable === false) {
             sql += ' NOT NULL';
@@ -269,7 +273,8 @@ ${sql}`;
      */
     async generateCreateIndexMigration(tableName: string, indexName: string, columns: string[], unique: boolean = false): Promise<Migration> {
         const uniqueKeyword = unique ? 'UNIQUE ' : '';
-        const sql = `CREATE ${uniqueKeyword}INDEX ${indexName} ON ${tableName} (${columns.join(', ')});`;
+        const quotedColumns = columns.map(column => quoteIdentifier(column)).join(', ');
+        const sql = `CREATE ${uniqueKeyword}INDEX ${quoteIdentifier(indexName)} ON ${quoteIdentifier(tableName)} (${quotedColumns});`;
 
         return await this.createMigration(`create_${indexName}_index`, sql);
     }
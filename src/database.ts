@@ -1,36 +1,41 @@
 // Main database service - recommended entry point
-export { DatabaseService } from './classes/DatabaseService.js';
+export { DatabaseService, type DatabaseServiceOptions } from './classes/DatabaseService.js';
 
 // Individual managers for advanced usage
 export { D1DatabaseManager } from './classes/D1DatabaseManager.js';
 export { MigrationManager } from './classes/MigrationManager.js';
 export { ConfigManager } from './classes/ConfigManager.js';
 
+// Error classes
+export * from './errors.js';
+
+// Query drivers
+export * from './drivers/index.js';
+
 // Types
 export * from './types/database.js';
 
 // Import for the convenience function
 import { DatabaseService } from './classes/DatabaseService.js';
-import { ConfigManager } from './classes/ConfigManager.js';
-import { D1Config } from './types/database.js';
+import { RetryOptions } from './types/database.js';
+import { D1BindingDriver } from './drivers/D1BindingDriver.js';
+import { SqliteDriver, SqliteDriverOptions } from './drivers/SqliteDriver.js';
+import type { D1Database } from '@cloudflare/workers-types';
 
 export interface D1ConnectionConfig {
     token: string;
     accountId: string;
     databaseId: string;
     databaseName: string;
+    retry?: RetryOptions | false;
+    timeout?: number;
 }
 
-// Convenience function to get a configured database service with explicit config
+// Convenience function to get a configured database service with explicit config.
+// Each call with a config creates an independent client, so several databases can be used at once.
 export async function createDatabaseService(config?: D1ConnectionConfig): Promise<DatabaseService> {
-    const service = DatabaseService.getInstance();
-
-    if (config) {
-        // Use provided configuration
-        const configManager = ConfigManager.getInstance();
-        configManager.setConfig(config);
-    }
-    // If no config provided, will fall back to environment variables
+    // If no config provided, the shared instance falls back to environment variables
+    const service = config ? new DatabaseService({ config }) : DatabaseService.getInstance();
 
     await service.initialize();
     return service;
@@ -42,3 +47,17 @@ export async function createDatabaseServiceFromEnv(): Promise<DatabaseService> {
     await service.initialize();
     return service;
 }
+
+// Inside a Worker: run queries through the native D1 binding (e.g. env.DB)
+export async function createDatabaseServiceFromBinding(binding: D1Database): Promise<DatabaseService> {
+    const service = new DatabaseService({ driver: new D1BindingDriver(binding) });
+    await service.initialize();
+    return service;
+}
+
+// Offline development and tests: run against a local SQLite file or in-memory database
+export async function createDatabaseServiceFromSqlite(options: SqliteDriverOptions = {}): Promise<DatabaseService> {
+    const service = new DatabaseService({ driver: new SqliteDriver(options) });
+    await service.initialize();
+    return service;
+}
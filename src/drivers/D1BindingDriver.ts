@@ -0,0 +1,64 @@
+import type { D1Database, D1PreparedStatement, D1Result } from '@cloudflare/workers-types';
+import { D1Driver, D1Statement, QueryResult } from '../types/database.js';
+
+/**
+ * Driver that runs queries through a Worker's native D1 binding,
+ * avoiding the HTTP round-trip of the REST API
+ */
+export class D1BindingDriver implements D1Driver {
+    public readonly name = 'binding';
+    private binding: D1Database;
+
+    constructor(binding: D1Database) {
+        if (!binding || typeof binding.prepare !== 'function') {
+            throw new Error('D1BindingDriver requires a D1Database binding (e.g. env.DB)');
+        }
+        this.binding = binding;
+    }
+
+    /**
+     * Execute a single SQL statement
+     */
+    async query<T = any>(sql: string, params: any[] = []): Promise<QueryResult<T>> {
+        const result = await this.prepare(sql, params).all<T>();
+        return this.toQueryResult(result);
+    }
+
+    /**
+     * Execute multiple SQL statements in a single binding batch
+     */
+    async batch(statements: D1Statement[]): Promise<QueryResult[]> {
+        const prepared = statements.map(stmt => this.prepare(stmt.sql, stmt.params || []));
+        const results = await this.binding.batch(prepared);
+        return results.map(result => this.toQueryResult(result));
+    }
+
+    /**
+     * Prepare and bind a statement; D1 rejects undefined, so map it to NULL
+     */
+    private prepare(sql: string, params: any[]): D1PreparedStatement {
+        const statement = this.binding.prepare(sql);
+        if (params.length === 0) {
+            return statement;
+        }
+        return statement.bind(...params.map(value => value === undefined ? null : value));
+    }
+
+    /**
+     * Convert a binding result into the shared QueryResult shape
+     */
+    private toQueryResult<T>(result: D1Result<T>): QueryResult<T> {
+        const meta = result.meta || {};
+        return {
+            results: result.results || [],
+            success: result.success,
+            meta: {
+                changes: meta.changes,
+                last_row_id: meta.last_row_id,
+                rows_read: meta.rows_read,
+                rows_written: meta.rows_written,
+                duration: meta.duration
+            }
+        };
+    }
+}
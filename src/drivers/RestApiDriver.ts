@@ -0,0 +1,156 @@
+import {
+    D1Config,
+    D1Driver,
+    D1Response,
+    D1Statement,
+    DatabaseInfo,
+    QueryOptions,
+    QueryResult,
+    RetryOptions
+} from '../types/database.js';
+import { computeRetryDelay, parseRetryAfter, resolveRetryOptions, sleep } from './retry.js';
+import { isReadOnlyStatement } from '../utils/sql.js';
+import { requestError, toD1ORMError } from '../errors.js';
+
+/**
+ * Driver that talks to D1 through the Cloudflare REST API
+ */
+export class RestApiDriver implements D1Driver {
+    public readonly name = 'rest';
+    private config: D1Config;
+    private baseUrl: string;
+    private retry: Required<RetryOptions>;
+
+    constructor(config: D1Config) {
+        this.config = config;
+        this.retry = resolveRetryOptions(config.retry);
+        this.baseUrl = `https://api.cloudflare.com/client/v4/accounts/${config.accountId}/d1/database/${config.databaseId}`;
+    }
+
+    /**
+     * Execute a single SQL statement
+     */
+    async query<T = any>(sql: string, params: any[] = [], options: QueryOptions = {}): Promise<QueryResult<T>> {
+        const response = await this.makeRequest('/query', {
+            method: 'POST',
+            body: JSON.stringify({
+                sql,
+                params
+            }),
+            signal: options.signal
+        }, options.idempotent || isReadOnlyStatement(sql));
+
+        if (!response.success) {
+            throw toD1ORMError(response.errors?.[0]?.message || 'Query failed', { code: response.errors?.[0]?.code });
+        }
+
+        // The actual results are in result[0] for D1 API
+        const queryResult = response.result[0];
+
+        return {
+            results: queryResult?.results || [],
+            success: queryResult?.success || true,
+            meta: queryResult?.meta || {}
+        };
+    }
+
+    /**
+     * Execute multiple SQL statements in a batch
+     */
+    async batch(statements: D1Statement[], options: QueryOptions = {}): Promise<QueryResult[]> {
+        const response = await this.makeRequest('/batch', {
+            method: 'POST',
+            body: JSON.stringify(statements),
+            signal: options.signal
+        }, options.idempotent || statements.every(stmt => isReadOnlyStatement(stmt.sql)));
+
+        if (!response.success) {
+            throw toD1ORMError(response.errors?.[0]?.message || 'Batch query failed', { code: response.errors?.[0]?.code });
+        }
+
+        // For batch requests, result is an array of query results
+        return response.result.map((result: any) => ({
+            results: result.results || [],
+            success: result.success,
+            meta: result.meta || {},
+            error: result.error
+        }));
+    }
+
+    /**
+     * Get database metadata from the API
+     */
+    async getDatabaseInfo(): Promise<Partial<Omit<DatabaseInfo, 'tables'>>> {
+        const response = await this.makeRequest('', {
+            method: 'GET'
+        }, true);
+
+        if (!response.success) {
+            throw toD1ORMError(response.errors?.[0]?.message || 'Failed to get database info', { code: response.errors?.[0]?.code });
+        }
+
+        return {
+            name: response.result.name || this.config.databaseName,
+            size: response.result.file_size || 0,
+            version: response.result.version || 'unknown',
+            created_at: response.result.created_at
+        };
+    }
+
+    /**
+     * Execute a raw HTTP request to the Cloudflare API.
+     * Transient failures (429/5xx, network errors) are retried with backoff,
+     * but only for idempotent requests unless the policy allows replaying writes.
+     */
+    private async makeRequest(endpoint: string, options: RequestInit, idempotent: boolean): Promise<D1Response> {
+        const url = `${this.baseUrl}${endpoint}`;
+        const maxAttempts = idempotent || this.retry.retryNonIdempotent ? this.retry.maxAttempts : 1;
+
+        for (let attempt = 1; ; attempt++) {
+            let response: Response;
+
+            try {
+                response = await fetch(url, {
+                    ...options,
+                    headers: {
+                        'Authorization': `Bearer ${this.config.token}`,
+                        'Content-Type': 'application/json',
+                        ...options.headers
+                    }
+                });
+            } catch (error) {
+                // Never retry a request the caller (or a timeout) aborted
+                if (options.signal?.aborted) {
+                    throw options.signal.reason ?? error;
+                }
+                if (attempt < maxAttempts && this.retry.retryNetworkErrors) {
+                    await sleep(computeRetryDelay(attempt, this.retry), options.signal ?? undefined);
+                    continue;
+                }
+                throw error;
+            }
+
+            if (!response.ok) {
+                if (attempt < maxAttempts && this.retry.retryOnStatus.includes(response.status)) {
+                    // Release the connection before waiting
+                    await response.body?.cancel().catch(() => undefined);
+                    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+                    await sleep(computeRetryDelay(attempt, this.retry, retryAfter), options.signal ?? undefined);
+                    continue;
+                }
+                throw await this.responseError(response);
+            }
+
+            return await response.json() as D1Response<any>;
+        }
+    }
+
+    /**
+     * Typed error for a non-OK response, keeping the D1 error code and message from the body
+     */
+    private async responseError(response: Response): Promise<Error> {
+        const body = await response.json().catch(() => undefined) as D1Response | undefined;
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+        return requestError(response.status, response.statusText, body?.errors?.[0], retryAfter);
+    }
+}
@@ -0,0 +1,218 @@
+import { D1Driver, D1Statement, DatabaseInfo, QueryResult } from '../types/database.js';
+import { toD1ORMError } from '../errors.js';
+
+/**
+ * Minimal surface shared by node:sqlite (DatabaseSync) and better-sqlite3
+ */
+export interface SqliteStatement {
+    all(...params: any[]): any[];
+    run(...params: any[]): { changes: number | bigint; lastInsertRowid: number | bigint };
+    get(...params: any[]): any;
+    reader?: boolean; // better-sqlite3 only
+}
+
+export interface SqliteDatabase {
+    prepare(sql: string): SqliteStatement;
+    exec(sql: string): void;
+    close(): void;
+}
+
+export interface SqliteDriverOptions {
+    filename?: string; // Path to a database file, defaults to ':memory:'
+    library?: 'node:sqlite' | 'better-sqlite3'; // Defaults to node:sqlite, falling back to better-sqlite3
+    database?: SqliteDatabase; // Use an already-open database handle
+}
+
+/**
+ * Driver that runs queries against a local SQLite file or in-memory database.
+ * Useful for offline development and tests; no Cloudflare credentials required.
+ */
+export class SqliteDriver implements D1Driver {
+    public readonly name = 'sqlite';
+    private filename: string;
+    private db: SqliteDatabase;
+
+    constructor(options: SqliteDriverOptions = {}) {
+        this.filename = options.filename || ':memory:';
+        this.db = options.database || openDatabase(this.filename, options.library);
+    }
+
+    /**
+     * Execute a single SQL statement (or a parameterless multi-statement script)
+     */
+    async query<T = any>(sql: string, params: any[] = []): Promise<QueryResult<T>> {
+        return this.execute<T>(sql, params);
+    }
+
+    /**
+     * Execute statements atomically, like a D1 batch
+     */
+    async batch(statements: D1Statement[]): Promise<QueryResult[]> {
+        const results: QueryResult[] = [];
+
+        this.db.exec('BEGIN');
+        try {
+            for (const stmt of statements) {
+                try {
+                    results.push(this.execute(stmt.sql, stmt.params || []));
+                } catch (error) {
+                    // Report which statement of the batch failed
+                    throw toD1ORMError(error, { sql: stmt.sql, params: stmt.params });
+                }
+            }
+            this.db.exec('COMMIT');
+        } catch (error) {
+            this.db.exec('ROLLBACK');
+            throw error;
+        }
+
+        return results;
+    }
+
+    /**
+     * Get database metadata
+     */
+    async getDatabaseInfo(): Promise<Partial<Omit<DatabaseInfo, 'tables'>>> {
+        const { size } = this.db.prepare(
+            'SELECT page_count * page_size AS size FROM pragma_page_count(), pragma_page_size()'
+        ).get();
+        const { version } = this.db.prepare('SELECT sqlite_version() AS version').get();
+
+        return {
+            name: this.filename,
+            size: Number(size) || 0,
+            version
+        };
+    }
+
+    /**
+     * Close the underlying database handle
+     */
+    async close(): Promise<void> {
+        this.db.close();
+    }
+
+    /**
+     * Run a statement and build a D1-shaped result
+     */
+    private execute<T>(sql: string, params: any[]): QueryResult<T> {
+        const start = Date.now();
+        const before = this.readCounters();
+        let results: T[] = [];
+        let script = false;
+
+        if (params.length === 0 && hasMultipleStatements(sql)) {
+            // prepare() only compiles the first statement, so run scripts (migrations) via exec
+            this.db.exec(sql);
+            script = true;
+        } else {
+            const statement = this.db.prepare(sql);
+            const values = params.map(toSqliteValue);
+
+            if (statement.reader === false) {
+                statement.run(...values);
+            } else {
+                results = statement.all(...values).map(row => ({ ...row }));
+            }
+        }
+
+        const after = this.readCounters();
+        const written = after.total - before.total;
+
+        return {
+            results,
+            success: true,
+            meta: {
+                // Like D1: rows changed by the statement itself, not by triggers or foreign key actions
+                changes: written > 0 && !script ? after.changes : written,
+                last_row_id: after.lastRowId,
+                rows_read: results.length,
+                rows_written: written,
+                duration: Date.now() - start
+            }
+        };
+    }
+
+    private readCounters(): { total: number; changes: number; lastRowId: number } {
+        const row = this.db.prepare('SELECT total_changes() AS total, changes() AS changes, last_insert_rowid() AS last_row_id').get();
+        return { total: Number(row.total), changes: Number(row.changes), lastRowId: Number(row.last_row_id) };
+    }
+}
+
+/**
+ * Load a SQLite implementation lazily so the package still loads where none is installed
+ */
+function openDatabase(filename: string, library?: SqliteDriverOptions['library']): SqliteDatabase {
+    const candidates = library ? [library] : ['node:sqlite', 'better-sqlite3'] as const;
+    const failures: string[] = [];
+
+    for (const candidate of candidates) {
+        try {
+            if (candidate === 'node:sqlite') {
+                const { DatabaseSync } = require('node:sqlite');
+                return new DatabaseSync(filename) as SqliteDatabase;
+            }
+            const BetterSqlite3 = require('better-sqlite3');
+            return new BetterSqlite3(filename) as SqliteDatabase;
+        } catch (error) {
+            failures.push(`${candidate}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    throw new Error(`No SQLite library available (use Node.js 22.5+ or install better-sqlite3). ${failures.join('; ')}`);
+}
+
+/**
+ * Match D1's parameter coercion: booleans become 0/1, dates ISO strings, undefined NULL
+ */
+function toSqliteValue(value: any): any {
+    if (value === undefined) return null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value instanceof Date) return value.toISOString();
+    return value;
+}
+
+/**
+ * Detect whether SQL contains more than one statement, ignoring
+ * semicolons inside string literals, quoted identifiers and comments
+ */
+function hasMultipleStatements(sql: string): boolean {
+    let sawTerminator = false;
+    let i = 0;
+
+    while (i < sql.length) {
+        const ch = sql[i];
+
+        if (ch === '-' && sql[i + 1] === '-') {
+            const end = sql.indexOf('\n', i);
+            i = end === -1 ? sql.length : end + 1;
+            continue;
+        }
+        if (ch === '/' && sql[i + 1] === '*') {
+            const end = sql.indexOf('*/', i + 2);
+            i = end === -1 ? sql.length : end + 2;
+            continue;
+        }
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+        if (sawTerminator) {
+            return true;
+        }
+        if (ch === ';') {
+            sawTerminator = true;
+            i++;
+            continue;
+        }
+        if (ch === '\'' || ch === '"' || ch === '`' || ch === '[') {
+            const close = ch === '[' ? ']' : ch;
+            const end = sql.indexOf(close, i + 1);
+            i = end === -1 ? sql.length : end + 1;
+            continue;
+        }
+        i++;
+    }
+
+    return false;
+}
@@ -0,0 +1,4 @@
+// Query drivers
+export { RestApiDriver } from './RestApiDriver.js';
+export { D1BindingDriver } from './D1BindingDriver.js';
+export { SqliteDriver, type SqliteDriverOptions, type SqliteDatabase, type SqliteStatement } from './SqliteDriver.js';
@@ -0,0 +1,83 @@
+/**
+ * Retry helpers for transient D1 API failures
+ */
+
+import { RetryOptions } from '../types/database.js';
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+    maxAttempts: 3,
+    baseDelayMs: 200,
+    maxDelayMs: 5000,
+    maxRetryAfterMs: 60000,
+    jitter: true,
+    retryOnStatus: [429, 500, 502, 503, 504],
+    retryNetworkErrors: true,
+    retryNonIdempotent: false
+};
+
+/**
+ * Merge user options with defaults; `false` disables retries entirely
+ */
+export function resolveRetryOptions(options?: RetryOptions | false): Required<RetryOptions> {
+    if (options === false) {
+        return { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 };
+    }
+    return { ...DEFAULT_RETRY_OPTIONS, ...options };
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) {
+        return undefined;
+    }
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+/**
+ * Delay before the next attempt: the server's Retry-After when given,
+ * otherwise exponential backoff with equal jitter
+ */
+export function computeRetryDelay(attempt: number, options: Required<RetryOptions>, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+        return Math.min(retryAfterMs, options.maxRetryAfterMs);
+    }
+
+    const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+    return options.jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+}
+
+/**
+ * Wait between attempts, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
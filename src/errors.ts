@@ -0,0 +1,385 @@
+/**
+ * Error classes thrown by the D1 ORM
+ *
+ * D1ORMError
+ * ├── DatabaseError                 SQL rejected by D1/SQLite
+ * │   └── ConstraintError
+ * │       ├── UniqueConstraintError
+ * │       ├── ForeignKeyConstraintError
+ * │       ├── NotNullConstraintError
+ * │       └── CheckConstraintError
+ * ├── ValidationError               Data rejected by the schema before it reached the database
+ * ├── UnknownColumnError            Column not declared by a strict schema
+ * ├── RequestError                  Cloudflare API failures
+ * │   ├── RateLimitError
+ * │   ├── AuthError
+ * │   └── NotFoundError
+ * └── TimeoutError
+ */
+
+export interface D1ErrorDetails {
+    code?: string | number; // Original D1/SQLite error code
+    originalMessage?: string; // Message as reported by D1/SQLite (defaults to the error message)
+    sql?: string;
+    params?: any[];
+    tableName?: string;
+    cause?: unknown;
+}
+
+/**
+ * Base class for every error raised by the ORM
+ */
+export class D1ORMError extends Error {
+    public readonly code?: string | number;
+    public readonly originalMessage: string;
+    public sql?: string;
+    public params?: any[];
+    public tableName?: string;
+    public recordIndex?: number; // Position of the failing record when a bulk operation stops on it
+
+    constructor(message: string, details: D1ErrorDetails = {}) {
+        super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+        this.name = 'D1ORMError';
+        this.code = details.code;
+        this.originalMessage = details.originalMessage ?? message;
+        this.sql = details.sql;
+        this.params = details.params;
+        this.tableName = details.tableName;
+    }
+}
+
+/**
+ * A statement was rejected by the database
+ */
+export class DatabaseError extends D1ORMError {
+    constructor(message: string, details: D1ErrorDetails = {}) {
+        super(message, details);
+        this.name = 'DatabaseError';
+    }
+}
+
+/**
+ * A statement violated a table constraint
+ */
+export class ConstraintError extends DatabaseError {
+    public readonly table?: string;
+    public columns: string[];
+
+    constructor(message: string, details: D1ErrorDetails & { table?: string; columns?: string[] } = {}) {
+        super(message, { ...details, tableName: details.tableName ?? details.table });
+        this.name = 'ConstraintError';
+        this.table = details.table ?? details.tableName;
+        this.columns = details.columns ?? [];
+    }
+}
+
+export class UniqueConstraintError extends ConstraintError {
+    public value?: Record<string, any>; // Conflicting value per column, when known
+
+    constructor(message: string, details: D1ErrorDetails & { table?: string; columns?: string[]; value?: Record<string, any> } = {}) {
+        super(message, details);
+        this.name = 'UniqueConstraintError';
+        this.value = details.value;
+    }
+}
+
+export class ForeignKeyConstraintError extends ConstraintError {
+    constructor(message: string, details: D1ErrorDetails & { table?: string; columns?: string[] } = {}) {
+        super(message, details);
+        this.name = 'ForeignKeyConstraintError';
+    }
+}
+
+export class NotNullConstraintError extends ConstraintError {
+    constructor(message: string, details: D1ErrorDetails & { table?: string; columns?: string[] } = {}) {
+        super(message, details);
+        this.name = 'NotNullConstraintError';
+    }
+}
+
+export class CheckConstraintError extends ConstraintError {
+    public readonly constraint?: string; // Constraint name or expression, when reported
+
+    constructor(message: string, details: D1ErrorDetails & { table?: string; columns?: string[]; constraint?: string } = {}) {
+        super(message, details);
+        this.name = 'CheckConstraintError';
+        this.constraint = details.constraint;
+    }
+}
+
+export type ValidationRule =
+    | 'required' | 'type' | 'minLength' | 'maxLength' | 'min' | 'max' | 'enum' | 'custom'
+    | 'unique' | 'exists' | 'record';
+
+export interface ValidationIssue {
+    field: string;
+    rule: ValidationRule;
+    message: string;
+    value: any; // The rejected value
+    params: Record<string, any>; // Rule arguments, e.g. { maxLength: 50 } or { values: [...] }
+}
+
+/**
+ * Data failed schema validation; `issues` lists every failing field
+ */
+export class ValidationError extends D1ORMError {
+    public readonly issues: ValidationIssue[];
+
+    constructor(issues: ValidationIssue[], details: D1ErrorDetails = {}) {
+        super(`Validation failed: ${issues.map(issue => issue.message).join(', ')}`, details);
+        this.name = 'ValidationError';
+        this.issues = issues;
+    }
+
+    /**
+     * Issues grouped by field name
+     */
+    get fields(): Record<string, string[]> {
+        const fields: Record<string, string[]> = {};
+        for (const issue of this.issues) {
+            (fields[issue.field] ??= []).push(issue.message);
+        }
+        return fields;
+    }
+}
+
+/**
+ * A query or write named columns that a strict schema does not declare
+ */
+export class UnknownColumnError extends D1ORMError {
+    public readonly columns: string[];
+
+    constructor(columns: string[], details: D1ErrorDetails = {}) {
+        const table = details.tableName ? ` on '${details.tableName}'` : '';
+        super(`Unknown column${columns.length > 1 ? 's' : ''} ${columns.map(column => `'${column}'`).join(', ')}${table}`, details);
+        this.name = 'UnknownColumnError';
+        this.columns = columns;
+    }
+}
+
+/**
+ * The Cloudflare API rejected a request
+ */
+export class RequestError extends D1ORMError {
+    public readonly status?: number; // HTTP status
+
+    constructor(message: string, details: D1ErrorDetails & { status?: number } = {}) {
+        super(message, details);
+        this.name = 'RequestError';
+        this.status = details.status;
+    }
+}
+
+export class RateLimitError extends RequestError {
+    public readonly retryAfterMs?: number;
+
+    constructor(message: string = 'Rate Limited - Too many requests. Please try again later.', details: D1ErrorDetails & { status?: number; retryAfterMs?: number } = {}) {
+        super(message, { status: 429, ...details });
+        this.name = 'RateLimitError';
+        this.retryAfterMs = details.retryAfterMs;
+    }
+}
+
+/**
+ * Invalid credentials (401) or insufficient permissions (403)
+ */
+export class AuthError extends RequestError {
+    constructor(message: string, details: D1ErrorDetails & { status?: number } = {}) {
+        super(message, details);
+        this.name = 'AuthError';
+    }
+}
+
+export class NotFoundError extends RequestError {
+    constructor(message: string = 'Not Found - The specified database or resource does not exist.', details: D1ErrorDetails & { status?: number } = {}) {
+        super(message, { status: 404, ...details });
+        this.name = 'NotFoundError';
+    }
+}
+
+/**
+ * A query exceeded its timeout; the underlying request was aborted
+ */
+export class TimeoutError extends D1ORMError {
+    public readonly timeoutMs: number;
+
+    constructor(timeoutMs: number, message: string = `Query timed out after ${timeoutMs}ms`) {
+        super(message);
+        this.name = 'TimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * Build the typed error for a failed Cloudflare API response
+ */
+export function requestError(
+    status: number,
+    statusText: string,
+    apiError?: { code?: number; message?: string },
+    retryAfterMs?: number
+): D1ORMError {
+    const httpMessage = `HTTP ${status}: ${statusText}`;
+    const details = { status, code: apiError?.code, originalMessage: apiError?.message ?? httpMessage };
+
+    if (status === 429) {
+        return new RateLimitError(undefined, { ...details, retryAfterMs });
+    }
+    if (status === 401) {
+        return new AuthError('Unauthorized - Invalid database credentials or access token.', details);
+    }
+    if (status === 403) {
+        return new AuthError('Forbidden - Insufficient permissions to perform this operation.', details);
+    }
+    if (status === 404) {
+        return new NotFoundError(undefined, details);
+    }
+
+    // D1 reports SQL errors (constraint violations, syntax errors) as 4xx with the SQLite message
+    if (apiError?.message && status < 500) {
+        return toD1ORMError(apiError.message, details);
+    }
+
+    return new RequestError(apiError?.message ? `${httpMessage} - ${apiError.message}` : httpMessage, details);
+}
+
+/**
+ * Classify an error raised by a driver (or a failed QueryResult message) into the hierarchy.
+ * SQLite constraint messages are matched on their fixed prefixes; everything else is a DatabaseError.
+ */
+export function toD1ORMError(error: unknown, details: D1ErrorDetails = {}): D1ORMError {
+    if (error instanceof D1ORMError) {
+        error.sql ??= details.sql;
+        error.params ??= details.params;
+        error.tableName ??= details.tableName;
+        return error;
+    }
+
+    const message = details.originalMessage
+        ?? (error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error');
+    const base: D1ErrorDetails = {
+        ...details,
+        code: details.code ?? errorCode(error, message),
+        originalMessage: message,
+        cause: details.cause ?? (error instanceof Error ? error : undefined)
+    };
+
+    const unique = message.match(/UNIQUE constraint failed: ((?:[\w$]+\.[\w$]+(?:,\s*)?)+)/i);
+    if (unique) {
+        const { table, columns } = parseColumnList(unique[1]);
+        const value = conflictingValues(columns, base.sql, base.params);
+        return new UniqueConstraintError(uniqueMessage(columns), { ...base, table, columns, value });
+    }
+
+    if (/FOREIGN KEY constraint failed/i.test(message)) {
+        return new ForeignKeyConstraintError(
+            'Foreign key constraint violation. The referenced record does not exist or cannot be deleted due to existing relationships.',
+            { ...base, table: base.tableName }
+        );
+    }
+
+    const notNull = message.match(/NOT NULL constraint failed: ([\w$]+)\.([\w$]+)/i);
+    if (notNull) {
+        return new NotNullConstraintError(notNullMessage(notNull[2]), { ...base, table: notNull[1], columns: [notNull[2]] });
+    }
+
+    const check = message.match(/CHECK constraint failed: ?([^:]*)/i);
+    if (check) {
+        return new CheckConstraintError(
+            'Data validation failed. One or more values do not meet the required constraints.',
+            { ...base, table: base.tableName, constraint: check[1].trim() || undefined }
+        );
+    }
+
+    return new DatabaseError(message, base);
+}
+
+/**
+ * Report a constraint error by the names a model reads and writes its columns with
+ */
+export function renameConstraintColumns(error: ConstraintError, propertyName: (column: string) => string): void {
+    error.columns = error.columns.map(propertyName);
+    if (error instanceof UniqueConstraintError) {
+        if (error.value) {
+            error.value = Object.fromEntries(Object.entries(error.value).map(([column, value]) => [propertyName(column), value]));
+        }
+        error.message = uniqueMessage(error.columns);
+    } else if (error instanceof NotNullConstraintError) {
+        error.message = notNullMessage(error.columns[0]);
+    }
+}
+
+function uniqueMessage(columns: string[]): string {
+    return `Duplicate entry detected. The ${columns.join(', ')} already exists. Please use a different value.`;
+}
+
+function notNullMessage(column: string): string {
+    return `Missing required field: ${column}. This field cannot be empty.`;
+}
+
+/**
+ * Best available error code: SQLite extended code (node:sqlite), driver code
+ * (better-sqlite3, D1 API), or the SQLITE_* suffix D1 bindings append to messages
+ */
+function errorCode(error: unknown, message: string): string | number | undefined {
+    const source = error as { errcode?: number; code?: string | number } | undefined;
+    if (typeof source?.errcode === 'number') {
+        return source.errcode;
+    }
+    if (source?.code !== undefined && source.code !== 'ERR_SQLITE_ERROR') {
+        return source.code;
+    }
+    return message.match(/\bSQLITE_[A-Z_]+\b/)?.[0];
+}
+
+/**
+ * "users.tenant_id, users.email" -> table and column names
+ */
+function parseColumnList(list: string): { table?: string; columns: string[] } {
+    const qualified = list.split(',').map(part => part.trim()).filter(Boolean);
+    return {
+        table: qualified[0]?.split('.')[0],
+        columns: qualified.map(name => name.split('.').pop()!)
+    };
+}
+
+/**
+ * Recover the values bound to the conflicting columns from an INSERT or UPDATE statement
+ */
+function conflictingValues(columns: string[], sql?: string, params?: any[]): Record<string, any> | undefined {
+    if (!sql || !params) {
+        return undefined;
+    }
+
+    const assigned: Record<string, any> = {};
+    const insert = sql.match(/^\s*INSERT\s+(?:OR\s+\w+\s+)?INTO\s+\S+\s*\(([^)]*)\)\s*VALUES\s*\(([^)]*)\)/i);
+    const update = sql.match(/^\s*UPDATE\s+\S+\s+SET\s+(.*?)(?:\s+(?:WHERE|RETURNING)\s|$)/is);
+
+    if (insert) {
+        const names = insert[1].split(',').map(name => name.trim().replace(/^["`[]|["`\]]$/g, ''));
+        const placeholders = insert[2].split(',').map(value => value.trim());
+        // Only the first row, and only when every value is a bound parameter
+        if (placeholders.length !== names.length || !placeholders.every(value => value === '?')) {
+            return undefined;
+        }
+        names.forEach((name, index) => { assigned[name] = params[index]; });
+    } else if (update) {
+        const assignments = update[1].split(',').map(part => part.trim());
+        if (!assignments.every(part => /^["`[]?[\w$]+["`\]]?\s*=\s*\?$/.test(part))) {
+            return undefined;
+        }
+        assignments.forEach((part, index) => {
+            assigned[part.split('=')[0].trim().replace(/^["`[]|["`\]]$/g, '')] = params[index];
+        });
+    } else {
+        return undefined;
+    }
+
+    const value: Record<string, any> = {};
+    for (const column of columns) {
+        if (column in assigned) {
+            value[column] = assigned[column];
+        }
+    }
+    return Object.keys(value).length > 0 ? value : undefined;
+}
@@ -2,4 +2,31 @@
 export * from './orm';
 
 // Re-export database creation helper and types
-export { createDatabaseService, createDatabaseServiceFromEnv, type D1ConnectionConfig } from './database';
+export {
+    createDatabaseService,
+    createDatabaseServiceFromEnv,
+    createDatabaseServiceFromBinding,
+    createDatabaseServiceFromSqlite,
+    type D1ConnectionConfig
+} from './database';
+export {
+    D1ORMError,
+    DatabaseError,
+    ConstraintError,
+    UniqueConstraintError,
+    ForeignKeyConstraintError,
+    NotNullConstraintError,
+    CheckConstraintError,
+    ValidationError,
+    UnknownColumnError,
+    RequestError,
+    RateLimitError,
+    AuthError,
+    NotFoundError,
+    TimeoutError,
+    type D1ErrorDetails,
+    type ValidationIssue,
+    type ValidationRule
+} from './errors';
+export { RestApiDriver, D1BindingDriver, SqliteDriver, type SqliteDriverOptions } from './drivers';
+export type { D1Driver, D1Statement, Logger, QueryOptions, QueryResult, RetryOptions } from './types/database';
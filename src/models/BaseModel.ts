@@ -1,5 +1,6 @@
 import { DatabaseService } from '../classes/DatabaseService.js';
 import { QueryResult } from '../types/database.js';
+import { quoteIdentifier } from '../utils/sql.js';
 
 export abstract class BaseModel {
     protected db: DatabaseService;
@@ -30,7 +31,7 @@ export abstract class BaseModel {
      */
     protected async exists(id: number): Promise<boolean> {
         const result = await this.executeQuery<{ count: number }>(
-            `SELECT COUNT(*) as count FROM ${this.tableName} WHERE id = ?`,
+            `SELECT COUNT(*) as count FROM ${quoteIdentifier(this.tableName)} WHERE id = ?`,
             [id]
         );
         return result.results[0]?.count > 0;
@@ -40,7 +41,7 @@ export abstract class BaseModel {
      * Get the total count of records in the table
      */
     async count(whereClause?: string, params?: any[]): Promise<number> {
-        let sql = `SELECT COUNT(*) as count FROM ${this.tableName}`;
+        let sql = `SELECT COUNT(*) as count FROM ${quoteIdentifier(this.tableName)}`;
         if (whereClause) {
             sql += ` ${whereClause}`;
         }
@@ -53,7 +54,7 @@ export abstract class BaseModel {
      * Delete all records from the table (use with caution)
      */
     async truncate(): Promise<void> {
-        await this.executeQuery(`DELETE FROM ${this.tableName}`);
+        await this.executeQuery(`DELETE FROM ${quoteIdentifier(this.tableName)}`);
     }
 
     /**
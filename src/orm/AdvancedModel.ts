@@ -20,7 +20,14 @@ export type {
     ModelHooks,
     FindOptions,
     PaginatedResult,
+    PrimaryKeyValue,
     AggregateOptions,
     AggregateResult,
-    BulkResult
+    TopNOptions,
+    WindowOptions,
+    BulkResult,
+    UpsertOptions,
+    UpsertResult,
+    UpsertUpdate,
+    HierarchyOptions
 } from './advanced/AdvancedModel.js';
@@ -7,20 +7,28 @@ import { DatabaseService } from '../classes/DatabaseService.js';
 import { AdvancedModel, ModelHooks } from './AdvancedModel.js';
 import { Schema, SchemaDefinition, SchemaOptions } from './Schema.js';
 import { QueryBuilder } from './QueryBuilder.js';
+import { InferCreateInput, InferRow, InferUpdateInput, WithNaming } from './infer.js';
+import { BelongsToManyOptions, RelationshipOptions, RelationshipType } from './Relationships.js';
+import { NamingStrategy, toCamelCase, toSnakeCase } from './naming.js';
+import { Transaction, TransactionRef } from './Transaction.js';
+import { quoteIdentifier } from '../utils/sql.js';
+import { toD1ORMError } from '../errors.js';
 
 export interface D1ORMOptions {
     database: DatabaseService;
     autoSync?: boolean; // Automatically sync schemas to database
     logging?: boolean;
+    strict?: boolean; // Default for SchemaOptions.strict: reject columns a schema does not declare
+    naming?: NamingStrategy; // Default for SchemaOptions.naming: how property names map to column names
 }
 
-export class D1ORM {
+export class D1ORM<N extends NamingStrategy = 'preserve'> {
     private db: DatabaseService;
     private models: Map<string, AdvancedModel> = new Map();
     private schemas: Map<string, Schema> = new Map();
-    private options: D1ORMOptions;
+    private options: D1ORMOptions & { naming?: N };
 
-    constructor(options: D1ORMOptions) {
+    constructor(options: D1ORMOptions & { naming?: N }) {
         this.db = options.database;
         this.options = {
             autoSync: false,
@@ -30,8 +38,23 @@ export class D1ORM {
     }
 
     /**
-     * Define a model
+     * Define a model; its row, create and update types are inferred from the definition
      */
+    define<const S extends SchemaDefinition, const O extends SchemaOptions = {}>(
+        modelName: string,
+        schemaDefinition: S,
+        options?: O & { hooks?: ModelHooks<InferRow<S, WithNaming<O, N>>> }
+    ): AdvancedModel<InferRow<S, WithNaming<O, N>>, InferCreateInput<S, WithNaming<O, N>>, InferUpdateInput<S, WithNaming<O, N>>>;
+
+    /**
+     * Define a model with an explicit row type
+     */
+    define<T extends Record<string, any>>(
+        modelName: string,
+        schemaDefinition: SchemaDefinition,
+        options?: SchemaOptions & { hooks?: ModelHooks<T> }
+    ): AdvancedModel<T>;
+
     define<T extends Record<string, any> = any>(
         modelName: string,
         schemaDefinition: SchemaDefinition,
@@ -42,6 +65,8 @@ export class D1ORM {
         // Create schema
         const schema = new Schema(schemaDefinition, {
             tableName: schemaOptions.tableName || modelName.toLowerCase(),
+            strict: this.options.strict,
+            naming: this.options.naming,
             ...schemaOptions
         });
 
@@ -97,6 +122,89 @@ export class D1ORM {
         return schema;
     }
 
+    /**
+     * `source` has one `target`; the target holds the foreign key (default `<source>_id`)
+     */
+    hasOne(source: string, target: string, options: RelationshipOptions = {}): this {
+        return this.relate('hasOne', source, target, {
+            foreignKey: this.defaultForeignKey(target, source),
+            ...options
+        });
+    }
+
+    /**
+     * `source` has many `target`s; the target holds the foreign key (default `<source>_id`)
+     */
+    hasMany(source: string, target: string, options: RelationshipOptions = {}): this {
+        return this.relate('hasMany', source, target, {
+            as: this.getSchema(target).tableName,
+            foreignKey: this.defaultForeignKey(target, source),
+            ...options
+        });
+    }
+
+    /**
+     * `source` belongs to a `target`; the source holds the foreign key (default `<target>_id`)
+     */
+    belongsTo(source: string, target: string, options: RelationshipOptions = {}): this {
+        return this.relate('belongsTo', source, target, {
+            foreignKey: this.defaultForeignKey(source, target),
+            ...options
+        });
+    }
+
+    /**
+     * Many-to-many through a join table holding `<source>_id` and `<target>_id`
+     */
+    belongsToMany(source: string, target: string, options: BelongsToManyOptions): this {
+        return this.relate('belongsToMany', source, target, {
+            as: this.getSchema(target).tableName,
+            foreignKey: `${toSnakeCase(source)}_id`,
+            otherKey: `${toSnakeCase(target)}_id`,
+            ...options
+        });
+    }
+
+    /**
+     * Foreign key property `holder` gets by default for a reference to `referenced`:
+     * `<referenced>_id`, or `<referenced>Id` when `holder` stores snake_case columns
+     */
+    private defaultForeignKey(holder: string, referenced: string): string {
+        const foreignKey = `${toSnakeCase(referenced)}_id`;
+        return this.getSchema(holder).options.naming === 'snake_case' ? toCamelCase(foreignKey) : foreignKey;
+    }
+
+    private relate(type: RelationshipType, source: string, target: string, options: Partial<BelongsToManyOptions>): this {
+        this.model(source).addRelationship({
+            type,
+            name: options.as ?? toSnakeCase(target),
+            target: this.model(target),
+            foreignKey: options.foreignKey!,
+            sourceKey: options.sourceKey ?? this.referencedKey(source, type !== 'belongsTo'),
+            targetKey: options.targetKey ?? this.referencedKey(target, type === 'belongsTo' || type === 'belongsToMany'),
+            through: options.through,
+            otherKey: options.otherKey
+        });
+
+        if (this.options.logging) {
+            console.log(`Relationship ${source}.${type}(${target}) defined`);
+        }
+
+        return this;
+    }
+
+    /**
+     * Default column a relationship references on `modelName`: its primary key,
+     * which has to be a single column when the relationship type uses it
+     */
+    private referencedKey(modelName: string, used: boolean): string {
+        const primaryKey = this.getSchema(modelName).primaryKey;
+        if (used && primaryKey.length > 1) {
+            throw new Error(`'${modelName}' has a composite primary key; pass sourceKey/targetKey to choose the referenced column`);
+        }
+        return primaryKey[0];
+    }
+
     /**
      * Sync all models to database (create tables)
      */
@@ -136,7 +244,7 @@ export class D1ORM {
 
         if (tableExists && force) {
             // Drop and recreate table
-            await this.db.query(`DROP TABLE ${schema.tableName}`);
+            await this.db.query(`DROP TABLE ${quoteIdentifier(schema.tableName)}`);
             if (this.options.logging) {
                 console.log(`Dropped existing table '${schema.tableName}'`);
             }
@@ -202,7 +310,7 @@ export class D1ORM {
             try {
                 const tableExists = await this.db.tableExists(schema.tableName);
                 if (tableExists) {
-                    await this.db.query(`DROP TABLE ${schema.tableName}`);
+                    await this.db.query(`DROP TABLE ${quoteIdentifier(schema.tableName)}`);
 
                     if (this.options.logging) {
                         console.log(`✓ Dropped table '${schema.tableName}'`);
@@ -272,19 +380,59 @@ export class D1ORM {
     async raw<T = any>(sql: string, params: any[] = []): Promise<T[]> {
         const result = await this.db.query<T>(sql, params);
         if (!result.success) {
-            throw new Error(result.error || 'Query execution failed');
+            throw toD1ORMError(result.error || 'Query execution failed', { code: result.errorCode, sql, params });
         }
         return result.results;
     }
 
     /**
-     * Begin transaction
+     * Run a unit of work atomically.
+     * Writes made through `trx` (its models or `trx.raw`) are queued and sent as a
+     * single D1 batch when the callback resolves; if the callback throws or the batch
+     * fails, nothing is applied. Reads run immediately against committed data.
+     * Use `trx.model(...)` rather than models captured outside the callback.
      */
-    async transaction<T>(callback: (trx: D1ORM) => Promise<T>): Promise<T> {
-        // Note: D1 doesn't support traditional transactions yet
-        // This is a placeholder for future implementation
-        // For now, we'll just execute the callback
-        return await callback(this);
+    async transaction<T>(callback: (trx: D1ORM<N>) => Promise<T>): Promise<T> {
+        // Nested transactions join the outer one
+        if (this.db instanceof Transaction) {
+            return await callback(this);
+        }
+
+        const transaction = new Transaction(this.db);
+        const trx = this.withDatabase(transaction);
+
+        let result: T;
+        try {
+            result = await callback(trx);
+        } catch (error) {
+            transaction.rollback();
+            throw error;
+        }
+
+        await transaction.commit();
+        return result;
+    }
+
+    /**
+     * Reference to the row id of the last insert queued in the current transaction
+     */
+    lastInsertId(): TransactionRef {
+        if (!(this.db instanceof Transaction)) {
+            throw new Error('lastInsertId() is only available inside orm.transaction()');
+        }
+        return this.db.lastInsertId();
+    }
+
+    /**
+     * Copy of this ORM whose models run against another database service
+     */
+    private withDatabase(db: DatabaseService): D1ORM<N> {
+        const scoped = new D1ORM<N>({ ...this.options, database: db });
+        for (const [modelName, model] of this.models.entries()) {
+            scoped.models.set(modelName, model.withDatabase(db));
+        }
+        scoped.schemas = new Map(this.schemas);
+        return scoped;
     }
 
     /**
@@ -319,3 +467,4 @@ export class D1ORM {
 export { Schema, SchemaDefinition, SchemaOptions, FieldDefinition } from './Schema.js';
 export { QueryBuilder, WhereOperator, OrderDirection, JoinType } from './QueryBuilder.js';
 export { AdvancedModel, ModelHooks, FindOptions, PaginatedResult } from './AdvancedModel.js';
+export { Transaction, TransactionRef } from './Transaction.js';
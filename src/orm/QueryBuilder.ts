@@ -1,19 +1,97 @@
 /**
  * Query Builder for D1 ORM
  * Provides a fluent interface for building SQL queries
+ *
+ * Table and column names are quoted when the query is built, and anything that is
+ * not a plain identifier is rejected. `select()` and `having()` also accept SQL
+ * expressions (`COUNT(*) AS total`), which are passed through unchanged, so they
+ * must never receive request input directly; model queries validate their columns.
+ *
+ * Subqueries (another QueryBuilder) and `raw()` fragments can be embedded in
+ * `select`, `from`, `whereIn`, `whereExists`, comparisons, `groupBy` and `orderBy`.
+ * Their parameters are merged into the outer `params` in the order they appear in the SQL.
+ *
+ * `with()` and `withRecursive()` define common table expressions that the query
+ * (or its subqueries) can then select from by name.
+ *
+ * `union()`, `unionAll()`, `intersect()` and `except()` append compound members; the
+ * query's own `orderBy`, `limit` and `offset` then apply to the combined result.
+ *
+ * Window functions (`rowNumber`, `rank`, `lag`, `windowAggregate`, ...) are added as
+ * extra columns after the selected fields; `window()` declares named windows they can share.
+ *
+ * `mapColumns()` translates the column names the query is written with (model property
+ * names) into stored column names; qualified names (`users.name`) and expressions are not translated.
  */
 
-export type WhereOperator = '=' | '!=' | '>' | '<' | '>=' | '<=' | 'LIKE' | 'NOT LIKE' | 'IN' | 'NOT IN' | 'BETWEEN' | 'IS NULL' | 'IS NOT NULL';
+import { isIdentifier, quoteIdentifier, replacePlaceholders } from '../utils/sql.js';
+
+export type WhereOperator = '=' | '!=' | '>' | '<' | '>=' | '<=' | 'LIKE' | 'NOT LIKE' | 'GLOB' | 'IN' | 'NOT IN' | 'BETWEEN' | 'IS NULL' | 'IS NOT NULL';
 export type OrderDirection = 'ASC' | 'DESC';
 export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL';
+export type CompoundOperator = 'UNION' | 'UNION ALL' | 'INTERSECT' | 'EXCEPT';
+export type WindowAggregate = 'SUM' | 'AVG' | 'COUNT' | 'MIN' | 'MAX';
+
+/**
+ * SQL written by the caller, with its own bound parameters: `raw('json_extract(meta, ?) AS x', ['$.a'])`
+ */
+export class Raw {
+    constructor(public readonly sql: string, public readonly params: any[] = []) {
+        let placeholders = 0;
+        replacePlaceholders(sql, () => { placeholders++; return '?'; });
+        if (placeholders !== params.length) {
+            throw new Error(`Raw SQL has ${placeholders} placeholder(s) but ${params.length} parameter(s): ${sql}`);
+        }
+    }
+}
+
+/**
+ * Create a raw SQL fragment. Only `params` are bound; `sql` is emitted as written.
+ */
+export function raw(sql: string, params: any[] = []): Raw {
+    return new Raw(sql, params);
+}
+
+/**
+ * The value an upsert tried to insert into `column` (`excluded."column"`), for
+ * `ON CONFLICT ... DO UPDATE` assignments such as `{ name: excluded('name') }`
+ */
+export function excluded(column: string): Raw {
+    return new Raw(`excluded.${quoteIdentifier(column)}`);
+}
+
+/**
+ * A nested query or raw fragment embedded in a larger query
+ */
+export type SubQuery = QueryBuilder | Raw;
 
 export interface WhereCondition {
     field: string;
     operator: WhereOperator;
-    value?: any;
-    values?: any[]; // For IN, NOT IN, BETWEEN
+    value?: any; // A value, or a SubQuery compared against (`price > (SELECT AVG(price) ...)`)
+    values?: any[] | SubQuery; // For IN, NOT IN, BETWEEN
+    escape?: string; // Escape character for LIKE patterns
+}
+
+export type WhereConjunction = 'AND' | 'OR';
+
+/**
+ * A condition or a parenthesized group, joined to the clauses before it by `conjunction`
+ */
+export interface WhereClause {
+    conjunction: WhereConjunction;
+    negate: boolean;
+    condition?: WhereCondition;
+    group?: WhereClause[];
+    exists?: SubQuery; // EXISTS (...)
+    raw?: Raw; // Parenthesized raw condition
 }
 
+/**
+ * Builds a parenthesized group: `where(q => q.where(...).orWhere(...))`
+ */
+export type WhereGroupCallback = (query: QueryBuilder) => QueryBuilder | void;
+
 export interface JoinCondition {
     type: JoinType;
     table: string;
@@ -22,21 +100,80 @@ export interface JoinCondition {
 }
 
 export interface OrderByCondition {
-    field: string;
+    field: string | Raw;
     direction: OrderDirection;
 }
 
+/**
+ * A named common table expression: `name(columns) AS (query)`, or for recursive
+ * CTEs `name(columns) AS (initial UNION ALL recursive)`
+ */
+export interface CommonTableExpression {
+    name: string;
+    query: SubQuery;
+    recursive?: SubQuery; // Member that references `name`
+    columns?: string[];
+}
+
+/**
+ * Rows a window aggregate covers around the current row. Omitted bounds are the
+ * current row, so `{ preceding: 'unbounded' }` is a running total and
+ * `{ preceding: 2 }` a three-row moving window.
+ */
+export interface WindowFrame {
+    unit?: 'ROWS' | 'RANGE' | 'GROUPS'; // Defaults to ROWS
+    preceding?: number | 'unbounded';
+    following?: number | 'unbounded';
+}
+
+/**
+ * `OVER (PARTITION BY ... ORDER BY ... ROWS ...)`
+ */
+export interface WindowSpec {
+    window?: string; // Named window this one extends
+    partitionBy?: string | string[];
+    orderBy?: string | string[] | Record<string, OrderDirection>;
+    frame?: WindowFrame;
+}
+
+interface WindowColumn {
+    fn: string;
+    args: string[]; // Rendered arguments; values are bound through `params`
+    params: any[];
+    over: WindowSpec | string; // A spec, or the name of a window declared with window()
+    alias: string;
+}
+
+export interface CompoundMember {
+    operator: CompoundOperator;
+    query: SubQuery;
+}
+
+/**
+ * A subquery (or raw table expression) used as the FROM source
+ */
+export interface FromSubQuery {
+    source: SubQuery;
+    alias: string;
+}
+
 export class QueryBuilder {
-    private _select: string[] = ['*'];
-    private _from: string = '';
-    private _where: WhereCondition[] = [];
+    private _select: Array<string | Raw> = ['*'];
+    private _from: string | FromSubQuery = '';
+    private _where: WhereClause[] = [];
     private _joins: JoinCondition[] = [];
     private _orderBy: OrderByCondition[] = [];
-    private _groupBy: string[] = [];
-    private _having: WhereCondition[] = [];
+    private _groupBy: Array<string | Raw> = [];
+    private _having: WhereClause[] = [];
     private _limit?: number;
     private _offset?: number;
     private _distinct: boolean = false;
+    private _with: CommonTableExpression[] = [];
+    private _compounds: CompoundMember[] = [];
+    private _windowColumns: WindowColumn[] = [];
+    private _windows: Array<{ name: string; spec: WindowSpec }> = [];
+    private _returning: Array<string | Raw> = [];
+    private _columns?: (name: string) => string;
 
     constructor(tableName?: string) {
         if (tableName) {
@@ -45,17 +182,51 @@ export class QueryBuilder {
     }
 
     /**
-     * Set the table to select from
+     * Translate the unqualified column names the query is written with when it is built
      */
-    from(tableName: string): QueryBuilder {
-        this._from = tableName;
+    mapColumns(mapper: (name: string) => string): QueryBuilder {
+        this._columns = mapper;
+        return this;
+    }
+
+    /**
+     * Define a common table expression the query can select from: `WITH name AS (query)`
+     */
+    with(name: string, query: SubQuery, columns?: string[]): QueryBuilder {
+        this._with.push({ name, query, columns });
+        return this;
+    }
+
+    /**
+     * Define a recursive CTE: `WITH RECURSIVE name AS (initial UNION ALL recursive)`.
+     * The recursive member joins against `name` to walk one more step per iteration.
+     */
+    withRecursive(name: string, initial: SubQuery, recursive: SubQuery, columns?: string[]): QueryBuilder {
+        this._with.push({ name, query: initial, recursive, columns });
+        return this;
+    }
+
+    /**
+     * Set the table to select from, or a subquery selected from under `alias`
+     */
+    from(tableName: string): QueryBuilder;
+    from(subquery: SubQuery, alias: string): QueryBuilder;
+    from(source: string | SubQuery, alias?: string): QueryBuilder {
+        if (typeof source === 'string') {
+            this._from = source;
+        } else {
+            if (!alias) {
+                throw new Error('A subquery in FROM needs an alias');
+            }
+            this._from = { source, alias };
+        }
         return this;
     }
 
     /**
-     * Set the fields to select
+     * Set the fields to select; `raw()` fragments add expressions with bound parameters
      */
-    select(...fields: string[]): QueryBuilder {
+    select(...fields: Array<string | Raw>): QueryBuilder {
         this._select = fields.length > 0 ? fields : ['*'];
         return this;
     }
@@ -69,26 +240,58 @@ export class QueryBuilder {
     }
 
     /**
-     * Add WHERE conditions
+     * Add WHERE conditions, or a parenthesized group built by a callback
+     */
+    where(field: string, operator: WhereOperator, value?: any): QueryBuilder;
+    where(group: WhereGroupCallback): QueryBuilder;
+    where(fieldOrGroup: string | WhereGroupCallback, operator?: WhereOperator, value?: any): QueryBuilder {
+        this._where.push(this.clause('AND', false, fieldOrGroup, operator, value));
+        return this;
+    }
+
+    /**
+     * Add a condition (or group) joined with OR
+     */
+    orWhere(field: string, operator: WhereOperator, value?: any): QueryBuilder;
+    orWhere(group: WhereGroupCallback): QueryBuilder;
+    orWhere(fieldOrGroup: string | WhereGroupCallback, operator?: WhereOperator, value?: any): QueryBuilder {
+        this._where.push(this.clause('OR', false, fieldOrGroup, operator, value));
+        return this;
+    }
+
+    /**
+     * Add a negated condition (or group): `NOT (...)`
      */
-    where(field: string, operator: WhereOperator, value?: any): QueryBuilder {
-        this._where.push({ field, operator, value });
+    whereNot(field: string, operator: WhereOperator, value?: any): QueryBuilder;
+    whereNot(group: WhereGroupCallback): QueryBuilder;
+    whereNot(fieldOrGroup: string | WhereGroupCallback, operator?: WhereOperator, value?: any): QueryBuilder {
+        this._where.push(this.clause('AND', true, fieldOrGroup, operator, value));
         return this;
     }
 
     /**
-     * Add WHERE IN condition
+     * Add a negated condition (or group) joined with OR
      */
-    whereIn(field: string, values: any[]): QueryBuilder {
-        this._where.push({ field, operator: 'IN', values });
+    orWhereNot(field: string, operator: WhereOperator, value?: any): QueryBuilder;
+    orWhereNot(group: WhereGroupCallback): QueryBuilder;
+    orWhereNot(fieldOrGroup: string | WhereGroupCallback, operator?: WhereOperator, value?: any): QueryBuilder {
+        this._where.push(this.clause('OR', true, fieldOrGroup, operator, value));
         return this;
     }
 
     /**
-     * Add WHERE NOT IN condition
+     * Add WHERE IN condition, against a list of values or a subquery
      */
-    whereNotIn(field: string, values: any[]): QueryBuilder {
-        this._where.push({ field, operator: 'NOT IN', values });
+    whereIn(field: string, values: any[] | SubQuery): QueryBuilder {
+        this._where.push({ conjunction: 'AND', negate: false, condition: { field, operator: 'IN', values } });
+        return this;
+    }
+
+    /**
+     * Add WHERE NOT IN condition, against a list of values or a subquery
+     */
+    whereNotIn(field: string, values: any[] | SubQuery): QueryBuilder {
+        this._where.push({ conjunction: 'AND', negate: false, condition: { field, operator: 'NOT IN', values } });
         return this;
     }
 
@@ -96,7 +299,7 @@ export class QueryBuilder {
      * Add WHERE BETWEEN condition
      */
     whereBetween(field: string, min: any, max: any): QueryBuilder {
-        this._where.push({ field, operator: 'BETWEEN', values: [min, max] });
+        this._where.push({ conjunction: 'AND', negate: false, condition: { field, operator: 'BETWEEN', values: [min, max] } });
         return this;
     }
 
@@ -104,23 +307,53 @@ export class QueryBuilder {
      * Add WHERE NULL condition
      */
     whereNull(field: string): QueryBuilder {
-        this._where.push({ field, operator: 'IS NULL' });
-        return this;
+        return this.where(field, 'IS NULL');
     }
 
     /**
      * Add WHERE NOT NULL condition
      */
     whereNotNull(field: string): QueryBuilder {
-        this._where.push({ field, operator: 'IS NOT NULL' });
+        return this.where(field, 'IS NOT NULL');
+    }
+
+    /**
+     * Add WHERE LIKE condition, optionally with an escape character for literal `%` and `_`
+     */
+    whereLike(field: string, pattern: string, escape?: string): QueryBuilder {
+        this._where.push({ conjunction: 'AND', negate: false, condition: { field, operator: 'LIKE', value: pattern, escape } });
         return this;
     }
 
     /**
-     * Add WHERE LIKE condition
+     * Add WHERE EXISTS (subquery)
      */
-    whereLike(field: string, pattern: string): QueryBuilder {
-        this._where.push({ field, operator: 'LIKE', value: pattern });
+    whereExists(subquery: SubQuery): QueryBuilder {
+        this._where.push({ conjunction: 'AND', negate: false, exists: subquery });
+        return this;
+    }
+
+    /**
+     * Add WHERE NOT EXISTS (subquery)
+     */
+    whereNotExists(subquery: SubQuery): QueryBuilder {
+        this._where.push({ conjunction: 'AND', negate: true, exists: subquery });
+        return this;
+    }
+
+    /**
+     * Add a raw condition with its own parameters; it is parenthesized when built
+     */
+    whereRaw(sql: string | Raw, params: any[] = []): QueryBuilder {
+        this._where.push({ conjunction: 'AND', negate: false, raw: toRaw(sql, params) });
+        return this;
+    }
+
+    /**
+     * Add a raw condition joined with OR
+     */
+    orWhereRaw(sql: string | Raw, params: any[] = []): QueryBuilder {
+        this._where.push({ conjunction: 'OR', negate: false, raw: toRaw(sql, params) });
         return this;
     }
 
@@ -154,34 +387,135 @@ export class QueryBuilder {
     }
 
     /**
-     * Add ORDER BY
+     * Add ORDER BY, on a column or a `raw()` expression
      */
-    orderBy(field: string, direction: OrderDirection = 'ASC'): QueryBuilder {
-        this._orderBy.push({ field, direction });
+    orderBy(field: string | Raw, direction: OrderDirection = 'ASC'): QueryBuilder {
+        this._orderBy.push({ field, direction: toDirection(direction) });
         return this;
     }
 
     /**
      * Add GROUP BY
      */
-    groupBy(...fields: string[]): QueryBuilder {
+    groupBy(...fields: Array<string | Raw>): QueryBuilder {
         this._groupBy.push(...fields);
         return this;
     }
 
     /**
-     * Add HAVING conditions
+     * Add HAVING conditions, or a parenthesized group built by a callback
+     */
+    having(field: string, operator: WhereOperator, value?: any): QueryBuilder;
+    having(group: WhereGroupCallback): QueryBuilder;
+    having(fieldOrGroup: string | WhereGroupCallback, operator?: WhereOperator, value?: any): QueryBuilder {
+        this._having.push(this.clause('AND', false, fieldOrGroup, operator, value));
+        return this;
+    }
+
+    /**
+     * Add a HAVING condition (or group) joined with OR
+     */
+    orHaving(field: string, operator: WhereOperator, value?: any): QueryBuilder;
+    orHaving(group: WhereGroupCallback): QueryBuilder;
+    orHaving(fieldOrGroup: string | WhereGroupCallback, operator?: WhereOperator, value?: any): QueryBuilder {
+        this._having.push(this.clause('OR', false, fieldOrGroup, operator, value));
+        return this;
+    }
+
+    /**
+     * Add a raw HAVING condition with its own parameters
      */
-    having(field: string, operator: WhereOperator, value?: any): QueryBuilder {
-        this._having.push({ field, operator, value });
+    havingRaw(sql: string | Raw, params: any[] = []): QueryBuilder {
+        this._having.push({ conjunction: 'AND', negate: false, raw: toRaw(sql, params) });
         return this;
     }
 
+    /**
+     * Combine with other queries, removing duplicate rows: `... UNION SELECT ...`
+     */
+    union(...queries: SubQuery[]): QueryBuilder {
+        return this.compound('UNION', queries);
+    }
+
+    /**
+     * Combine with other queries, keeping every row: `... UNION ALL SELECT ...`
+     */
+    unionAll(...queries: SubQuery[]): QueryBuilder {
+        return this.compound('UNION ALL', queries);
+    }
+
+    /**
+     * Keep only rows also returned by the other queries
+     */
+    intersect(...queries: SubQuery[]): QueryBuilder {
+        return this.compound('INTERSECT', queries);
+    }
+
+    /**
+     * Remove rows returned by the other queries
+     */
+    except(...queries: SubQuery[]): QueryBuilder {
+        return this.compound('EXCEPT', queries);
+    }
+
+    /**
+     * Declare a named window: `WINDOW name AS (...)`, referenced by passing its name as `over`
+     */
+    window(name: string, spec: WindowSpec): QueryBuilder {
+        this._windows.push({ name, spec });
+        return this;
+    }
+
+    /**
+     * Select `ROW_NUMBER() OVER (...)`: 1, 2, 3, ... within each partition
+     */
+    rowNumber(alias: string, over: WindowSpec | string): QueryBuilder {
+        return this.windowColumn('ROW_NUMBER', [], [], over, alias);
+    }
+
+    /**
+     * Select `RANK() OVER (...)`: ties share a rank and leave gaps (1, 1, 3)
+     */
+    rank(alias: string, over: WindowSpec | string): QueryBuilder {
+        return this.windowColumn('RANK', [], [], over, alias);
+    }
+
+    /**
+     * Select `DENSE_RANK() OVER (...)`: ties share a rank without gaps (1, 1, 2)
+     */
+    denseRank(alias: string, over: WindowSpec | string): QueryBuilder {
+        return this.windowColumn('DENSE_RANK', [], [], over, alias);
+    }
+
+    /**
+     * Select the value of `field` from `offset` rows before the current row
+     */
+    lag(field: string, alias: string, over: WindowSpec | string, offset: number = 1, defaultValue?: any): QueryBuilder {
+        return this.offsetColumn('LAG', field, alias, over, offset, defaultValue);
+    }
+
+    /**
+     * Select the value of `field` from `offset` rows after the current row
+     */
+    lead(field: string, alias: string, over: WindowSpec | string, offset: number = 1, defaultValue?: any): QueryBuilder {
+        return this.offsetColumn('LEAD', field, alias, over, offset, defaultValue);
+    }
+
+    /**
+     * Select an aggregate over a window, e.g. a running sum or moving average with `frame`
+     */
+    windowAggregate(fn: WindowAggregate, field: string, alias: string, over: WindowSpec | string): QueryBuilder {
+        if (!['SUM', 'AVG', 'COUNT', 'MIN', 'MAX'].includes(fn)) {
+            throw new Error(`Unsupported window aggregate '${fn}'`);
+        }
+        return this.windowColumn(fn, [field === '*' ? '*' : this.column(field)], [], over, alias);
+    }
+
     /**
      * Set LIMIT
      */
     limit(count: number): QueryBuilder {
-        this._limit = count;
+        this._limit = toCount(count, 'LIMIT');
         return this;
     }
 
@@ -189,7 +523,7 @@ export class QueryBuilder {
      * Set OFFSET
      */
     offset(count: number): QueryBuilder {
-        this._offset = count;
+        this._offset = toCount(count, 'OFFSET');
         return this;
     }
 
@@ -197,8 +531,16 @@ export class QueryBuilder {
      * Set pagination (limit and offset)
      */
     paginate(page: number, perPage: number): QueryBuilder {
-        this._limit = perPage;
-        this._offset = (page - 1) * perPage;
+        this._limit = toCount(perPage, 'LIMIT');
+        this._offset = toCount((page - 1) * perPage, 'OFFSET');
+        return this;
+    }
+
+    /**
+     * Columns returned by UPDATE and DELETE (`RETURNING *` with no arguments)
+     */
+    returning(...fields: Array<string | Raw>): QueryBuilder {
+        this._returning = fields.length > 0 ? fields : ['*'];
         return this;
     }
 
@@ -207,68 +549,333 @@ export class QueryBuilder {
      */
     build(): { sql: string; params: any[] } {
         const params: any[] = [];
+        let sql = this.buildWith(params);
+
+        sql += this.buildSelect(params);
+
+        // UNION / INTERSECT / EXCEPT members
+        sql += this.buildCompounds(params);
+
+        // ORDER BY clause
+        if (this._orderBy.length > 0) {
+            const orderConditions = this._orderBy.map(order => `${this.expression(order.field, params)} ${order.direction}`);
+            sql += ` ORDER BY ${orderConditions.join(', ')}`;
+        }
+
+        // LIMIT clause
+        if (this._limit !== undefined) {
+            sql += ` LIMIT ${this._limit}`;
+        }
+
+        // OFFSET clause
+        if (this._offset !== undefined) {
+            sql += ` OFFSET ${this._offset}`;
+        }
+
+        return { sql, params };
+    }
+
+    /**
+     * SELECT through HAVING, without CTEs, compound members or ordering
+     */
+    private buildSelect(params: any[]): string {
         let sql = '';
 
-        // SELECT clause
+        // SELECT clause, followed by window function columns
         const distinct = this._distinct ? 'DISTINCT ' : '';
-        sql += `SELECT ${distinct}${this._select.join(', ')}`;
+        const columns = [
+            ...this._select.map(field => this.selectItem(field, params)),
+            ...this._windowColumns.map(column => this.buildWindowColumn(column, params))
+        ];
+        sql += `SELECT ${distinct}${columns.join(', ')}`;
 
         // FROM clause
         if (this._from) {
-            sql += ` FROM ${this._from}`;
+            sql += ` FROM ${this.buildFrom(params)}`;
         }
 
         // JOIN clauses
-        for (const join of this._joins) {
-            const tableAlias = join.alias ? `${join.table} AS ${join.alias}` : join.table;
-            sql += ` ${join.type} JOIN ${tableAlias} ON ${join.on}`;
-        }
+        sql += this.buildJoins();
 
         // WHERE clause
-        if (this._where.length > 0) {
-            const whereConditions = this._where.map(condition => {
-                return this.buildWhereCondition(condition, params);
-            });
-            sql += ` WHERE ${whereConditions.join(' AND ')}`;
-        }
+        sql += this.buildClauses('WHERE', this._where, params);
 
         // GROUP BY clause
         if (this._groupBy.length > 0) {
-            sql += ` GROUP BY ${this._groupBy.join(', ')}`;
+            sql += ` GROUP BY ${this._groupBy.map(field => this.expression(field, params)).join(', ')}`;
         }
 
         // HAVING clause
-        if (this._having.length > 0) {
-            const havingConditions = this._having.map(condition => {
-                return this.buildWhereCondition(condition, params);
-            });
-            sql += ` HAVING ${havingConditions.join(' AND ')}`;
+        sql += this.buildClauses('HAVING', this._having, params);
+
+        // WINDOW clause
+        if (this._windows.length > 0) {
+            sql += ` WINDOW ${this._windows.map(({ name, spec }) => `${quoteIdentifier(name)} AS (${this.buildWindowSpec(spec)})`).join(', ')}`;
         }
 
-        // ORDER BY clause
-        if (this._orderBy.length > 0) {
-            const orderConditions = this._orderBy.map(order => `${order.field} ${order.direction}`);
-            sql += ` ORDER BY ${orderConditions.join(', ')}`;
+        return sql;
+    }
+
+    /**
+     * `FN(args) OVER (...) AS "alias"`
+     */
+    private buildWindowColumn(column: WindowColumn, params: any[]): string {
+        params.push(...column.params);
+        const over = typeof column.over === 'string' ? quoteIdentifier(column.over) : `(${this.buildWindowSpec(column.over)})`;
+        return `${column.fn}(${column.args.join(', ')}) OVER ${over} AS ${quoteIdentifier(column.alias)}`;
+    }
+
+    /**
+     * Contents of `OVER (...)` / `WINDOW name AS (...)`
+     */
+    private buildWindowSpec(spec: WindowSpec): string {
+        const parts: string[] = [];
+
+        if (spec.window) {
+            parts.push(quoteIdentifier(spec.window));
         }
 
-        // LIMIT clause
-        if (this._limit !== undefined) {
-            sql += ` LIMIT ${this._limit}`;
+        const partitionBy = spec.partitionBy === undefined ? [] : ([] as string[]).concat(spec.partitionBy);
+        if (partitionBy.length > 0) {
+            parts.push(`PARTITION BY ${partitionBy.map(field => this.column(field)).join(', ')}`);
         }
 
-        // OFFSET clause
-        if (this._offset !== undefined) {
-            sql += ` OFFSET ${this._offset}`;
+        const orderBy: Array<[string, string]> = typeof spec.orderBy === 'string' || Array.isArray(spec.orderBy)
+            ? ([] as string[]).concat(spec.orderBy).map(field => [field, 'ASC'])
+            : Object.entries(spec.orderBy ?? {});
+        if (orderBy.length > 0) {
+            parts.push(`ORDER BY ${orderBy.map(([field, direction]) => `${this.column(field)} ${toDirection(direction)}`).join(', ')}`);
         }
 
-        return { sql, params };
+        if (spec.frame) {
+            const { unit = 'ROWS', preceding, following } = spec.frame;
+            if (!['ROWS', 'RANGE', 'GROUPS'].includes(unit)) {
+                throw new Error(`Invalid window frame unit '${unit}'. Use 'ROWS', 'RANGE' or 'GROUPS'.`);
+            }
+            parts.push(`${unit} BETWEEN ${frameBound(preceding, 'PRECEDING')} AND ${frameBound(following, 'FOLLOWING')}`);
+        }
+
+        return parts.join(' ');
+    }
+
+    /**
+     * Add a window function column
+     */
+    private windowColumn(fn: string, args: string[], params: any[], over: WindowSpec | string, alias: string): QueryBuilder {
+        this._windowColumns.push({ fn, args, params, over, alias });
+        return this;
+    }
+
+    /**
+     * LAG/LEAD: `FN(field, offset[, default])`
+     */
+    private offsetColumn(fn: 'LAG' | 'LEAD', field: string, alias: string, over: WindowSpec | string, offset: number, defaultValue: any): QueryBuilder {
+        const args = [this.column(field), String(toCount(offset, fn))];
+        const params: any[] = [];
+        if (defaultValue !== undefined) {
+            args.push('?');
+            params.push(defaultValue);
+        }
+        return this.windowColumn(fn, args, params, over, alias);
+    }
+
+    /**
+     * ` UNION ALL SELECT ...` for each compound member. SQLite does not allow ORDER BY,
+     * LIMIT or WITH on a member, so members using them are selected from as a subquery.
+     */
+    private buildCompounds(params: any[]): string {
+        return this._compounds.map(({ operator, query }) => {
+            if (query instanceof Raw) {
+                return ` ${operator} ${this.embed(query, params)}`;
+            }
+            const standalone = query._orderBy.length > 0 || query._limit !== undefined || query._offset !== undefined
+                || query._with.length > 0 || query._compounds.length > 0;
+            return ` ${operator} ${standalone ? `SELECT * FROM ${this.embed(query, params)}` : this.inline(query, params)}`;
+        }).join('');
+    }
+
+    /**
+     * Append compound members joined by `operator`
+     */
+    private compound(operator: CompoundOperator, queries: SubQuery[]): QueryBuilder {
+        this._compounds.push(...queries.map(query => ({ operator, query })));
+        return this;
+    }
+
+    /**
+     * Quote a selected column (`name`, `users.*`, `users.name AS author`); expressions pass through
+     */
+    private selectItem(item: string | Raw, params: any[]): string {
+        if (item instanceof Raw) {
+            return this.embed(item, params);
+        }
+        if (item === '*') {
+            return item;
+        }
+        const aliased = item.match(/^(.+?)\s+AS\s+([A-Za-z_][A-Za-z0-9_$]*)$/i);
+        const [column, alias] = aliased ? [aliased[1], aliased[2]] : [item, undefined];
+        if (!isIdentifier(column)) {
+            return item;
+        }
+        return alias ? `${this.column(column)} AS ${quoteIdentifier(alias)}` : this.column(column);
+    }
+
+    /**
+     * A quoted column, translated by the mapColumns() mapper when it is unqualified
+     */
+    private column(name: string): string {
+        return quoteIdentifier(this._columns && !name.includes('.') ? this._columns(name) : name);
+    }
+
+    /**
+     * ` RETURNING ...` suffix of UPDATE and DELETE (empty unless requested)
+     */
+    private buildReturning(params: any[]): string {
+        if (this._returning.length === 0) {
+            return '';
+        }
+        return ` RETURNING ${this._returning.map(field => this.selectItem(field, params)).join(', ')}`;
+    }
+
+    /**
+     * `WITH [RECURSIVE] ... ` prefix (empty without CTEs)
+     */
+    private buildWith(params: any[]): string {
+        if (this._with.length === 0) {
+            return '';
+        }
+
+        const recursive = this._with.some(cte => cte.recursive) ? 'RECURSIVE ' : '';
+        const definitions = this._with.map(cte => {
+            const columns = cte.columns ? `(${cte.columns.map(column => quoteIdentifier(column)).join(', ')})` : '';
+            const body = cte.recursive
+                ? `(${this.inline(cte.query, params)} UNION ALL ${this.inline(cte.recursive, params)})`
+                : this.parenthesized(cte.query, params);
+            return `${quoteIdentifier(cte.name)}${columns} AS ${body}`;
+        });
+
+        return `WITH ${recursive}${definitions.join(', ')} `;
+    }
+
+    /**
+     * FROM source: a quoted table name, or `(subquery) AS "alias"`
+     */
+    private buildFrom(params: any[]): string {
+        if (typeof this._from === 'string') {
+            return quoteIdentifier(this._from);
+        }
+        return `${this.embed(this._from.source, params)} AS ${quoteIdentifier(this._from.alias)}`;
+    }
+
+    /**
+     * The table targeted by UPDATE and DELETE, which cannot be a subquery or compound query
+     */
+    private targetTable(statement: 'UPDATE' | 'DELETE'): string {
+        if (typeof this._from !== 'string') {
+            throw new Error(`Cannot build ${statement} from a subquery`);
+        }
+        if (this._compounds.length > 0) {
+            throw new Error(`Cannot build ${statement} from a compound query`);
+        }
+        return quoteIdentifier(this._from);
+    }
+
+    /**
+     * A quoted column, or a raw expression whose params are appended
+     */
+    private expression(field: string | Raw, params: any[]): string {
+        return field instanceof Raw ? this.embed(field, params) : this.column(field);
+    }
+
+    /**
+     * Render a subquery as `(...)` or a raw fragment as written, appending its params
+     */
+    private embed(source: SubQuery, params: any[]): string {
+        if (source instanceof Raw) {
+            params.push(...source.params);
+            return source.sql;
+        }
+        const built = source.build();
+        params.push(...built.params);
+        return `(${built.sql})`;
+    }
+
+    /**
+     * JOIN clauses; `on` is SQL written by the caller
+     */
+    private buildJoins(): string {
+        return this._joins.map(join => {
+            const tableAlias = join.alias ? `${quoteIdentifier(join.table)} AS ${quoteIdentifier(join.alias)}` : quoteIdentifier(join.table);
+            return ` ${join.type} JOIN ${tableAlias} ON ${join.on}`;
+        }).join('');
+    }
+
+    /**
+     * Create a clause for a condition or a callback-built group
+     */
+    private clause(
+        conjunction: WhereConjunction,
+        negate: boolean,
+        fieldOrGroup: string | WhereGroupCallback,
+        operator?: WhereOperator,
+        value?: any
+    ): WhereClause {
+        if (typeof fieldOrGroup === 'function') {
+            const group = new QueryBuilder();
+            fieldOrGroup(group);
+            // Groups inside having() may be written with either where() or having()
+            return { conjunction, negate, group: [...group._where, ...group._having] };
+        }
+        return { conjunction, negate, condition: { field: fieldOrGroup, operator: operator!, value } };
+    }
+
+    /**
+     * Render ` WHERE ...` / ` HAVING ...` (empty when there are no clauses), appending params in order
+     */
+    private buildClauses(keyword: 'WHERE' | 'HAVING', clauses: WhereClause[], params: any[]): string {
+        const sql = this.buildClauseList(clauses, params, keyword === 'HAVING');
+        return sql ? ` ${keyword} ${sql}` : '';
+    }
+
+    /**
+     * Join clauses with their conjunctions; AND binds tighter than OR, as in SQL
+     */
+    private buildClauseList(clauses: WhereClause[], params: any[], allowExpressions: boolean = false): string {
+        const parts: string[] = [];
+
+        for (const clause of clauses) {
+            let sql: string;
+            if (clause.group) {
+                const inner = this.buildClauseList(clause.group, params, allowExpressions);
+                if (!inner) {
+                    continue; // Empty groups are ignored
+                }
+                sql = `(${inner})`;
+            } else if (clause.exists) {
+                sql = `EXISTS ${this.parenthesized(clause.exists, params)}`;
+            } else if (clause.raw) {
+                sql = `(${this.embed(clause.raw, params)})`;
+            } else {
+                sql = this.buildWhereCondition(clause.condition!, params, allowExpressions);
+            }
+
+            if (clause.negate) {
+                sql = clause.group || clause.exists || clause.raw ? `NOT ${sql}` : `NOT (${sql})`;
+            }
+
+            parts.push(parts.length === 0 ? sql : `${clause.conjunction} ${sql}`);
+        }
+
+        return parts.join(' ');
     }
 
     /**
      * Build WHERE condition string
      */
-    private buildWhereCondition(condition: WhereCondition, params: any[]): string {
-        const { field, operator, value, values } = condition;
+    private buildWhereCondition(condition: WhereCondition, params: any[], allowExpressions: boolean = false): string {
+        const { operator, value, values, escape } = condition;
+        // HAVING may compare aggregates such as COUNT(*)
+        const field = allowExpressions && !isIdentifier(condition.field) ? condition.field : this.column(condition.field);
 
         switch (operator) {
             case 'IS NULL':
@@ -277,26 +884,58 @@ export class QueryBuilder {
 
             case 'IN':
             case 'NOT IN':
+                if (values instanceof QueryBuilder || values instanceof Raw) {
+                    return `${field} ${operator} ${this.parenthesized(values, params)}`;
+                }
                 if (values && values.length > 0) {
                     const placeholders = values.map(() => '?').join(', ');
                     params.push(...values);
                     return `${field} ${operator} (${placeholders})`;
                 }
-                return '1=0'; // No values provided, return false condition
+                // No values: IN matches nothing, NOT IN matches everything
+                return operator === 'IN' ? '1=0' : '1=1';
 
             case 'BETWEEN':
-                if (values && values.length === 2) {
+                if (Array.isArray(values) && values.length === 2) {
                     params.push(values[0], values[1]);
                     return `${field} ${operator} ? AND ?`;
                 }
                 return '1=0'; // Invalid BETWEEN values
 
+            case 'LIKE':
+            case 'NOT LIKE':
+                params.push(value);
+                return escape ? `${field} ${operator} ? ESCAPE '${escape.replace(/'/g, "''")}'` : `${field} ${operator} ?`;
+
             default:
+                if (value instanceof QueryBuilder || value instanceof Raw) {
+                    return `${field} ${operator} ${this.embed(value, params)}`;
+                }
                 params.push(value);
                 return `${field} ${operator} ?`;
         }
     }
 
+    /**
+     * A subquery or raw fragment without parentheses, as members of a compound SELECT require
+     */
+    private inline(source: SubQuery, params: any[]): string {
+        if (source instanceof Raw) {
+            return this.embed(source, params);
+        }
+        const built = source.build();
+        params.push(...built.params);
+        return built.sql;
+    }
+
+    /**
+     * A subquery or raw fragment in parentheses, as IN and EXISTS require
+     */
+    private parenthesized(source: SubQuery, params: any[]): string {
+        const sql = this.embed(source, params);
+        return source instanceof Raw ? `(${sql})` : sql;
+    }
+
     /**
      * Create a new QueryBuilder instance
      */
@@ -319,6 +958,12 @@ export class QueryBuilder {
         cloned._limit = this._limit;
         cloned._offset = this._offset;
         cloned._distinct = this._distinct;
+        cloned._with = [...this._with];
+        cloned._compounds = [...this._compounds];
+        cloned._windowColumns = [...this._windowColumns];
+        cloned._windows = [...this._windows];
+        cloned._returning = [...this._returning];
+        cloned._columns = this._columns;
         return cloned;
     }
 
@@ -327,34 +972,29 @@ export class QueryBuilder {
      */
     buildCount(): { sql: string; params: any[] } {
         const params: any[] = [];
-        let sql = `SELECT COUNT(*) as count FROM ${this._from}`;
+        const withClause = this.buildWith(params);
 
-        // JOIN clauses
-        for (const join of this._joins) {
-            const tableAlias = join.alias ? `${join.table} AS ${join.alias}` : join.table;
-            sql += ` ${join.type} JOIN ${tableAlias} ON ${join.on}`;
+        // Compound queries are counted as a whole
+        if (this._compounds.length > 0) {
+            const compound = `${this.buildSelect(params)}${this.buildCompounds(params)}`;
+            return { sql: `${withClause}SELECT COUNT(*) as count FROM (${compound}) AS "__compound"`, params };
         }
 
+        let sql = `${withClause}SELECT COUNT(*) as count FROM ${this.buildFrom(params)}`;
+
+        // JOIN clauses
+        sql += this.buildJoins();
+
         // WHERE clause
-        if (this._where.length > 0) {
-            const whereConditions = this._where.map(condition => {
-                return this.buildWhereCondition(condition, params);
-            });
-            sql += ` WHERE ${whereConditions.join(' AND ')}`;
-        }
+        sql += this.buildClauses('WHERE', this._where, params);
 
         // GROUP BY clause
         if (this._groupBy.length > 0) {
-            sql += ` GROUP BY ${this._groupBy.join(', ')}`;
+            sql += ` GROUP BY ${this._groupBy.map(field => this.expression(field, params)).join(', ')}`;
         }
 
         // HAVING clause
-        if (this._having.length > 0) {
-            const havingConditions = this._having.map(condition => {
-                return this.buildWhereCondition(condition, params);
-            });
-            sql += ` HAVING ${havingConditions.join(' AND ')}`;
-        }
+        sql += this.buildClauses('HAVING', this._having, params);
 
         return { sql, params };
     }
@@ -364,11 +1004,12 @@ export class QueryBuilder {
      */
     buildUpdate(data: Record<string, any>): { sql: string; params: any[] } {
         const params: any[] = [];
+        const withClause = this.buildWith(params);
         const setClause: string[] = [];
 
         for (const [key, value] of Object.entries(data)) {
             if (value !== undefined) {
-                setClause.push(`${key} = ?`);
+                setClause.push(`${this.column(key)} = ?`);
                 params.push(value);
             }
         }
@@ -377,15 +1018,11 @@ export class QueryBuilder {
             throw new Error('No fields to update');
         }
 
-        let sql = `UPDATE ${this._from} SET ${setClause.join(', ')}`;
+        let sql = `${withClause}UPDATE ${this.targetTable('UPDATE')} SET ${setClause.join(', ')}`;
 
         // WHERE clause
-        if (this._where.length > 0) {
-            const whereConditions = this._where.map(condition => {
-                return this.buildWhereCondition(condition, params);
-            });
-            sql += ` WHERE ${whereConditions.join(' AND ')}`;
-        }
+        sql += this.buildClauses('WHERE', this._where, params);
+        sql += this.buildReturning(params);
 
         return { sql, params };
     }
@@ -395,16 +1032,45 @@ export class QueryBuilder {
      */
     buildDelete(): { sql: string; params: any[] } {
         const params: any[] = [];
-        let sql = `DELETE FROM ${this._from}`;
+        let sql = `${this.buildWith(params)}DELETE FROM ${this.targetTable('DELETE')}`;
 
         // WHERE clause
-        if (this._where.length > 0) {
-            const whereConditions = this._where.map(condition => {
-                return this.buildWhereCondition(condition, params);
-            });
-            sql += ` WHERE ${whereConditions.join(' AND ')}`;
-        }
+        sql += this.buildClauses('WHERE', this._where, params);
+        sql += this.buildReturning(params);
 
         return { sql, params };
     }
 }
+
+function toDirection(direction: string): OrderDirection {
+    const normalized = String(direction).toUpperCase();
+    if (normalized !== 'ASC' && normalized !== 'DESC') {
+        throw new Error(`Invalid sort direction '${direction}'. Use 'ASC' or 'DESC'.`);
+    }
+    return normalized;
+}
+
+/**
+ * `UNBOUNDED PRECEDING`, `2 PRECEDING` or `CURRENT ROW`
+ */
+function frameBound(bound: number | 'unbounded' | undefined, side: 'PRECEDING' | 'FOLLOWING'): string {
+    if (bound === undefined) {
+        return 'CURRENT ROW';
+    }
+    return bound === 'unbounded' ? `UNBOUNDED ${side}` : `${toCount(bound, side)} ${side}`;
+}
+
+function toRaw(sql: string | Raw, params: any[]): Raw {
+    return sql instanceof Raw ? sql : new Raw(sql, params);
+}
+
+/**
+ * LIMIT/OFFSET, frame bounds and LAG/LEAD offsets are inlined, so only non-negative integers are accepted
+ */
+function toCount(count: number, clause: string): number {
+    const value = Number(count);
+    if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`${clause} must be a non-negative integer, got '${count}'`);
+    }
+    return value;
+}
@@ -0,0 +1,128 @@
+/**
+ * Relationship definitions, include parsing for eager loading and nested writes
+ *
+ * Relationships are declared through D1ORM (`orm.hasMany('User', 'Post')`) and
+ * loaded with `findAll({ include: [...] })`. Each include runs one batched
+ * `IN (...)` query per relationship level, never one query per row.
+ *
+ * `create` and `update` accept nested writes keyed by relationship name
+ * (`{ posts: { create: [...] } }`); the parent and related statements are
+ * sent as one atomic batch.
+ */
+
+import type { CrudOperations } from './advanced/CrudOperations.js';
+import type { WhereInput } from './filters.js';
+
+export type RelationshipType = 'hasOne' | 'hasMany' | 'belongsTo' | 'belongsToMany';
+
+export interface Relationship {
+    type: RelationshipType;
+    name: string; // Property the related rows are attached to
+    target: CrudOperations<any>;
+    foreignKey: string; // Field holding the reference: on the target (hasOne/hasMany), the source (belongsTo) or the join table column (belongsToMany)
+    sourceKey: string; // Referenced field on the source (hasOne/hasMany/belongsToMany)
+    targetKey: string; // Referenced field on the target (belongsTo/belongsToMany)
+    through?: string; // Join table (belongsToMany)
+    otherKey?: string; // Join table column referencing the target (belongsToMany)
+}
+
+export interface RelationshipOptions {
+    as?: string;
+    foreignKey?: string;
+    sourceKey?: string;
+    targetKey?: string;
+}
+
+export interface BelongsToManyOptions extends RelationshipOptions {
+    through: string;
+    otherKey?: string;
+}
+
+export interface IncludeOptions {
+    where?: WhereInput;
+    orderBy?: string | Record<string, 'ASC' | 'DESC'> | Array<{ field: string; direction: 'ASC' | 'DESC' }>;
+    limit?: number; // Per parent row
+    select?: string[];
+    include?: Include;
+}
+
+/**
+ * `['posts', 'posts.comments']` or `{ posts: { orderBy: { id: 'DESC' }, limit: 5, include: ['comments'] } }`
+ */
+export type Include = string[] | Record<string, boolean | IncludeOptions>;
+
+/**
+ * Selects related rows for connect/disconnect/set, e.g. `{ id: 5 }` or `{ email: 'a@example.com' }`
+ */
+export type RelationSelector = Record<string, any>;
+
+export interface NestedWrite {
+    create?: Record<string, any> | Record<string, any>[];
+    connect?: RelationSelector | RelationSelector[];
+    disconnect?: true | RelationSelector | RelationSelector[]; // `true` clears a belongsTo/hasOne
+    set?: RelationSelector[]; // Replace every related row (hasMany/belongsToMany)
+}
+
+/**
+ * Relationship names mapped to nested writes, accepted next to column data by `create` and `update`
+ */
+export type NestedWrites = { [relation: string]: unknown };
+
+const NESTED_WRITE_OPERATIONS: ReadonlyArray<keyof NestedWrite> = ['create', 'connect', 'disconnect', 'set'];
+
+/**
+ * Operations each relationship type accepts
+ */
+export const NESTED_WRITE_SUPPORT: Record<RelationshipType, ReadonlyArray<keyof NestedWrite>> = {
+    belongsTo: ['create', 'connect', 'disconnect'],
+    hasOne: ['create', 'connect', 'disconnect'],
+    hasMany: NESTED_WRITE_OPERATIONS,
+    belongsToMany: NESTED_WRITE_OPERATIONS
+};
+
+/**
+ * `{ create: ... }`, `{ connect: ..., disconnect: ... }`, etc.
+ */
+export function isNestedWrite(value: unknown): value is NestedWrite {
+    if (!value || typeof value !== 'object' || Array.isArray(value) || Object.getPrototypeOf(value) !== Object.prototype) {
+        return false;
+    }
+    const keys = Object.keys(value);
+    return keys.length > 0 && keys.every(key => (NESTED_WRITE_OPERATIONS as string[]).includes(key));
+}
+
+/**
+ * Group include paths by their first segment; dotted paths become nested includes
+ */
+export function normalizeInclude(include: Include): Map<string, IncludeOptions & { include?: Record<string, boolean | IncludeOptions> }> {
+    const entries: Array<[string, IncludeOptions]> = Array.isArray(include)
+        ? include.map(path => [path, {}])
+        : Object.entries(include)
+            .filter(([, spec]) => spec)
+            .map(([path, spec]) => [path, spec === true ? {} : spec as IncludeOptions]);
+
+    const tree = new Map<string, IncludeOptions & { include?: Record<string, boolean | IncludeOptions> }>();
+
+    for (const [path, spec] of entries) {
+        const [name, ...rest] = path.split('.');
+        const node = tree.get(name) ?? {};
+
+        if (rest.length === 0) {
+            const nested = { ...node.include, ...toRecord(spec.include) };
+            Object.assign(node, spec, { include: nested });
+        } else {
+            node.include = { ...node.include, [rest.join('.')]: spec };
+        }
+
+        tree.set(name, node);
+    }
+
+    return tree;
+}
+
+function toRecord(include?: Include): Record<string, boolean | IncludeOptions> {
+    if (!include) {
+        return {};
+    }
+    return Array.isArray(include) ? Object.fromEntries(include.map(path => [path, true])) : include;
+}
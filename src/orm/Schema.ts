@@ -3,19 +3,44 @@
  * Similar to Mongoose/Sequelize schema definitions
  */
 
+import {
+    MessageTemplate,
+    RecordValidator,
+    ValidationContext,
+    ValidationMessages,
+    ValidationResult,
+    ValidatorResult,
+    createIssue,
+    resolveMessages,
+    validateFields
+} from './validation.js';
+import { ValidationIssue, ValidationRule } from '../errors.js';
+import { KeyGenerator } from './keys.js';
+import { DateStorage } from './codecs.js';
+import { FieldType, FieldTypeName, dateStorageOf, getFieldType } from './fieldTypes.js';
+import { NamingStrategy, applyNaming, timestampProperty } from './naming.js';
+import { quoteIdentifier } from '../utils/sql.js';
+
 export interface FieldDefinition {
-    type: 'string' | 'number' | 'boolean' | 'date' | 'text' | 'json';
+    type: FieldTypeName; // A built-in or registered type (see fieldTypes.ts)
+    column?: string; // Column the field is stored in (defaults to the naming strategy's choice)
     required?: boolean;
     unique?: boolean;
     primaryKey?: boolean;
     autoIncrement?: boolean;
+    generate?: KeyGenerator; // Key assigned by create when none is given (see keys.ts)
     default?: any;
+    storage?: DateStorage; // Date fields: 'iso' text, 'unix' seconds or 'unixMs' (defaults to SchemaOptions.dateStorage)
     maxLength?: number;
     minLength?: number;
     min?: number;
     max?: number;
-    enum?: string[] | number[];
+    enum?: readonly string[] | readonly number[];
     validate?: (value: any) => boolean | string;
+    validateAsync?: (value: any, context: ValidationContext) => ValidatorResult | Promise<ValidatorResult>;
+    checkUnique?: boolean; // Look for an existing row with this value before writing
+    exists?: { table: string; field?: string }; // Value must match a row in another table (field defaults to 'id')
+    messages?: Partial<Record<ValidationRule, MessageTemplate>>; // Per-rule message templates for this field
     index?: boolean;
     references?: {
         table: string;
@@ -34,17 +59,35 @@ export interface SchemaOptions {
     timestamps?: boolean;
     softDeletes?: boolean;
     paranoid?: boolean;
-    indexes?: Array<{
-        fields: string[];
+    strict?: boolean; // Reject queries and writes naming columns the schema does not declare
+    naming?: NamingStrategy; // How property names map to column names (see naming.ts, default 'preserve')
+    createdAt?: string; // Property names of the timestamp and soft delete fields
+    updatedAt?: string; // (default created_at, ... with 'preserve' naming, createdAt, ... otherwise)
+    deletedAt?: string;
+    dateStorage?: DateStorage; // How date fields are stored unless they set `storage` (default 'iso')
+    locale?: string; // Validation message locale (see defineLocale)
+    messages?: ValidationMessages; // Per-rule message templates for every field
+    validators?: readonly RecordValidator[]; // Cross-field checks, run after the field rules pass
+    indexes?: ReadonlyArray<{
+        fields: readonly string[];
         unique?: boolean;
         name?: string;
     }>;
 }
 
+export type TimestampField = 'createdAt' | 'updatedAt' | 'deletedAt';
+
+const CURRENT_TIME: Record<DateStorage, string> = {
+    iso: 'CURRENT_TIMESTAMP',
+    unix: "(CAST(strftime('%s', 'now') AS INTEGER))",
+    unixMs: "(CAST((julianday('now') - 2440587.5) * 86400000 AS INTEGER))"
+};
+
 export class Schema {
     public fields: SchemaDefinition;
     public options: SchemaOptions;
     public tableName: string;
+    private properties = new Map<string, string>(); // Column name -> property name
 
     constructor(definition: SchemaDefinition, options: SchemaOptions = {}) {
         this.fields = definition;
@@ -55,121 +98,162 @@ export class Schema {
             ...options
         };
 
-        // Add timestamp fields if enabled
+        // Add timestamp fields if enabled; a field declared under the same name adjusts them (e.g. its column or storage)
+        const declared = (name: string): Partial<FieldDefinition> | undefined => this.fields[name];
         if (this.options.timestamps) {
-            this.fields.created_at = {
-                type: 'date',
-                required: true,
-                default: () => new Date()
-            };
-            this.fields.updated_at = {
-                type: 'date',
-                required: true,
-                default: () => new Date()
-            };
+            for (const kind of ['createdAt', 'updatedAt'] as const) {
+                const name = this.timestampField(kind);
+                this.fields[name] = {
+                    type: 'date',
+                    required: true,
+                    default: () => new Date(),
+                    ...declared(name)
+                };
+            }
         }
 
         // Add soft delete field if enabled
         if (this.options.softDeletes) {
-            this.fields.deleted_at = {
+            const name = this.timestampField('deletedAt');
+            this.fields[name] = {
                 type: 'date',
                 required: false,
-                default: null
+                default: null,
+                ...declared(name)
             };
         }
 
         this.tableName = options.tableName || '';
+
+        for (const [name, field] of Object.entries(this.fields)) {
+            this.typeOf(name, field).check?.(field, this.options);
+
+            const column = this.columnName(name);
+            if (this.properties.has(column)) {
+                throw new Error(`Fields '${this.properties.get(column)}' and '${name}' are both stored in column '${column}'`);
+            }
+            this.properties.set(column, name);
+        }
     }
 
     /**
-     * Validate data against schema
+     * Property name of the createdAt/updatedAt timestamp or the soft delete field
      */
-    validate(data: Record<string, any>): { isValid: boolean; errors: string[] } {
-        const errors: string[] = [];
-
-        for (const [fieldName, fieldDef] of Object.entries(this.fields)) {
-            const value = data[fieldName];
+    timestampField(kind: TimestampField): string {
+        return this.options[kind] ?? timestampProperty(kind, this.options.naming);
+    }
 
-            // Check required fields (skip auto-increment fields during creation)
-            if (fieldDef.required && !fieldDef.autoIncrement && (value === undefined || value === null)) {
-                errors.push(`Field '${fieldName}' is required`);
-                continue;
-            }
+    /**
+     * Column a property is stored in. Names the schema does not declare are taken as columns.
+     */
+    columnName(name: string): string {
+        if (!Object.prototype.hasOwnProperty.call(this.fields, name)) {
+            return name;
+        }
+        return this.fields[name].column ?? applyNaming(name, this.options.naming);
+    }
 
-            // Skip validation if value is undefined/null and not required
-            if (value === undefined || value === null) {
-                continue;
-            }
+    /**
+     * Property a column is read into; the inverse of columnName
+     */
+    propertyName(column: string): string {
+        return this.properties.get(column) ?? column;
+    }
 
-            // Type validation
-            if (!this.validateType(value, fieldDef.type)) {
-                errors.push(`Field '${fieldName}' must be of type ${fieldDef.type}`);
-                continue;
-            }
+    /**
+     * Primary key columns: the fields declared with `primaryKey`, or the implicit `id`
+     */
+    get primaryKey(): string[] {
+        const declared = Object.keys(this.fields).filter(name => this.fields[name].primaryKey);
+        return declared.length > 0 ? declared : ['id'];
+    }
 
-            // String length validation
-            if (fieldDef.type === 'string' && typeof value === 'string') {
-                if (fieldDef.maxLength && value.length > fieldDef.maxLength) {
-                    errors.push(`Field '${fieldName}' exceeds maximum length of ${fieldDef.maxLength}`);
-                }
-                if (fieldDef.minLength && value.length < fieldDef.minLength) {
-                    errors.push(`Field '${fieldName}' is below minimum length of ${fieldDef.minLength}`);
-                }
-            }
+    /**
+     * The primary key field SQLite uses as the rowid: a single key declared INTEGER, or the implicit `id`
+     */
+    get rowIdField(): string | undefined {
+        const [name, ...rest] = this.primaryKey;
+        const field = this.fields[name];
+        if (rest.length > 0 || (field && this.getSQLType(name, field) !== 'INTEGER')) {
+            return undefined;
+        }
+        return name;
+    }
 
-            // Number range validation
-            if (fieldDef.type === 'number' && typeof value === 'number') {
-                if (fieldDef.max && value > fieldDef.max) {
-                    errors.push(`Field '${fieldName}' exceeds maximum value of ${fieldDef.max}`);
-                }
-                if (fieldDef.min && value < fieldDef.min) {
-                    errors.push(`Field '${fieldName}' is below minimum value of ${fieldDef.min}`);
-                }
-            }
+    /**
+     * Whether `name` is a column of this table (declared fields, timestamps, soft delete and the primary key)
+     */
+    hasColumn(name: string): boolean {
+        return this.primaryKey.includes(name) || Object.prototype.hasOwnProperty.call(this.fields, name);
+    }
 
-            // Enum validation
-            if (fieldDef.enum && fieldDef.enum.length > 0) {
-                const enumValues = fieldDef.enum as (string | number)[];
-                if (!enumValues.includes(value)) {
-                    errors.push(`Field '${fieldName}' must be one of: ${enumValues.join(', ')}`);
-                }
-            }
+    /**
+     * Stored form of a value written to (or compared with) column `name`
+     */
+    encode(name: string, value: any): any {
+        const field = this.fields[name];
+        if (value === null || value === undefined || !field) {
+            return value;
+        }
+        const encode = this.typeOf(name, field).encode;
+        return encode ? encode(value, field, this.options) : value;
+    }
 
-            // Custom validation
-            if (fieldDef.validate) {
-                const validationResult = fieldDef.validate(value);
-                if (validationResult !== true) {
-                    errors.push(typeof validationResult === 'string' ? validationResult : `Field '${fieldName}' is invalid`);
-                }
-            }
+    /**
+     * JavaScript value of column `name` as read from the database
+     */
+    decode(name: string, value: any): any {
+        const field = this.fields[name];
+        if (value === null || value === undefined || !field) {
+            return value;
         }
+        const decode = this.typeOf(name, field).decode;
+        return decode ? decode(value, field, this.options) : value;
+    }
 
-        return {
-            isValid: errors.length === 0,
-            errors
-        };
+    /**
+     * Encode every column of a row about to be written
+     */
+    encodeRow(data: Record<string, any>): Record<string, any> {
+        const encoded: Record<string, any> = {};
+        for (const [name, value] of Object.entries(data)) {
+            encoded[name] = this.encode(name, value);
+        }
+        return encoded;
     }
 
     /**
-     * Validate data type
+     * Key the columns of a returned row by property and decode them; columns the schema
+     * does not declare are kept as they are
      */
-    private validateType(value: any, type: string): boolean {
-        switch (type) {
-            case 'string':
-                return typeof value === 'string';
-            case 'number':
-                return typeof value === 'number' && !isNaN(value);
-            case 'boolean':
-                return typeof value === 'boolean';
-            case 'date':
-                return value instanceof Date || typeof value === 'string';
-            case 'text':
-                return typeof value === 'string';
-            case 'json':
-                return true; // Any value can be JSON
-            default:
-                return true;
+    decodeRow<R extends Record<string, any>>(row: R): R {
+        const decoded: Record<string, any> = {};
+        for (const [column, value] of Object.entries(row)) {
+            const name = this.propertyName(column);
+            decoded[name] = this.decode(name, value);
         }
+        return decoded as R;
+    }
+
+    /**
+     * Validate data against schema
+     */
+    validate(data: Record<string, any>, options: { partial?: boolean; locale?: string } = {}): ValidationResult {
+        return validateFields(this.fields, data, {
+            locale: options.locale ?? this.options.locale,
+            messages: this.options.messages,
+            partial: options.partial
+        });
+    }
+
+    /**
+     * Build an issue for a rule checked outside validate(), using the same message templates
+     */
+    createIssue(field: string, rule: ValidationRule, value: any, params: Record<string, any> = {}, message?: MessageTemplate): ValidationIssue {
+        const template = message
+            ?? this.fields[field]?.messages?.[rule]
+            ?? resolveMessages({ locale: this.options.locale, messages: this.options.messages })[rule];
+        return createIssue({ field, rule, value, params }, template);
     }
 
     /**
@@ -177,11 +261,17 @@ export class Schema {
      */
     generateCreateTableSQL(): string {
         const columns: string[] = [];
+        const compositeKey = this.primaryKey.length > 1;
+
+        // Schemas that declare no key use the implicit integer `id`
+        if (!Object.values(this.fields).some(field => field.primaryKey) && !Object.prototype.hasOwnProperty.call(this.fields, 'id')) {
+            columns.push(`${quoteIdentifier('id')} INTEGER PRIMARY KEY AUTOINCREMENT`);
+        }
 
         for (const [fieldName, fieldDef] of Object.entries(this.fields)) {
-            let columnDef = `${fieldName} ${this.getSQLType(fieldDef)}`;
+            let columnDef = `${quoteIdentifier(this.columnName(fieldName))} ${this.getSQLType(fieldName, fieldDef)}`;
 
-            if (fieldDef.primaryKey) {
+            if (fieldDef.primaryKey && !compositeKey) {
                 columnDef += ' PRIMARY KEY';
             }
 
@@ -189,7 +279,7 @@ export class Schema {
                 columnDef += ' AUTOINCREMENT';
             }
 
-            if (fieldDef.required && !fieldDef.primaryKey) {
+            if (fieldDef.required && (!fieldDef.primaryKey || compositeKey)) {
                 columnDef += ' NOT NULL';
             }
 
@@ -199,15 +289,15 @@ export class Schema {
 
             if (fieldDef.default !== undefined) {
                 if (typeof fieldDef.default === 'string') {
-                    columnDef += ` DEFAULT '${fieldDef.default}'`;
+                    columnDef += ` DEFAULT '${fieldDef.default.replace(/'/g, "''")}'`;
                 } else if (typeof fieldDef.default === 'number' || typeof fieldDef.default === 'boolean') {
                     columnDef += ` DEFAULT ${fieldDef.default}`;
                 } else if (fieldDef.default === null) {
                     columnDef += ' DEFAULT NULL';
                 } else if (typeof fieldDef.default === 'function') {
-                    // For date fields with function defaults, use CURRENT_TIMESTAMP
+                    // For date fields with function defaults, use the current time in the field's storage format
                     if (fieldDef.type === 'date') {
-                        columnDef += ' DEFAULT CURRENT_TIMESTAMP';
+                        columnDef += ` DEFAULT ${CURRENT_TIME[dateStorageOf(fieldDef, this.options)]}`;
                     }
                 }
             }
@@ -215,38 +305,40 @@ export class Schema {
             columns.push(columnDef);
         }
 
+        if (compositeKey) {
+            columns.push(`PRIMARY KEY (${this.primaryKey.map(name => quoteIdentifier(this.columnName(name))).join(', ')})`);
+        }
+
         // Add foreign key constraints
         for (const [fieldName, fieldDef] of Object.entries(this.fields)) {
             if (fieldDef.references) {
                 const onDelete = fieldDef.references.onDelete ? ` ON DELETE ${fieldDef.references.onDelete}` : '';
                 const onUpdate = fieldDef.references.onUpdate ? ` ON UPDATE ${fieldDef.references.onUpdate}` : '';
-                columns.push(`FOREIGN KEY (${fieldName}) REFERENCES ${fieldDef.references.table}(${fieldDef.references.field})${onDelete}${onUpdate}`);
+                const { table, field } = fieldDef.references;
+                columns.push(`FOREIGN KEY (${quoteIdentifier(this.columnName(fieldName))}) REFERENCES ${quoteIdentifier(table)}(${quoteIdentifier(field)})${onDelete}${onUpdate}`);
             }
         }
 
-        return `CREATE TABLE ${this.tableName} (\n  ${columns.join(',\n  ')}\n)`;
+        return `CREATE TABLE ${quoteIdentifier(this.tableName)} (\n  ${columns.join(',\n  ')}\n)`;
     }
 
     /**
-     * Convert field type to SQL type
+     * Registered type of a field
      */
-    private getSQLType(fieldDef: FieldDefinition): string {
-        switch (fieldDef.type) {
-            case 'string':
-                return fieldDef.maxLength ? `VARCHAR(${fieldDef.maxLength})` : 'TEXT';
-            case 'number':
-                return 'INTEGER';
-            case 'boolean':
-                return 'BOOLEAN';
-            case 'date':
-                return 'DATETIME';
-            case 'text':
-                return 'TEXT';
-            case 'json':
-                return 'TEXT'; // SQLite doesn't have native JSON, store as TEXT
-            default:
-                return 'TEXT';
+    private typeOf(name: string, field: FieldDefinition): FieldType {
+        const type = getFieldType(field.type);
+        if (!type) {
+            throw new Error(`Unknown type '${field.type}' for field '${name}'. Register it with registerFieldType() first.`);
         }
+        return type;
+    }
+
+    /**
+     * Column type declared in CREATE TABLE
+     */
+    private getSQLType(name: string, fieldDef: FieldDefinition): string {
+        const { sqlType } = this.typeOf(name, fieldDef);
+        return typeof sqlType === 'function' ? sqlType(fieldDef, this.options) : sqlType;
     }
 
     /**
@@ -258,16 +350,18 @@ export class Schema {
         // Single field indexes
         for (const [fieldName, fieldDef] of Object.entries(this.fields)) {
             if (fieldDef.index && !fieldDef.primaryKey && !fieldDef.unique) {
-                indexes.push(`CREATE INDEX idx_${this.tableName}_${fieldName} ON ${this.tableName}(${fieldName})`);
+                const indexName = quoteIdentifier(`idx_${this.tableName}_${fieldName}`);
+                indexes.push(`CREATE INDEX ${indexName} ON ${quoteIdentifier(this.tableName)}(${quoteIdentifier(this.columnName(fieldName))})`);
             }
         }
 
         // Composite indexes
         if (this.options.indexes) {
             for (const index of this.options.indexes) {
-                const indexName = index.name || `idx_${this.tableName}_${index.fields.join('_')}`;
+                const indexName = quoteIdentifier(index.name || `idx_${this.tableName}_${index.fields.join('_')}`);
                 const unique = index.unique ? 'UNIQUE ' : '';
-                indexes.push(`CREATE ${unique}INDEX ${indexName} ON ${this.tableName}(${index.fields.join(', ')})`);
+                const fields = index.fields.map(field => quoteIdentifier(this.columnName(field))).join(', ');
+                indexes.push(`CREATE ${unique}INDEX ${indexName} ON ${quoteIdentifier(this.tableName)}(${fields})`);
             }
         }
 
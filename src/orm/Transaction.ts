@@ -0,0 +1,320 @@
+/**
+ * Transactions for D1 ORM
+ *
+ * D1 has no interactive BEGIN/COMMIT, but a batch runs atomically.
+ * A Transaction collects every write issued through it and sends them
+ * as one batch on commit: either all statements apply or none do.
+ *
+ * Semantics inside the callback:
+ * - Writes are deferred. `create` returns the record with a pending primary key
+ *   (a TransactionRef), `update`/`delete` report no affected rows yet.
+ * - Reads run immediately against committed data and do not see pending writes.
+ * - Rows returned by a queued `... RETURNING` statement are available on its
+ *   TransactionRef after commit; tracked records are refreshed from them.
+ * - A TransactionRef passed as a parameter to a later statement is compiled to a
+ *   SQL expression for the row id, so dependent inserts can reference earlier ones:
+ *   a lookup by the primary key or UNIQUE value the row was written with, else
+ *   `last_insert_rowid()` right after a single-row insert, else a rowid offset that
+ *   is only accepted while every statement in between provably keeps it correct.
+ *   Refs are replaced by real ids after commit.
+ */
+
+import { DatabaseService } from '../classes/DatabaseService.js';
+import { D1DatabaseManager } from '../classes/D1DatabaseManager.js';
+import { MigrationManager } from '../classes/MigrationManager.js';
+import { ConfigManager } from '../classes/ConfigManager.js';
+import { D1Statement, QueryOptions, QueryResult } from '../types/database.js';
+import { toD1ORMError } from '../errors.js';
+import { isReadOnlyStatement, isSingleRowInsert, quoteIdentifier, replacePlaceholders, writeTarget } from '../utils/sql.js';
+
+/**
+ * How later statements in the same batch find a row a queued statement writes
+ */
+export interface RowLocator {
+    table: string;
+    key: Record<string, any>; // Stored values of primary key or UNIQUE columns, keyed by column
+    idColumn?: string; // Column of returned rows holding the row id (an INTEGER PRIMARY KEY)
+}
+
+export interface EnqueueOptions {
+    locator?: RowLocator; // The row the statement inserts, when it can be found by key
+    generatedKey?: boolean; // The statement inserts one row and leaves its row id to SQLite
+}
+
+/**
+ * Placeholder for the row id produced by a statement queued in a transaction
+ */
+export class TransactionRef {
+    public value?: number;
+    public rows?: Record<string, any>[]; // Rows returned by the statement (RETURNING), once committed
+
+    constructor(
+        public readonly transaction: Transaction,
+        public readonly statementIndex: number,
+        public readonly locator?: RowLocator
+    ) { }
+
+    get resolved(): boolean {
+        return this.value !== undefined;
+    }
+
+    toJSON(): number | string {
+        return this.value ?? `<pending insert #${this.statementIndex}>`;
+    }
+}
+
+export class Transaction extends DatabaseService {
+    private parent: DatabaseService;
+    private statements: Array<D1Statement & EnqueueOptions> = [];
+    private refs: TransactionRef[] = [];
+    private pendingRecords: Array<{ record: Record<string, any>; ref?: TransactionRef; decode: (row: Record<string, any>) => Record<string, any> }> = [];
+    private commitCallbacks: Array<() => Promise<void> | void> = [];
+    private committed: boolean = false;
+
+    constructor(parent: DatabaseService) {
+        super();
+        this.parent = parent;
+    }
+
+    /**
+     * Queue a write; returns a reference to the row id it will produce
+     */
+    enqueue(sql: string, params: any[] = [], options: EnqueueOptions = {}): TransactionRef {
+        if (this.committed) {
+            throw new Error('Transaction has already been committed');
+        }
+
+        const ref = new TransactionRef(this, this.statements.length, options.locator);
+        this.statements.push({ sql, params, ...options });
+        this.refs.push(ref);
+        return ref;
+    }
+
+    /**
+     * Reference to one of the rows a queued multi-row statement writes, found by its key
+     */
+    rowRef(statement: TransactionRef, locator: RowLocator): TransactionRef {
+        const ref = new TransactionRef(this, statement.statementIndex, locator);
+        this.refs.push(ref);
+        return ref;
+    }
+
+    /**
+     * Reference to the most recently queued statement (like last_insert_rowid())
+     */
+    lastInsertId(): TransactionRef {
+        const index = this.statements.length - 1;
+        const ref = this.refs.find(candidate => candidate.statementIndex === index);
+        if (!ref) {
+            throw new Error('No statements have been queued in this transaction');
+        }
+        return ref;
+    }
+
+    /**
+     * Track a record whose TransactionRef values should be replaced after commit.
+     * With `ref`, the record is overwritten by the first row its statement returned, passed through `decode`.
+     */
+    track(record: Record<string, any>, ref?: TransactionRef, decode: (row: Record<string, any>) => Record<string, any> = row => row): void {
+        this.pendingRecords.push({ record, ref, decode });
+    }
+
+    /**
+     * Run a callback once the batch has been applied (e.g. after* hooks)
+     */
+    afterCommit(callback: () => Promise<void> | void): void {
+        this.commitCallbacks.push(callback);
+    }
+
+    /**
+     * Number of queued statements
+     */
+    get size(): number {
+        return this.statements.length;
+    }
+
+    /**
+     * Send all queued statements as one atomic batch
+     */
+    async commit(options: QueryOptions = {}): Promise<QueryResult[]> {
+        if (this.committed) {
+            throw new Error('Transaction has already been committed');
+        }
+        this.committed = true;
+
+        if (this.statements.length === 0) {
+            return [];
+        }
+
+        const compiled = this.statements.map((_, index) => this.compile(index));
+        const results = await this.parent.batch(compiled, options);
+
+        const failedIndex = results.findIndex(result => !result.success);
+        if (failedIndex !== -1) {
+            const failed = results[failedIndex];
+            throw toD1ORMError(failed.error || 'Transaction rolled back: a statement failed', {
+                code: failed.errorCode,
+                sql: compiled[failedIndex].sql,
+                params: compiled[failedIndex].params
+            });
+        }
+
+        for (const ref of this.refs) {
+            const result = results[ref.statementIndex];
+            ref.rows = result?.results;
+
+            // Refs to one row of a multi-row statement take the id of the returned row with their key
+            const locator = ref.locator;
+            const row = locator?.idColumn ? ref.rows?.find(candidate => matchesKey(candidate, locator.key)) : undefined;
+            ref.value = row ? row[locator!.idColumn!] : result?.meta.last_row_id;
+        }
+
+        for (const { record, ref, decode } of this.pendingRecords) {
+            for (const [key, value] of Object.entries(record)) {
+                if (value instanceof TransactionRef) {
+                    record[key] = value.value;
+                }
+            }
+            if (ref?.rows?.[0]) {
+                Object.assign(record, decode(ref.rows[0]));
+            }
+        }
+
+        for (const callback of this.commitCallbacks) {
+            await callback();
+        }
+
+        return results;
+    }
+
+    /**
+     * Discard all queued statements
+     */
+    rollback(): void {
+        this.statements = [];
+        this.refs = [];
+        this.pendingRecords = [];
+        this.commitCallbacks = [];
+        this.committed = true;
+    }
+
+    /**
+     * Reads run immediately; writes are queued until commit
+     */
+    public async query<T = any>(sql: string, params: any[] = [], options: QueryOptions = {}): Promise<QueryResult<T>> {
+        if (isReadOnlyStatement(sql)) {
+            return this.parent.query<T>(sql, params, options);
+        }
+
+        this.enqueue(sql, params);
+        return { results: [], success: true, meta: {} };
+    }
+
+    /**
+     * Batches issued inside a transaction join it
+     */
+    public async batch(statements: D1Statement[], _options: QueryOptions = {}): Promise<QueryResult[]> {
+        return statements.map(stmt => {
+            this.enqueue(stmt.sql, stmt.params || []);
+            return { results: [], success: true, meta: {} };
+        });
+    }
+
+    public async initialize(): Promise<void> {
+        // The parent service is already initialized
+    }
+
+    public getDbManager(): D1DatabaseManager {
+        return this.parent.getDbManager();
+    }
+
+    public getMigrationManager(): MigrationManager {
+        return this.parent.getMigrationManager();
+    }
+
+    public getConfigManager(): ConfigManager {
+        return this.parent.getConfigManager();
+    }
+
+    /**
+     * Inline TransactionRef parameters as SQL expressions
+     */
+    private compile(index: number): D1Statement {
+        const statement = this.statements[index];
+        const source = statement.params || [];
+        const params: any[] = [];
+
+        const sql = replacePlaceholders(statement.sql, position => {
+            const value = source[position];
+            if (value instanceof TransactionRef) {
+                const expression = this.refExpression(value, index);
+                params.push(...expression.params);
+                return expression.sql;
+            }
+            params.push(value);
+            return '?';
+        });
+
+        return { sql, params };
+    }
+
+    /**
+     * SQL expression that evaluates to the row id produced by `ref`,
+     * as seen from the statement at `index` within the same batch
+     */
+    private refExpression(ref: TransactionRef, index: number): D1Statement & { params: any[] } {
+        if (ref.transaction !== this) {
+            throw new Error('TransactionRef belongs to a different transaction');
+        }
+        if (ref.statementIndex >= index) {
+            throw new Error('A statement can only reference inserts queued before it');
+        }
+
+        // A row written with a primary key or UNIQUE value is found by it, wherever it was queued
+        if (ref.locator) {
+            const columns = Object.keys(ref.locator.key);
+            return {
+                sql: `(SELECT rowid FROM ${quoteIdentifier(ref.locator.table)} WHERE ${columns.map(column => `${quoteIdentifier(column)} = ?`).join(' AND ')})`,
+                params: columns.map(column => ref.locator!.key[column])
+            };
+        }
+
+        const source = this.statements[ref.statementIndex];
+        const table = writeTarget(source.sql);
+        if (table?.operation !== 'INSERT' || !isSingleRowInsert(source.sql)) {
+            throw new Error(`Statement #${ref.statementIndex} is not a single-row INSERT and cannot be referenced`);
+        }
+        if (ref.statementIndex === index - 1) {
+            return { sql: 'last_insert_rowid()', params: [] };
+        }
+
+        // Batches run serially and SQLite gives new rows the next rowid, so the row is found by
+        // counting the rows inserted into its table after it. That holds only while no statement
+        // in between removes rows, changes rowids or inserts a row with an id of its own.
+        let laterInserts = 0;
+        for (let i = ref.statementIndex + 1; i < index; i++) {
+            const { sql, generatedKey } = this.statements[i];
+            const target = writeTarget(sql);
+            const sameTable = target?.table === table.table;
+
+            if (target?.operation === 'INSERT' && sameTable && generatedKey && isSingleRowInsert(sql)) {
+                laterInserts++;
+            } else if (!target || target.operation === 'DELETE' || target.operation === 'REPLACE' || sameTable) {
+                throw new Error(
+                    `Cannot reference the row inserted by statement #${ref.statementIndex} from statement #${index}: ` +
+                    `statement #${i} in between may change which row it is. Give the row a primary key or unique value, ` +
+                    'or reference it directly after its insert.'
+                );
+            }
+        }
+
+        return { sql: `(SELECT rowid FROM ${quoteIdentifier(table.table)} ORDER BY rowid DESC LIMIT 1 OFFSET ${laterInserts})`, params: [] };
+    }
+}
+
+/**
+ * Whether a returned row holds the stored key values of a RowLocator
+ */
+function matchesKey(row: Record<string, any>, key: Record<string, any>): boolean {
+    return Object.entries(key).every(([column, value]) => row[column] === value || String(row[column]) === String(value));
+}
@@ -4,19 +4,38 @@
  */
 
 import { UpsertOperations } from './UpsertOperations.js';
-import { AggregateOperations } from './AggregateOperations.js';
+import { AggregateOperations, TopNOptions, WindowOptions } from './AggregateOperations.js';
 import { DebugOperations } from './DebugOperations.js';
+import { BulkOperations, BulkResult } from './BulkOperations.js';
+import { UpsertOptions } from './UpsertOperations.js';
+import { ModelHooks } from './BaseModel.js';
+import { QueryOptions } from '../../types/database.js';
+import { quoteIdentifier } from '../../utils/sql.js';
+import { raw } from '../QueryBuilder.js';
+import { D1ORMError } from '../../errors.js';
 
 // Export interfaces for external use
-export { ModelHooks, FindOptions, PaginatedResult } from './BaseModel.js';
-export { AggregateOptions, AggregateResult } from './AggregateOperations.js';
+export { ModelHooks, FindOptions, PaginatedResult, PrimaryKeyValue } from './BaseModel.js';
+export { AggregateOptions, AggregateResult, TopNOptions, WindowOptions } from './AggregateOperations.js';
 export { BulkResult } from './BulkOperations.js';
+export { UpsertOptions, UpsertResult, UpsertUpdate } from './UpsertOperations.js';
+
+/**
+ * Options for walking an adjacency-list hierarchy (rows pointing at their parent)
+ */
+export interface HierarchyOptions extends QueryOptions {
+    parentField?: string; // Column referencing the parent row, defaults to 'parent_id'
+    maxDepth?: number; // Levels to walk; also stops cycles (default 100)
+    includeSelf?: boolean; // Include the starting row at depth 0
+}
+
+const MAX_HIERARCHY_DEPTH = 100;
 
 /**
  * AdvancedModel with multiple inheritance using mixins
  * This class provides the complete ORM functionality
  */
-export class AdvancedModel<T extends Record<string, any> = any> extends UpsertOperations<T> {
+export class AdvancedModel<T extends Record<string, any> = any, C extends Record<string, any> = Partial<T>, U extends Record<string, any> = Partial<T>> extends UpsertOperations<T, C, U> {
     // Aggregate operations
     async sum(field: keyof T, options: any = {}): Promise<number> {
         const aggregateOps = new AggregateOperations<T>(this.db, this.schema, this.tableName);
@@ -80,29 +99,50 @@ export class AdvancedModel<T extends Record<string, any> = any> extends UpsertOp
         return aggregateOps.stats(field, options);
     }
 
+    async topNPerGroup(field: keyof T, n: number, options: TopNOptions): Promise<Array<T & { rank: number }>> {
+        const aggregateOps = new AggregateOperations<T>(this.db, this.schema, this.tableName);
+        return aggregateOps.topNPerGroup(field, n, options);
+    }
+
+    async runningTotal(field: keyof T, options: WindowOptions = {}): Promise<Array<T & { running_total: number }>> {
+        const aggregateOps = new AggregateOperations<T>(this.db, this.schema, this.tableName);
+        return aggregateOps.runningTotal(field, options);
+    }
+
+    async movingAverage(field: keyof T, size: number, options: WindowOptions = {}): Promise<Array<T & { moving_average: number }>> {
+        const aggregateOps = new AggregateOperations<T>(this.db, this.schema, this.tableName);
+        return aggregateOps.movingAverage(field, size, options);
+    }
+
     // Count operations with flexible syntax
-    async count(options: { where?: Record<string, any> }): Promise<number>;
-    async count(where?: Record<string, any>): Promise<number>;
-    async count(optionsOrWhere?: { where?: Record<string, any> } | Record<string, any>): Promise<number> {
+    async count(options: { where?: Record<string, any>; timeout?: number; signal?: AbortSignal }): Promise<number>;
+    async count(where?: Record<string, any>, options?: QueryOptions): Promise<number>;
+    async count(
+        optionsOrWhere?: { where?: Record<string, any>; timeout?: number; signal?: AbortSignal } | Record<string, any>,
+        options: QueryOptions = {}
+    ): Promise<number> {
         // Handle both syntaxes: count({ where: {...} }) and count({...})
-        const where = optionsOrWhere && 'where' in optionsOrWhere
-            ? optionsOrWhere.where || {}
-            : optionsOrWhere || {};
+        if (optionsOrWhere && 'where' in optionsOrWhere) {
+            return super.count(optionsOrWhere.where || {}, this.queryOptions(optionsOrWhere));
+        }
 
         // Use the inherited count method from CrudOperations
-        return super.count(where);
+        return super.count(optionsOrWhere || {}, options);
     }
 
     // Bulk operations
-    async bulkCreate(records: Partial<T>[], options: any = {}): Promise<any> {
+    async bulkCreate(records: C[], options: any = {}): Promise<any> {
         const createdRecords: T[] = [];
 
-        for (const record of records) {
+        for (const [index, record] of records.entries()) {
             try {
                 const created = await this.create(record);
                 createdRecords.push(created);
             } catch (error) {
                 if (!options.continueOnError) {
+                    if (error instanceof D1ORMError) {
+                        error.recordIndex = index;
+                    }
                     throw error;
                 }
                 console.error('Failed to create record:', error);
@@ -112,8 +152,20 @@ export class AdvancedModel<T extends Record<string, any> = any> extends UpsertOp
         return createdRecords;
     }
 
+    async bulkUpsert(
+        records: C[] | Array<{ data: C & U; uniqueFields: (keyof C & keyof T)[] }>,
+        options: Partial<UpsertOptions> & { continueOnError?: boolean; chunkSize?: number } = {}
+    ): Promise<BulkResult> {
+        const bulkOps = new BulkOperations<T, C, U>(this.db, this.schema, this.tableName);
+        // afterCreate/afterUpdate fire for each upserted row
+        for (const [event, handler] of Object.entries(this.hooks)) {
+            bulkOps.addHook(event as keyof ModelHooks<T>, handler);
+        }
+        return bulkOps.bulkUpsert(records as C[], options as UpsertOptions);
+    }
+
     async truncate(): Promise<void> {
-        await this.executeQuery(`DELETE FROM ${this.tableName}`);
+        await this.executeQuery(`DELETE FROM ${quoteIdentifier(this.tableName)}`);
     }
 
     // Soft delete operations
@@ -122,7 +174,7 @@ export class AdvancedModel<T extends Record<string, any> = any> extends UpsertOp
             throw new Error('Soft deletes not enabled for this model');
         }
 
-        const updateResult = await this.update({ deleted_at: new Date() } as unknown as Partial<T>, where);
+        const updateResult = await this.update({ [this.schema.timestampField('deletedAt')]: new Date() } as unknown as U, where);
         return updateResult.meta.changes || 0;
     }
 
@@ -131,14 +183,88 @@ export class AdvancedModel<T extends Record<string, any> = any> extends UpsertOp
             throw new Error('Soft deletes not enabled for this model');
         }
 
-        const updateResult = await this.update({ deleted_at: null } as unknown as Partial<T>, where);
+        const updateResult = await this.update({ [this.schema.timestampField('deletedAt')]: null } as unknown as U, where);
         return updateResult.meta.changes || 0;
     }
 
+    // Hierarchy operations
+
+    /**
+     * Every row below `id` (children, grandchildren, ...), nearest first, with its `depth`
+     */
+    async findDescendants(id: number | string, options: HierarchyOptions = {}): Promise<Array<T & { depth: number }>> {
+        return this.findHierarchy('descendants', id, options);
+    }
+
+    /**
+     * Every row above `id` (parent, grandparent, ...), nearest first, with its `depth`
+     */
+    async findAncestors(id: number | string, options: HierarchyOptions = {}): Promise<Array<T & { depth: number }>> {
+        return this.findHierarchy('ancestors', id, options);
+    }
+
+    /**
+     * Walk the hierarchy with a recursive CTE: the starting row at depth 0, then one
+     * join per level against the rows found so far
+     */
+    protected async findHierarchy(
+        direction: 'descendants' | 'ancestors',
+        id: number | string,
+        options: HierarchyOptions
+    ): Promise<Array<T & { depth: number }>> {
+        const { parentField = 'parent_id', maxDepth = MAX_HIERARCHY_DEPTH, includeSelf = false } = options;
+        const tree = '__hierarchy';
+        const table = quoteIdentifier(this.tableName);
+        const parent = this.column(parentField);
+        const [key, ...composite] = this.schema.primaryKey;
+        if (composite.length > 0) {
+            throw new Error(`Hierarchy queries need a single-column primary key on '${this.tableName}'`);
+        }
+        const keyColumn = this.column(key);
+
+        // Descendants point at a row found so far; ancestors are pointed at by one
+        const link = direction === 'descendants'
+            ? `${table}.${parent} = ${quoteIdentifier(tree)}.${keyColumn}`
+            : `${table}.${keyColumn} = ${quoteIdentifier(tree)}.${parent}`;
+
+        const initial = this.query()
+            .select(`${this.tableName}.*`, raw('0 AS __depth'))
+            .where(key, '=', this.schema.encode(key, id));
+        const recursive = this.query()
+            .select(`${this.tableName}.*`, raw(`${quoteIdentifier(tree)}.__depth + 1`))
+            .innerJoin(tree, link)
+            .where(`${tree}.__depth`, '<', maxDepth);
+
+        const query = this.query()
+            .from(tree)
+            .withRecursive(tree, initial, recursive)
+            .orderBy('__depth');
+        if (!includeSelf) {
+            query.where('__depth', '>', 0);
+        }
+        if (this.schema.options.softDeletes && !this.schema.options.paranoid) {
+            query.whereNull(this.schema.timestampField('deletedAt'));
+        }
+
+        if (this.hooks.beforeFind) {
+            await this.hooks.beforeFind(query);
+        }
+
+        const { sql, params } = query.build();
+        const result = await this.executeQuery<T & { __depth: number }>(sql, params, this.queryOptions(options));
+        const records = this.decodeRows(result.results).map(({ __depth, ...row }) => ({ ...row, depth: __depth }) as unknown as T & { depth: number });
+
+        if (this.hooks.afterFind) {
+            await this.hooks.afterFind(records);
+        }
+
+        return records;
+    }
+
     // Debug operations
-    public debugInsertData(data: Partial<T>): any {
+    public debugInsertData(data: C): any {
         const debugOps = new DebugOperations<T>(this.db, this.schema, this.tableName);
-        return debugOps.debugInsertData(data);
+        return debugOps.debugInsertData(data as Partial<T>);
     }
 
     public async analyzeTable(): Promise<any> {
@@ -4,11 +4,28 @@
  */
 
 import { BaseModel } from './BaseModel.js';
+import { OrderDirection, WindowSpec } from '../QueryBuilder.js';
+import { quoteIdentifier } from '../../utils/sql.js';
 
 export interface AggregateOptions {
     where?: Record<string, any>;
     groupBy?: string[];
     having?: Record<string, any>;
+    timeout?: number; // Per-call timeout in milliseconds
+    signal?: AbortSignal; // Cancel the query from the caller
+}
+
+/**
+ * Rows the analytic helpers compute over: each partition is ordered by `orderBy`
+ */
+export interface WindowOptions extends AggregateOptions {
+    partitionBy?: string | string[];
+    orderBy?: string | Record<string, OrderDirection>; // Defaults to the primary key
+}
+
+export interface TopNOptions extends AggregateOptions {
+    partitionBy: string | string[];
+    orderBy?: OrderDirection; // Direction the field is ranked in, defaults to 'DESC' (highest first)
 }
 
 export interface AggregateResult {
@@ -32,7 +49,7 @@ export class AggregateOperations<T extends Record<string, any> = any> extends Ba
         }
 
         const { sql, params } = query.buildCount();
-        const result = await this.executeQuery<{ count: number }>(sql, params);
+        const result = await this.executeQuery<{ count: number }>(sql, params, this.queryOptions(options));
         return result.results[0]?.count || 0;
     }
 
@@ -40,14 +57,14 @@ export class AggregateOperations<T extends Record<string, any> = any> extends Ba
      * Sum values of a numeric field
      */
     async sum(field: keyof T, options: AggregateOptions = {}): Promise<number> {
-        const query = this.query().select(`SUM(${String(field)}) as sum`);
+        const query = this.query().select(`SUM(${this.column(String(field))}) as sum`);
 
         if (options.where) {
             this.addWhereConditions(query, options.where);
         }
 
         const { sql, params } = query.build();
-        const result = await this.executeQuery<{ sum: number }>(sql, params);
+        const result = await this.executeQuery<{ sum: number }>(sql, params, this.queryOptions(options));
         return result.results[0]?.sum || 0;
     }
 
@@ -55,14 +72,14 @@ export class AggregateOperations<T extends Record<string, any> = any> extends Ba
      * Calculate average of a numeric field
      */
     async avg(field: keyof T, options: AggregateOptions = {}): Promise<number> {
-        const query = this.query().select(`AVG(${String(field)}) as avg`);
+        const query = this.query().select(`AVG(${this.column(String(field))}) as avg`);
 
         if (options.where) {
             this.addWhereConditions(query, options.where);
         }
 
         const { sql, params } = query.build();
-        const result = await this.executeQuery<{ avg: number }>(sql, params);
+        const result = await this.executeQuery<{ avg: number }>(sql, params, this.queryOptions(options));
         return result.results[0]?.avg || 0;
     }
 
@@ -70,30 +87,30 @@ export class AggregateOperations<T extends Record<string, any> = any> extends Ba
      * Find minimum value of a field
      */
     async min(field: keyof T, options: AggregateOptions = {}): Promise<number | string | Date | null> {
-        const query = this.query().select(`MIN(${String(field)}) as min`);
+        const query = this.query().select(`MIN(${this.column(String(field))}) as min`);
 
         if (options.where) {
             this.addWhereConditions(query, options.where);
         }
 
         const { sql, params } = query.build();
-        const result = await this.executeQuery<{ min: number | string | Date }>(sql, params);
-        return result.results[0]?.min || null;
+        const result = await this.executeQuery<{ min: number | string | Date }>(sql, params, this.queryOptions(options));
+        return this.schema.decode(String(field), result.results[0]?.min ?? null);
     }
 
     /**
      * Find maximum value of a field
      */
     async max(field: keyof T, options: AggregateOptions = {}): Promise<number | string | Date | null> {
-        const query = this.query().select(`MAX(${String(field)}) as max`);
+        const query = this.query().select(`MAX(${this.column(String(field))}) as max`);
 
         if (options.where) {
             this.addWhereConditions(query, options.where);
         }
 
         const { sql, params } = query.build();
-        const result = await this.executeQuery<{ max: number | string | Date }>(sql, params);
-        return result.results[0]?.max || null;
+        const result = await this.executeQuery<{ max: number | string | Date }>(sql, params, this.queryOptions(options));
+        return this.schema.decode(String(field), result.results[0]?.max ?? null);
     }
 
     /**
@@ -114,25 +131,25 @@ export class AggregateOperations<T extends Record<string, any> = any> extends Ba
 
         if (operations.sum) {
             for (const field of operations.sum) {
-                selectParts.push(`SUM(${String(field)}) as sum_${String(field)}`);
+                selectParts.push(`SUM(${this.column(String(field))}) as ${quoteIdentifier(`sum_${String(field)}`)}`);
             }
         }
 
         if (operations.avg) {
             for (const field of operations.avg) {
-                selectParts.push(`AVG(${String(field)}) as avg_${String(field)}`);
+                selectParts.push(`AVG(${this.column(String(field))}) as ${quoteIdentifier(`avg_${String(field)}`)}`);
             }
         }
 
         if (operations.min) {
             for (const field of operations.min) {
-                selectParts.push(`MIN(${String(field)}) as min_${String(field)}`);
+                selectParts.push(`MIN(${this.column(String(field))}) as ${quoteIdentifier(`min_${String(field)}`)}`);
             }
         }
 
         if (operations.max) {
             for (const field of operations.max) {
-                selectParts.push(`MAX(${String(field)}) as max_${String(field)}`);
+                selectParts.push(`MAX(${this.column(String(field))}) as ${quoteIdentifier(`max_${String(field)}`)}`);
             }
         }
 
@@ -140,31 +157,38 @@ export class AggregateOperations<T extends Record<string, any> = any> extends Ba
             throw new Error('At least one aggregate operation must be specified');
         }
 
-        const query = this.query().select(...selectParts);
+        // Grouped fields are selected alongside the aggregates
+        const groupFields = options.groupBy ?? [];
+        this.assertColumns(groupFields);
+        const query = this.query().select(...groupFields, ...selectParts);
 
         if (options.where) {
             this.addWhereConditions(query, options.where);
         }
 
-        if (options.groupBy) {
-            for (const field of options.groupBy) {
-                query.groupBy(field);
-                // Add group by fields to select
-                if (!selectParts.some(part => part.includes(field))) {
-                    query.select(field);
-                }
-            }
+        if (groupFields.length > 0) {
+            query.groupBy(...groupFields);
         }
 
         const { sql, params } = query.build();
-        const result = await this.executeQuery<any>(sql, params);
+        const result = await this.executeQuery<any>(sql, params, this.queryOptions(options));
+
+        // Grouped columns and MIN/MAX values are decoded like the fields they come from
+        const rows = this.decodeRows(result.results).map(row => {
+            for (const [prefix, fields] of [['min', operations.min], ['max', operations.max]] as const) {
+                for (const field of fields ?? []) {
+                    row[`${prefix}_${String(field)}`] = this.schema.decode(String(field), row[`${prefix}_${String(field)}`]);
+                }
+            }
+            return row;
+        });
 
         if (options.groupBy) {
             // Return array of results for grouped data
-            return result.results as AggregateResult[];
+            return rows as AggregateResult[];
         } else {
             // Return single result object
-            return result.results[0] || {} as AggregateResult;
+            return rows[0] || {} as AggregateResult;
         }
     }
 
@@ -173,6 +197,7 @@ export class AggregateOperations<T extends Record<string, any> = any> extends Ba
      */
     async groupBy(fields: (keyof T)[], options: AggregateOptions = {}): Promise<Array<Record<string, any> & { count: number }>> {
         const fieldStrings = fields.map(f => String(f));
+        this.assertColumns(fieldStrings);
         const query = this.query()
             .select(...fieldStrings, 'COUNT(*) as count')
             .groupBy(...fieldStrings);
@@ -182,37 +207,37 @@ export class AggregateOperations<T extends Record<string, any> = any> extends Ba
         }
 
         const { sql, params } = query.build();
-        const result = await this.executeQuery<Record<string, any> & { count: number }>(sql, params);
-        return result.results;
+        const result = await this.executeQuery<Record<string, any> & { count: number }>(sql, params, this.queryOptions(options));
+        return this.decodeRows(result.results);
     }
 
     /**
      * Get distinct values for a field
      */
     async distinct(field: keyof T, options: AggregateOptions = {}): Promise<any[]> {
-        const query = this.query().select(`DISTINCT ${String(field)} as value`);
+        const query = this.query().select(`DISTINCT ${this.column(String(field))} as value`);
 
         if (options.where) {
             this.addWhereConditions(query, options.where);
         }
 
         const { sql, params } = query.build();
-        const result = await this.executeQuery<{ value: any }>(sql, params);
-        return result.results.map(row => row.value);
+        const result = await this.executeQuery<{ value: any }>(sql, params, this.queryOptions(options));
+        return result.results.map(row => this.schema.decode(String(field), row.value));
     }
 
     /**
      * Count distinct values for a field
      */
     async countDistinct(field: keyof T, options: AggregateOptions = {}): Promise<number> {
-        const query = this.query().select(`COUNT(DISTINCT ${String(field)}) as count`);
+        const query = this.query().select(`COUNT(DISTINCT ${this.column(String(field))}) as count`);
 
         if (options.where) {
             this.addWhereConditions(query, options.where);
         }
 
         const { sql, params } = query.build();
-        const result = await this.executeQuery<{ count: number }>(sql, params);
+        const result = await this.executeQuery<{ count: number }>(sql, params, this.queryOptions(options));
         return result.results[0]?.count || 0;
     }
 
@@ -241,6 +266,7 @@ export class AggregateOperations<T extends Record<string, any> = any> extends Ba
         const position = Math.ceil((percentile / 100) * countResult);
 
         // Get the value at that position
+        this.assertColumns([String(field)]);
         const valueQuery = this.query()
             .select(String(field))
             .orderBy(String(field), 'ASC')
@@ -252,8 +278,8 @@ export class AggregateOperations<T extends Record<string, any> = any> extends Ba
         }
 
         const { sql, params } = valueQuery.build();
-        const result = await this.executeQuery<any>(sql, params);
-        return result.results[0]?.[String(field)] || null;
+        const result = await this.executeQuery<any>(sql, params, this.queryOptions(options));
+        return this.decodeRows(result.results)[0]?.[String(field)] ?? null;
     }
 
     /**
@@ -290,4 +316,82 @@ export class AggregateOperations<T extends Record<string, any> = any> extends Ba
             max: max as number | null
         };
     }
+
+    /**
+     * The `n` rows with the highest (or, with `orderBy: 'ASC'`, lowest) `field` in each
+     * partition, with their `rank` (1 to n)
+     */
+    async topNPerGroup(field: keyof T, n: number, options: TopNOptions): Promise<Array<T & { rank: number }>> {
+        const partitionBy = ([] as string[]).concat(options.partitionBy);
+        this.assertColumns([String(field), ...partitionBy]);
+
+        const ranked = this.query()
+            .select(`${this.tableName}.*`)
+            .rowNumber('__rank', { partitionBy, orderBy: { [String(field)]: options.orderBy ?? 'DESC' } });
+
+        if (options.where) {
+            this.addWhereConditions(ranked, options.where);
+        }
+
+        const query = this.query().from(ranked, '__ranked').where('__rank', '<=', n);
+        for (const column of partitionBy) {
+            query.orderBy(column);
+        }
+        query.orderBy('__rank');
+
+        const { sql, params } = query.build();
+        const result = await this.executeQuery<T & { __rank: number }>(sql, params, this.queryOptions(options));
+        return this.decodeRows(result.results).map(({ __rank, ...row }) => ({ ...row, rank: __rank }) as unknown as T & { rank: number });
+    }
+
+    /**
+     * Every row with the cumulative sum of `field` up to it (`running_total`), per partition
+     */
+    async runningTotal(field: keyof T, options: WindowOptions = {}): Promise<Array<T & { running_total: number }>> {
+        return this.windowed(field, 'SUM', 'running_total', { preceding: 'unbounded' }, options);
+    }
+
+    /**
+     * Every row with the average of `field` over it and the `size - 1` rows before it (`moving_average`)
+     */
+    async movingAverage(field: keyof T, size: number, options: WindowOptions = {}): Promise<Array<T & { moving_average: number }>> {
+        if (!Number.isInteger(size) || size < 1) {
+            throw new Error('Moving average size must be a positive integer');
+        }
+        return this.windowed(field, 'AVG', 'moving_average', { preceding: size - 1 }, options);
+    }
+
+    /**
+     * Select every row plus one window aggregate of `field`, in window order
+     */
+    private async windowed<K extends string>(
+        field: keyof T,
+        fn: 'SUM' | 'AVG',
+        alias: K,
+        frame: WindowSpec['frame'],
+        options: WindowOptions
+    ): Promise<Array<T & Record<K, number>>> {
+        const partitionBy = options.partitionBy === undefined ? [] : ([] as string[]).concat(options.partitionBy);
+        const orderBy = typeof options.orderBy === 'string' ? { [options.orderBy]: 'ASC' as const } : options.orderBy ?? Object.fromEntries(this.schema.primaryKey.map(column => [column, 'ASC' as const]));
+        this.assertColumns([String(field), ...partitionBy, ...Object.keys(orderBy)]);
+
+        const query = this.query()
+            .select(`${this.tableName}.*`)
+            .windowAggregate(fn, String(field), alias, { partitionBy, orderBy, frame });
+
+        if (options.where) {
+            this.addWhereConditions(query, options.where);
+        }
+
+        for (const column of partitionBy) {
+            query.orderBy(column);
+        }
+        for (const [column, direction] of Object.entries(orderBy)) {
+            query.orderBy(column, direction);
+        }
+
+        const { sql, params } = query.build();
+        const result = await this.executeQuery<T & Record<K, number>>(sql, params, this.queryOptions(options));
+        return this.decodeRows(result.results);
+    }
 }
@@ -5,16 +5,31 @@
 import { DatabaseService } from '../../classes/DatabaseService.js';
 import { QueryBuilder } from '../QueryBuilder.js';
 import { Schema } from '../Schema.js';
-import { QueryResult } from '../../types/database.js';
+import { D1Statement, QueryOptions, QueryResult } from '../../types/database.js';
+import {
+    ConstraintError,
+    D1ORMError,
+    NotNullConstraintError,
+    UnknownColumnError,
+    renameConstraintColumns,
+    toD1ORMError
+} from '../../errors.js';
+import { RowLocator, Transaction, TransactionRef } from '../Transaction.js';
+import { Include, Relationship } from '../Relationships.js';
+import { WhereInput, applyWhere, encodeWhere, whereColumns } from '../filters.js';
+import { isReadOnlyStatement, quoteIdentifier } from '../../utils/sql.js';
 
 export interface FindOptions {
-    where?: Record<string, any>;
+    where?: WhereInput;
     orderBy?: string | Record<string, 'ASC' | 'DESC'> | Array<{ field: string; direction: 'ASC' | 'DESC' }>;
     limit?: number;
     take?: number; // Prisma-style alias for limit
     offset?: number;
     skip?: number; // Prisma-style alias for offset
     select?: string[] | Record<string, boolean>; // Support both array and object formats
+    include?: Include; // Eager load relationships, e.g. ['posts', 'posts.comments']
+    timeout?: number; // Per-call timeout in milliseconds
+    signal?: AbortSignal; // Cancel the query from the caller
 }
 
 export interface PaginatedResult<T> {
@@ -29,13 +44,18 @@ export interface PaginatedResult<T> {
     };
 }
 
+/**
+ * A primary key value (`5`, `'01J...'`), or the key columns of a composite key (`{ tenant_id: 1, sku: 'A-1' }`)
+ */
+export type PrimaryKeyValue = number | string | Record<string, any>;
+
 export interface ModelHooks<T = any> {
     beforeCreate?: (data: Partial<T>) => Promise<void> | void;
     afterCreate?: (record: T) => Promise<void> | void;
     beforeUpdate?: (data: Partial<T>, where: Record<string, any>) => Promise<void> | void;
     afterUpdate?: (record: T) => Promise<void> | void;
     beforeDelete?: (where: Record<string, any>) => Promise<void> | void;
-    afterDelete?: (deletedCount: number) => Promise<void> | void;
+    afterDelete?: (deletedCount: number, records: T[]) => Promise<void> | void;
     beforeFind?: (query: QueryBuilder) => Promise<void> | void;
     afterFind?: (records: T[]) => Promise<void> | void;
 }
@@ -45,7 +65,7 @@ export class BaseModel<T extends Record<string, any> = any> {
     protected schema: Schema;
     protected tableName: string;
     protected hooks: ModelHooks<T> = {};
-    protected relationships: Map<string, any> = new Map();
+    protected relationships: Map<string, Relationship> = new Map();
 
     constructor(db: DatabaseService, schema: Schema, tableName?: string) {
         this.db = db;
@@ -54,6 +74,37 @@ export class BaseModel<T extends Record<string, any> = any> {
         schema.tableName = this.tableName;
     }
 
+    /**
+     * Copy of this model bound to another database service (e.g. a transaction)
+     */
+    withDatabase(db: DatabaseService): this {
+        const bound = Object.create(Object.getPrototypeOf(this));
+        Object.assign(bound, this);
+        bound.db = db;
+        return bound;
+    }
+
+    /**
+     * The transaction this model is bound to, if any
+     */
+    protected getTransaction(): Transaction | null {
+        return this.db instanceof Transaction ? this.db : null;
+    }
+
+    /**
+     * Declare a relationship (see D1ORM.hasOne/hasMany/belongsTo/belongsToMany)
+     */
+    addRelationship(relationship: Relationship): void {
+        this.relationships.set(relationship.name, relationship);
+    }
+
+    /**
+     * Declared relationships by name
+     */
+    getRelationships(): Map<string, Relationship> {
+        return this.relationships;
+    }
+
     /**
      * Register hooks
      */
@@ -64,169 +115,213 @@ export class BaseModel<T extends Record<string, any> = any> {
     /**
      * Execute a query with error handling
      */
-    protected async executeQuery<R = any>(sql: string, params: any[] = []): Promise<QueryResult<R>> {
-        try {
-            // Add debug logging for troubleshooting
-            const isDebugMode = process.env.NODE_ENV === 'development' || process.env.DEBUG_SQL === 'true';
-            if (isDebugMode) {
-                console.log('🔍 Executing SQL:', sql);
-                console.log('📋 Parameters:', params);
-            }
+    protected async executeQuery<R = any>(sql: string, params: any[] = [], options: QueryOptions = {}): Promise<QueryResult<R>> {
+        // Add debug logging for troubleshooting
+        const isDebugMode = process.env.NODE_ENV === 'development' || process.env.DEBUG_SQL === 'true';
+        if (isDebugMode) {
+            console.log('🔍 Executing SQL:', sql);
+            console.log('📋 Parameters:', params);
+        }
 
-            const result = await this.db.query<R>(sql, params);
-            if (!result.success) {
-                const error = result.error || 'Query execution failed';
-                throw new Error(this.parseDbError(error, sql));
-            }
-            return result;
+        let result: QueryResult<R>;
+        try {
+            result = await this.db.query<R>(sql, params, options);
         } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-            // Enhanced error with more context
-            const enhancedError = new Error(`Database error: ${this.parseDbError(errorMessage, sql)}`);
-
-            // Add debugging properties to the error
-            if (error instanceof Error) {
-                (enhancedError as any).originalError = error;
-                (enhancedError as any).sql = sql;
-                (enhancedError as any).params = params;
-                (enhancedError as any).tableName = this.tableName;
+            // Caller aborts keep their original reason
+            if (options.signal?.aborted) {
+                throw error;
             }
+            throw this.toDbError(error, sql, params);
+        }
 
-            throw enhancedError;
+        if (!result.success) {
+            throw this.toDbError(result.error || 'Query execution failed', sql, params, result.errorCode);
         }
+        return result;
     }
 
     /**
-     * Parse database errors to provide more meaningful messages
+     * Execute statements as one atomic batch; a failed statement throws with its own SQL
      */
-    private parseDbError(error: string, sql: string): string {
-        const lowerError = error.toLowerCase();
-        const lowerSql = sql.toLowerCase();
-
-        // Check for common constraint violations
-        if (lowerError.includes('unique constraint') || lowerError.includes('duplicate')) {
-            // Try to extract field name from error or SQL
-            let field = 'field';
-            const uniqueMatch = error.match(/unique constraint failed: \w+\.(\w+)/i);
-            if (uniqueMatch) {
-                field = uniqueMatch[1];
-            } else if (lowerSql.includes('insert')) {
-                // Extract likely duplicate field from the context
-                if (lowerSql.includes('email')) field = 'email';
-                else if (lowerSql.includes('username')) field = 'username';
-                else if (lowerSql.includes('slug')) field = 'slug';
-                else if (lowerSql.includes('sku')) field = 'sku';
+    protected async executeBatch(statements: D1Statement[], options: QueryOptions = {}): Promise<QueryResult[]> {
+        let results: QueryResult[];
+        try {
+            results = await this.db.batch(statements, options);
+        } catch (error) {
+            if (options.signal?.aborted) {
+                throw error;
             }
+            const failed = this.failedStatement(statements, error);
+            throw failed ? this.toDbError(error, failed.sql, failed.params ?? []) : toD1ORMError(error, { tableName: this.tableName });
+        }
 
-            return `Duplicate entry detected. The ${field} already exists. Please use a different value.`;
+        const failedIndex = results.findIndex(result => !result.success);
+        if (failedIndex !== -1) {
+            const failed = results[failedIndex];
+            const { sql, params = [] } = statements[failedIndex];
+            throw this.toDbError(failed.error || 'Batch execution failed', sql, params, failed.errorCode);
         }
+        return results;
+    }
 
-        if (lowerError.includes('foreign key constraint')) {
-            return `Foreign key constraint violation. The referenced record does not exist or cannot be deleted due to existing relationships.`;
+    /**
+     * Statement a thrown batch error belongs to: the one the driver reported, else the batch's only write
+     */
+    private failedStatement(statements: D1Statement[], error: unknown): D1Statement | undefined {
+        if (error instanceof D1ORMError && error.sql !== undefined) {
+            const reported = statements.find(statement => statement.sql === error.sql);
+            if (reported) {
+                return reported;
+            }
         }
+        const writes = statements.filter(statement => !isReadOnlyStatement(statement.sql));
+        return writes.length === 1 ? writes[0] : undefined;
+    }
 
-        if (lowerError.includes('not null constraint')) {
-            const notNullMatch = error.match(/not null constraint failed: \w+\.(\w+)/i);
-            const field = notNullMatch ? notNullMatch[1] : 'required field';
+    /**
+     * Convert a database failure into a typed error carrying the query context
+     */
+    protected toDbError(error: unknown, sql: string, params: any[], code?: string | number): D1ORMError {
+        const dbError = toD1ORMError(error, { code, sql, params, tableName: this.tableName });
+
+        // Constraint errors on this table name the fields by property, like the rest of the model
+        if (dbError instanceof ConstraintError && dbError.table === this.tableName) {
+            renameConstraintColumns(dbError, column => this.schema.propertyName(column));
+        }
 
-            // Check if this field is marked as optional in ORM but required in DB
+        // A column optional in the ORM but NOT NULL in the database points at a stale schema
+        if (dbError instanceof NotNullConstraintError && dbError.table === this.tableName) {
+            const field = dbError.columns[0];
             const fieldDef = this.schema.fields[field];
             if (fieldDef && !fieldDef.required) {
-                return `Database schema mismatch: Field '${field}' is optional in your ORM schema but required in the database. Consider running migrations or providing a default value.`;
+                dbError.message = `Database schema mismatch: Field '${field}' is optional in your ORM schema but required in the database. Consider running migrations or providing a default value.`;
             }
-
-            return `Missing required field: ${field}. This field cannot be empty.`;
         }
 
-        if (lowerError.includes('check constraint')) {
-            return `Data validation failed. One or more values do not meet the required constraints.`;
-        }
+        return dbError;
+    }
 
-        if (lowerError.includes('http 400')) {
-            if (lowerSql.includes('insert')) {
-                // Provide more specific debugging information for insert failures
-                const suggestions = [
-                    'Check if all required fields are provided',
-                    'Verify field types match your schema definition',
-                    'Ensure no fields exceed maximum length constraints',
-                    'Check for unique constraint violations',
-                    'Verify foreign key references exist'
-                ];
-
-                return `Database insert failed. The query was rejected by Cloudflare D1. This usually indicates:\n` +
-                    `• Schema mismatch between ORM and database\n` +
-                    `• Missing required fields or invalid data types\n` +
-                    `• Constraint violations (unique, foreign key, etc.)\n\n` +
-                    `SQL: ${sql.length > 200 ? sql.substring(0, 200) + '...' : sql}\n\n` +
-                    `Debugging suggestions:\n${suggestions.map(s => `• ${s}`).join('\n')}`;
-            }
-            if (lowerSql.includes('update')) {
-                return `Database update failed. Check field constraints and data types.\n` +
-                    `SQL: ${sql.length > 200 ? sql.substring(0, 200) + '...' : sql}`;
-            }
-            if (lowerSql.includes('select')) {
-                return `Database query failed. Check table name and field references.\n` +
-                    `SQL: ${sql.length > 200 ? sql.substring(0, 200) + '...' : sql}`;
-            }
-            return `Bad Request - The database query was malformed or contains invalid data.\n` +
-                `SQL: ${sql.length > 200 ? sql.substring(0, 200) + '...' : sql}`;
-        }
+    /**
+     * Create a new QueryBuilder for this model; it is written with property names
+     */
+    query(): QueryBuilder {
+        return new QueryBuilder(this.tableName).mapColumns(name => this.schema.columnName(name));
+    }
 
-        if (lowerError.includes('http 401')) {
-            return `Unauthorized - Invalid database credentials or access token.`;
-        }
+    /**
+     * Get table schema
+     */
+    getSchema(): Schema {
+        return this.schema;
+    }
 
-        if (lowerError.includes('http 403')) {
-            return `Forbidden - Insufficient permissions to perform this operation.`;
-        }
+    /**
+     * Extract per-call query options (timeout, signal) from find/aggregate options
+     */
+    protected queryOptions(options: { timeout?: number; signal?: AbortSignal } = {}): QueryOptions {
+        return { timeout: options.timeout, signal: options.signal };
+    }
 
-        if (lowerError.includes('http 404')) {
-            return `Not Found - The specified database or resource does not exist.`;
-        }
+    /**
+     * Add WHERE conditions to query (see filters.ts for the accepted operators);
+     * compared values are encoded like the columns they are compared with
+     */
+    protected addWhereConditions(query: QueryBuilder, conditions: WhereInput): void {
+        this.assertColumns(whereColumns(conditions));
+        applyWhere(query, encodeWhere(conditions, (field, value) => this.schema.encode(field, value)));
+    }
+
+    /**
+     * Rows read from this table with their stored values decoded (see codecs.ts)
+     */
+    protected decodeRows<R extends Record<string, any>>(rows: R[]): R[] {
+        return rows.map(row => this.schema.decodeRow(row));
+    }
 
-        if (lowerError.includes('http 429')) {
-            return `Rate Limited - Too many requests. Please try again later.`;
+    /**
+     * Check column names coming from callers (select, orderBy, where keys, data).
+     * Every name must be a plain identifier; a strict schema also rejects columns it does not declare.
+     */
+    protected assertColumns(columns: Iterable<string>): void {
+        const unknown: string[] = [];
+
+        for (const column of columns) {
+            if (this.schema.options.strict && !this.schema.hasColumn(column)) {
+                unknown.push(column);
+            } else {
+                quoteIdentifier(column); // Throws on anything that is not an identifier
+            }
         }
 
-        if (lowerError.includes('http 500')) {
-            return `Internal Server Error - A server-side error occurred.`;
+        if (unknown.length > 0) {
+            throw new UnknownColumnError([...new Set(unknown)], { tableName: this.tableName });
         }
+    }
 
-        // Return original error if no specific pattern matches
-        return error;
+    /**
+     * Where conditions matching the row with primary key `key`
+     */
+    protected primaryKeyWhere(key: PrimaryKeyValue): Record<string, any> {
+        const columns = this.schema.primaryKey;
+        if (key === null || typeof key !== 'object' || key instanceof Date) {
+            if (columns.length > 1) {
+                throw new Error(`'${this.tableName}' has a composite primary key; pass { ${columns.join(', ')} }`);
+            }
+            return { [columns[0]]: key };
+        }
+        return this.primaryKeyOf(key);
     }
 
     /**
-     * Create a new QueryBuilder for this model
+     * The primary key columns of `record`, each of which must be present
      */
-    query(): QueryBuilder {
-        return new QueryBuilder(this.tableName);
+    protected primaryKeyOf(record: Record<string, any>): Record<string, any> {
+        const key: Record<string, any> = {};
+        for (const column of this.schema.primaryKey) {
+            if (record[column] === undefined || record[column] === null) {
+                throw new Error(`Primary key column '${column}' of '${this.tableName}' is missing`);
+            }
+            key[column] = record[column];
+        }
+        return key;
     }
 
     /**
-     * Get table schema
+     * Field sets that identify a row: the primary key, UNIQUE fields and unique indexes
      */
-    getSchema(): Schema {
-        return this.schema;
+    protected uniqueKeys(): string[][] {
+        return [
+            this.schema.primaryKey,
+            ...Object.keys(this.schema.fields).filter(name => this.schema.fields[name].unique).map(name => [name]),
+            ...(this.schema.options.indexes ?? []).filter(index => index.unique).map(index => [...index.fields])
+        ];
     }
 
     /**
-     * Add WHERE conditions to query
+     * How later statements of a transaction find `row` once inserted: by the first of the
+     * `candidates` field sets (default: its unique keys) that it supplies, in stored form
      */
-    protected addWhereConditions(query: QueryBuilder, conditions: Record<string, any>): void {
-        for (const [field, value] of Object.entries(conditions)) {
-            if (value === null) {
-                query.whereNull(field);
-            } else if (value === undefined) {
-                continue;
-            } else if (Array.isArray(value)) {
-                query.whereIn(field, value);
-            } else if (typeof value === 'object' && value.operator) {
-                query.where(field, value.operator, value.value);
-            } else {
-                query.where(field, '=', value);
-            }
+    protected rowLocator(row: Record<string, any>, candidates: string[][] = this.uniqueKeys()): RowLocator | undefined {
+        const supplied = (name: string) => row[name] !== undefined && row[name] !== null && !(row[name] instanceof TransactionRef);
+
+        const names = candidates.find(candidate => candidate.every(supplied));
+        if (!names) {
+            return undefined;
         }
+
+        const idField = this.schema.rowIdField;
+        return {
+            table: this.tableName,
+            key: Object.fromEntries(names.map(name => [this.schema.columnName(name), this.schema.encode(name, row[name])])),
+            idColumn: idField !== undefined ? this.schema.columnName(idField) : undefined
+        };
+    }
+
+    /**
+     * Checked and quoted column of a property, for SQL assembled outside the QueryBuilder
+     */
+    protected column(name: string): string {
+        this.assertColumns([name]);
+        return quoteIdentifier(this.schema.columnName(name));
     }
 }
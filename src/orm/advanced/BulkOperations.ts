@@ -3,7 +3,10 @@
  * Handles bulk insert, update, delete operations
  */
 
-import { UpsertOperations } from './UpsertOperations.js';
+import { UpsertOperations, UpsertOptions } from './UpsertOperations.js';
+import { Raw } from '../QueryBuilder.js';
+import { D1ORMError, ValidationError } from '../../errors.js';
+import { MAX_BOUND_PARAMETERS, quoteIdentifier } from '../../utils/sql.js';
 
 export interface BulkResult {
     created: number;
@@ -12,11 +15,11 @@ export interface BulkResult {
     errors: Array<{ index: number; error: string; data?: any }>;
 }
 
-export class BulkOperations<T extends Record<string, any> = any> extends UpsertOperations<T> {
+export class BulkOperations<T extends Record<string, any> = any, C extends Record<string, any> = Partial<T>, U extends Record<string, any> = Partial<T>> extends UpsertOperations<T, C, U> {
     /**
      * Bulk create records with error handling
      */
-    async bulkCreate(records: Partial<T>[], options: {
+    async bulkCreate(records: C[], options: {
         continueOnError?: boolean;
         chunkSize?: number;
     } = {}): Promise<BulkResult> {
@@ -49,7 +52,7 @@ export class BulkOperations<T extends Record<string, any> = any> extends UpsertO
                     });
 
                     if (!continueOnError) {
-                        throw new Error(`Bulk create failed at record ${recordIndex}: ${errorMessage}`);
+                        throw bulkFailure(error, `Bulk create failed at record ${recordIndex}`, recordIndex);
                     }
                 }
             }
@@ -62,7 +65,7 @@ export class BulkOperations<T extends Record<string, any> = any> extends UpsertO
      * Bulk update records
      */
     async bulkUpdate(
-        updates: Array<{ where: Record<string, any>; data: Partial<T> }>,
+        updates: Array<{ where: Record<string, any>; data: U }>,
         options: { continueOnError?: boolean } = {}
     ): Promise<BulkResult> {
         const result: BulkResult = {
@@ -89,7 +92,7 @@ export class BulkOperations<T extends Record<string, any> = any> extends UpsertO
                 });
 
                 if (!continueOnError) {
-                    throw new Error(`Bulk update failed at update ${i}: ${errorMessage}`);
+                    throw bulkFailure(error, `Bulk update failed at update ${i}`, i);
                 }
             }
         }
@@ -128,7 +131,7 @@ export class BulkOperations<T extends Record<string, any> = any> extends UpsertO
                 });
 
                 if (!continueOnError) {
-                    throw new Error(`Bulk delete failed at condition ${i}: ${errorMessage}`);
+                    throw bulkFailure(error, `Bulk delete failed at condition ${i}`, i);
                 }
             }
         }
@@ -137,11 +140,20 @@ export class BulkOperations<T extends Record<string, any> = any> extends UpsertO
     }
 
     /**
-     * Bulk upsert records
+     * Bulk upsert records with multi-row `INSERT ... ON CONFLICT` statements. Rows sharing
+     * a conflict target and columns are written together, within D1's parameter limit.
      */
     async bulkUpsert(
-        records: Array<{ data: Partial<T>; uniqueFields: (keyof T)[] }>,
-        options: { continueOnError?: boolean; chunkSize?: number } = {}
+        records: C[],
+        options: UpsertOptions & { continueOnError?: boolean; chunkSize?: number }
+    ): Promise<BulkResult>;
+    async bulkUpsert(
+        records: Array<{ data: C & U; uniqueFields: (keyof C & keyof T)[] }>,
+        options?: { continueOnError?: boolean; chunkSize?: number }
+    ): Promise<BulkResult>;
+    async bulkUpsert(
+        records: Array<C | { data: C & U; uniqueFields: (keyof C & keyof T)[] }>,
+        options: Partial<UpsertOptions> & { continueOnError?: boolean; chunkSize?: number } = {}
     ): Promise<BulkResult> {
         const result: BulkResult = {
             created: 0,
@@ -151,32 +163,66 @@ export class BulkOperations<T extends Record<string, any> = any> extends UpsertO
         };
 
         const { continueOnError = true, chunkSize = 50 } = options;
+        const fail = (index: number, error: unknown, data: any) => {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            result.errors.push({ index, error: errorMessage, data });
 
-        // Process in chunks to avoid overwhelming the database
-        for (let i = 0; i < records.length; i += chunkSize) {
-            const chunk = records.slice(i, i + chunkSize);
+            if (!continueOnError) {
+                throw bulkFailure(error, `Bulk upsert failed at record ${index}`, index);
+            }
+        };
 
-            for (let j = 0; j < chunk.length; j++) {
-                const { data, uniqueFields } = chunk[j];
-                const recordIndex = i + j;
+        // Rows that can share a statement: same conflict target, columns and update
+        const groups = new Map<string, { conflictTarget: string[]; set: Raw | null; rows: Array<{ index: number; data: any; prepared: Record<string, any> }> }>();
+
+        for (let i = 0; i < records.length; i++) {
+            const record = records[i];
+            const legacy = options.conflictTarget === undefined && 'uniqueFields' in record;
+            const data: Record<string, any> = legacy ? (record as { data: C & U }).data : record;
+            const conflictTarget = legacy ? (record as { uniqueFields: string[] }).uniqueFields.map(String) : options.conflictTarget;
+            const update = legacy ? undefined : options.update;
+
+            try {
+                if (!conflictTarget) {
+                    throw new Error('bulkUpsert needs a conflictTarget option or uniqueFields per record');
+                }
+                await this.runBeforeHooks(data, conflictTarget, update, this.queryOptions(options));
+                const prepared = this.prepareDataForInsert(data);
+                this.assertColumns([...Object.keys(prepared), ...conflictTarget]);
+                await this.validateForWrite(prepared, 'create', this.conflictKey(prepared, conflictTarget));
+
+                const key = JSON.stringify([conflictTarget, Object.keys(prepared), update === undefined ? Object.keys(data) : null]);
+                let group = groups.get(key);
+                if (!group) {
+                    group = { conflictTarget, set: this.conflictUpdate(conflictTarget, update, Object.keys(data)), rows: [] };
+                    groups.set(key, group);
+                }
+                group.rows.push({ index: i, data: record, prepared });
+            } catch (error) {
+                fail(i, error, record);
+            }
+        }
+
+        for (const { conflictTarget, set, rows } of groups.values()) {
+            const columnCount = Object.keys(rows[0].prepared).length;
+            const perStatement = Math.max(1, Math.min(chunkSize, Math.floor((MAX_BOUND_PARAMETERS - (set?.params.length ?? 0)) / columnCount)));
+
+            for (let i = 0; i < rows.length; i += perStatement) {
+                const chunk = rows.slice(i, i + perStatement);
 
                 try {
-                    const upsertResult = await this.upsert(data, uniqueFields);
-                    if (upsertResult.created) {
-                        result.created++;
-                    } else if (upsertResult.updated) {
-                        result.updated++;
+                    const upserted = await this.upsertRows(chunk.map(row => row.prepared), conflictTarget, set, this.queryOptions(options));
+                    for (const { created } of upserted) {
+                        if (created) {
+                            result.created++;
+                        } else if (set) {
+                            result.updated++;
+                        }
                     }
                 } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                    result.errors.push({
-                        index: recordIndex,
-                        error: errorMessage,
-                        data: { data, uniqueFields }
-                    });
-
-                    if (!continueOnError) {
-                        throw new Error(`Bulk upsert failed at record ${recordIndex}: ${errorMessage}`);
+                    // Add error for each record in the failed chunk
+                    for (const row of chunk) {
+                        fail(row.index, error, row.data);
                     }
                 }
             }
@@ -189,7 +235,7 @@ export class BulkOperations<T extends Record<string, any> = any> extends UpsertO
      * Truncate table (delete all records)
      */
     async truncate(): Promise<void> {
-        await this.executeQuery(`DELETE FROM ${this.tableName}`);
+        await this.executeQuery(`DELETE FROM ${quoteIdentifier(this.tableName)}`);
     }
 
     /**
@@ -197,7 +243,7 @@ export class BulkOperations<T extends Record<string, any> = any> extends UpsertO
      * Note: This bypasses hooks and validations for performance
      */
     async batchInsert(
-        records: Partial<T>[],
+        records: C[],
         options: { chunkSize?: number; skipValidation?: boolean } = {}
     ): Promise<BulkResult> {
         const result: BulkResult = {
@@ -213,47 +259,44 @@ export class BulkOperations<T extends Record<string, any> = any> extends UpsertO
 
         const { chunkSize = 500, skipValidation = false } = options;
 
-        // Get field names from the first record and schema
-        const firstRecord = records[0];
-        const fieldNames = Object.keys(firstRecord).filter(field => {
-            const fieldDef = this.schema.fields[field];
-            return !fieldDef?.autoIncrement; // Exclude auto-increment fields
-        });
+        // Columns come from the prepared rows, so generated keys, defaults and timestamps are written too;
+        // a row without one of them binds NULL
+        const preparedRecords = records.map(record => this.prepareDataForInsert(record));
+        const fieldNames = [...new Set(preparedRecords.flatMap(prepared => Object.keys(prepared)))];
 
         if (fieldNames.length === 0) {
             throw new Error('No valid fields found for batch insert');
         }
+        this.assertColumns(fieldNames);
+
+        // D1 caps bound parameters per statement
+        const perStatement = Math.max(1, Math.min(chunkSize, Math.floor(MAX_BOUND_PARAMETERS / fieldNames.length)));
 
         // Process in chunks
-        for (let i = 0; i < records.length; i += chunkSize) {
-            const chunk = records.slice(i, i + chunkSize);
+        for (let i = 0; i < records.length; i += perStatement) {
+            const chunk = preparedRecords.slice(i, i + perStatement);
 
             try {
-                const preparedRecords: Record<string, any>[] = [];
-
-                for (const record of chunk) {
-                    const prepared = this.prepareDataForInsert(record);
-
-                    if (!skipValidation) {
+                if (!skipValidation) {
+                    for (const prepared of chunk) {
                         const validation = this.schema.validate(prepared);
                         if (!validation.isValid) {
-                            throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+                            throw new ValidationError(validation.issues, { tableName: this.tableName });
                         }
                     }
-
-                    preparedRecords.push(prepared);
                 }
 
                 // Build batch INSERT query
                 const placeholders = fieldNames.map(() => '?').join(', ');
                 const valuesClause = chunk.map(() => `(${placeholders})`).join(', ');
-                const sql = `INSERT INTO ${this.tableName} (${fieldNames.join(', ')}) VALUES ${valuesClause}`;
+                const columns = fieldNames.map(field => this.column(field)).join(', ');
+                const sql = `INSERT INTO ${quoteIdentifier(this.tableName)} (${columns}) VALUES ${valuesClause}`;
 
                 // Flatten all values
                 const allValues: any[] = [];
-                for (const prepared of preparedRecords) {
+                for (const prepared of chunk) {
                     for (const field of fieldNames) {
-                        allValues.push(prepared[field]);
+                        allValues.push(this.schema.encode(field, prepared[field]));
                     }
                 }
 
@@ -268,7 +311,7 @@ export class BulkOperations<T extends Record<string, any> = any> extends UpsertO
                     result.errors.push({
                         index: i + j,
                         error: errorMessage,
-                        data: chunk[j]
+                        data: records[i + j]
                     });
                 }
             }
@@ -277,3 +320,15 @@ export class BulkOperations<T extends Record<string, any> = any> extends UpsertO
         return result;
     }
 }
+
+/**
+ * The error a bulk operation stops with when `continueOnError` is false. Typed errors
+ * are rethrown as they are, marked with the index of the failing record.
+ */
+function bulkFailure(error: unknown, context: string, index: number): Error {
+    if (error instanceof D1ORMError) {
+        error.recordIndex = index;
+        return error;
+    }
+    return new Error(`${context}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+}
@@ -3,19 +3,39 @@
  * Handles Create, Read, Update, Delete operations
  */
 
-import { BaseModel } from './BaseModel.js';
+import { BaseModel, PrimaryKeyValue } from './BaseModel.js';
 import { QueryBuilder } from '../QueryBuilder.js';
-import { QueryResult } from '../../database.js';
+import {
+    Include,
+    IncludeOptions,
+    NESTED_WRITE_SUPPORT,
+    NestedWrite,
+    NestedWrites,
+    Relationship,
+    RelationSelector,
+    isNestedWrite,
+    normalizeInclude
+} from '../Relationships.js';
+import { Transaction, TransactionRef } from '../Transaction.js';
+import { WhereInput } from '../filters.js';
+import { generateKey } from '../keys.js';
+import { getFieldType } from '../fieldTypes.js';
+import { MAX_BOUND_PARAMETERS, quoteIdentifier } from '../../utils/sql.js';
+import { ValidationError } from '../../errors.js';
+import { ValidationContext, ValidationResult } from '../validation.js';
+import { QueryOptions, QueryResult } from '../../database.js';
 
 export interface FindOptions {
     select?: string[] | Record<string, boolean>;
-    where?: Record<string, any>;
+    where?: WhereInput;
     orderBy?: Array<{ field: string; direction: 'ASC' | 'DESC' }> | Record<string, 'ASC' | 'DESC'> | string;
     limit?: number;
     take?: number; // Prisma-style alias for limit
     offset?: number;
     skip?: number; // Prisma-style alias for offset
-    include?: string[]; // For relationships
+    include?: Include; // Eager load relationships, e.g. ['posts', 'posts.comments']
+    timeout?: number; // Per-call timeout in milliseconds
+    signal?: AbortSignal; // Cancel the query from the caller
 }
 
 export interface PaginatedResult<T> {
@@ -28,14 +48,20 @@ export interface PaginatedResult<T> {
     hasPrev: boolean;
 }
 
-export class CrudOperations<T extends Record<string, any> = any> extends BaseModel<T> {
+export class CrudOperations<T extends Record<string, any> = any, C extends Record<string, any> = Partial<T>, U extends Record<string, any> = Partial<T>> extends BaseModel<T> {
     /**
-     * Create a new record
+     * Create a new record, with nested writes for its relationships
      */
-    async create(data: Partial<T>): Promise<T> {
+    async create(data: C & NestedWrites, options: QueryOptions = {}): Promise<T> {
+        const { columns, writes } = this.splitNestedWrites(data);
+        if (writes.length > 0) {
+            // The record is refreshed from the returned row when the batch commits
+            return this.inTransaction(model => model.createWithRelations(columns, writes, options), options);
+        }
+
         // Execute beforeCreate hook
         if (this.hooks.beforeCreate) {
-            await this.hooks.beforeCreate(data);
+            await this.hooks.beforeCreate(data as Partial<T>);
         }
 
         // Prepare data with defaults and timestamps
@@ -52,28 +78,36 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
         }
 
         // Validate prepared data (after defaults are added)
-        const validation = this.schema.validate(preparedData);
-        if (!validation.isValid) {
-            throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
-        }
+        this.assertColumns(Object.keys(preparedData));
+        await this.validateForWrite(preparedData, 'create');
 
         // Build INSERT query
         const fields = Object.keys(preparedData);
         const placeholders = fields.map(() => '?');
-        const values = Object.values(preparedData);
+        const values = Object.values(this.schema.encodeRow(preparedData));
+
+        const quoted = fields.map(field => this.column(field));
+        const sql = `INSERT INTO ${quoteIdentifier(this.tableName)} (${quoted.join(', ')}) VALUES (${placeholders.join(', ')}) RETURNING *`;
+
+        // Inside a transaction the insert is deferred; the id stays a placeholder until commit
+        const transaction = this.getTransaction();
+        if (transaction) {
+            const generatedKey = this.schema.rowIdField !== undefined && preparedData[this.schema.rowIdField] === undefined;
+            const ref = transaction.enqueue(sql, values, { locator: this.rowLocator(preparedData), generatedKey });
+            const pendingRecord: Record<string, any> = { ...preparedData, ...this.pendingKey(preparedData, ref) };
+            transaction.track(pendingRecord, ref, row => this.schema.decodeRow(row));
+
+            if (this.hooks.afterCreate) {
+                const afterCreate = this.hooks.afterCreate;
+                transaction.afterCommit(() => afterCreate(pendingRecord as T));
+            }
 
-        const sql = `INSERT INTO ${this.tableName} (${fields.join(', ')}) VALUES (${placeholders.join(', ')})`;
-        const result = await this.executeQuery(sql, values);
+            return pendingRecord as T;
+        }
 
-        // Get the created record
-        let createdRecord: T;
-        if (result.meta.last_row_id) {
-            const found = await this.findById(result.meta.last_row_id);
-            if (!found) {
-                throw new Error('Failed to retrieve created record');
-            }
-            createdRecord = found;
-        } else {
+        const result = await this.executeQuery<T>(sql, values, options);
+        const [createdRecord] = this.decodeRows(result.results);
+        if (!createdRecord) {
             throw new Error('Failed to create record');
         }
 
@@ -86,18 +120,20 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
     }
 
     /**
-     * Find record by ID
+     * Find a record by primary key: a single value, or `{ column: value, ... }` for a composite key
      */
-    async findById(id: number | string): Promise<T | null> {
-        const query = this.query().where('id', '=', id);
+    async findByPk(key: PrimaryKeyValue, options: QueryOptions & { include?: Include } = {}): Promise<T | null> {
+        const query = this.query();
+        this.addWhereConditions(query, this.primaryKeyWhere(key));
 
         if (this.hooks.beforeFind) {
             await this.hooks.beforeFind(query);
         }
 
         const { sql, params } = query.build();
-        const result = await this.executeQuery<T>(sql, params);
-        const records = result.results;
+        const result = await this.executeQuery<T>(sql, params, this.queryOptions(options));
+        const records = this.decodeRows(result.results);
+        await this.loadIncludes(records, options.include, this.queryOptions(options));
 
         if (this.hooks.afterFind) {
             await this.hooks.afterFind(records);
@@ -106,6 +142,13 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
         return records[0] || null;
     }
 
+    /**
+     * Find record by ID (see findByPk)
+     */
+    async findById(id: PrimaryKeyValue, options: QueryOptions & { include?: Include } = {}): Promise<T | null> {
+        return this.findByPk(id, options);
+    }
+
     /**
      * Find one record by conditions
      */
@@ -117,8 +160,9 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
         }
 
         const { sql, params } = query.build();
-        const result = await this.executeQuery<T>(sql, params);
-        const records = result.results;
+        const result = await this.executeQuery<T>(sql, params, this.queryOptions(options));
+        const records = this.decodeRows(result.results);
+        await this.loadIncludes(records, options.include, this.queryOptions(options));
 
         if (this.hooks.afterFind) {
             await this.hooks.afterFind(records);
@@ -138,8 +182,9 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
         }
 
         const { sql, params } = query.build();
-        const result = await this.executeQuery<T>(sql, params);
-        const records = result.results;
+        const result = await this.executeQuery<T>(sql, params, this.queryOptions(options));
+        const records = this.decodeRows(result.results);
+        await this.loadIncludes(records, options.include, this.queryOptions(options));
 
         if (this.hooks.afterFind) {
             await this.hooks.afterFind(records);
@@ -158,7 +203,7 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
         // Get total count
         const countQuery = this.buildQueryFromOptions(options);
         const { sql: countSql, params: countParams } = countQuery.buildCount();
-        const countResult = await this.executeQuery<{ count: number }>(countSql, countParams);
+        const countResult = await this.executeQuery<{ count: number }>(countSql, countParams, this.queryOptions(options));
         const total = countResult.results[0]?.count || 0;
 
         // Get records
@@ -173,8 +218,9 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
         }
 
         const { sql, params } = query.build();
-        const result = await this.executeQuery<T>(sql, params);
-        const records = result.results;
+        const result = await this.executeQuery<T>(sql, params, this.queryOptions(options));
+        const records = this.decodeRows(result.results);
+        await this.loadIncludes(records, options.include, this.queryOptions(options));
 
         if (this.hooks.afterFind) {
             await this.hooks.afterFind(records);
@@ -194,67 +240,82 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
     }
 
     /**
-     * Update records
+     * Update records, with nested writes for their relationships.
+     * `results` holds the updated rows; afterUpdate runs for each of them.
+     * Inside a transaction the result is filled in when the transaction commits.
      */
-    async update(data: Partial<T>, where: Record<string, any>): Promise<QueryResult<T>> {
+    async update(data: U & NestedWrites, where: Record<string, any>, options: QueryOptions = {}): Promise<QueryResult<T>> {
+        const { columns, writes } = this.splitNestedWrites(data);
+        if (writes.length > 0) {
+            return this.inTransaction(model => model.updateWithRelations(columns, where, writes, options), options);
+        }
+
         // Execute beforeUpdate hook
         if (this.hooks.beforeUpdate) {
-            await this.hooks.beforeUpdate(data, where);
+            await this.hooks.beforeUpdate(data as Partial<T>, where);
         }
 
         // Prepare data with timestamps
         const preparedData = this.prepareDataForUpdate(data);
 
         // Validate only the fields being updated (not required fields that aren't changing)
-        const validation = this.validateUpdateData(preparedData);
-        if (!validation.isValid) {
-            throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
-        }
+        this.assertColumns(Object.keys(preparedData));
+        await this.validateForWrite(preparedData, 'update', where);
 
         // Build UPDATE query
-        const query = this.query();
+        const query = this.query().returning();
         this.addWhereConditions(query, where);
-        const { sql, params } = query.buildUpdate(preparedData);
+        const { sql, params } = query.buildUpdate(this.schema.encodeRow(preparedData));
+
+        // Inside a transaction the update is deferred; the result and afterUpdate get the returned rows on commit
+        const transaction = this.getTransaction();
+        if (transaction) {
+            const ref = transaction.enqueue(sql, params);
+            const pending: QueryResult<T> = { results: [], success: true, meta: {} };
+            const afterUpdate = this.hooks.afterUpdate;
+            transaction.afterCommit(async () => {
+                const records = this.decodeRows(ref.rows ?? []) as T[];
+                pending.results.push(...records);
+                pending.meta.changes = records.length;
+                if (afterUpdate) {
+                    for (const record of records) {
+                        await afterUpdate(record);
+                    }
+                }
+            });
+            return pending;
+        }
 
-        const result = await this.executeQuery(sql, params);
-        const updatedCount = result.meta.changes || 0;
+        const result = await this.executeQuery<T>(sql, params, options);
+        const records = this.decodeRows(result.results);
 
-        // Execute afterUpdate hook (Note: we can't easily get the updated record here)
-        if (this.hooks.afterUpdate && updatedCount > 0) {
-            // For now, we'll skip the afterUpdate hook for bulk updates
-            // Individual updates should use updateById
+        // Execute afterUpdate hook
+        if (this.hooks.afterUpdate) {
+            for (const record of records) {
+                await this.hooks.afterUpdate(record);
+            }
         }
 
-        return result;
+        return { ...result, results: records };
     }
 
     /**
-     * Update record by ID
+     * Update record by primary key
      */
-    async updateById(id: number | string, data: Partial<T>): Promise<T | null> {
-        const updateResult = await this.update(data, { id });
-        const updatedCount = updateResult.meta.changes || 0;
-
-        if (updatedCount > 0) {
-            const updatedRecord = await this.findById(id);
-            if (updatedRecord && this.hooks.afterUpdate) {
-                await this.hooks.afterUpdate(updatedRecord);
-            }
-            return updatedRecord;
-        }
-
-        return null;
+    async updateById(id: PrimaryKeyValue, data: U, options: QueryOptions = {}): Promise<T | null> {
+        const { results } = await this.update(data, this.primaryKeyWhere(id), options);
+        return results[0] ?? null;
     }
 
     /**
      * Delete records with options (user-friendly interface)
      */
-    async delete(options: { where: Record<string, any> }): Promise<number>;
+    async delete(options: { where: Record<string, any> }, queryOptions?: QueryOptions): Promise<number>;
     /**
      * Delete records (legacy interface)
      */
-    async delete(where: Record<string, any>): Promise<number>;
-    async delete(optionsOrWhere: { where: Record<string, any> } | Record<string, any>): Promise<number> {
+    async delete(where: Record<string, any>, queryOptions?: QueryOptions): Promise<number>;
+    async delete(optionsOrWhere: { where: Record<string, any> } | Record<string, any>, queryOptions: QueryOptions = {}): Promise<number> {
         // Determine if using new options format or legacy format
         const where = 'where' in optionsOrWhere ? optionsOrWhere.where : optionsOrWhere;
 
@@ -263,39 +324,51 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
             await this.hooks.beforeDelete(where);
         }
 
-        // Build DELETE query
-        const query = this.query();
+        // Build DELETE query; deleted rows are only sent back when afterDelete needs them
+        const afterDelete = this.hooks.afterDelete;
+        const query = afterDelete ? this.query().returning() : this.query();
         this.addWhereConditions(query, where);
         const { sql, params } = query.buildDelete();
 
-        const result = await this.executeQuery(sql, params);
-        const deletedCount = result.meta.changes || 0;
+        // Inside a transaction the delete is deferred and reports no rows until commit
+        const transaction = this.getTransaction();
+        if (transaction) {
+            const ref = transaction.enqueue(sql, params);
+            if (afterDelete) {
+                transaction.afterCommit(() => afterDelete(ref.rows?.length ?? 0, this.decodeRows(ref.rows ?? []) as T[]));
+            }
+            return 0;
+        }
+
+        // meta.changes counts the statement's own rows, so rows removed by ON DELETE CASCADE are not included
+        const result = await this.executeQuery<T>(sql, params, queryOptions);
+        const deletedCount = result.meta.changes ?? result.results.length;
 
         // Execute afterDelete hook
-        if (this.hooks.afterDelete) {
-            await this.hooks.afterDelete(deletedCount);
+        if (afterDelete) {
+            await afterDelete(deletedCount, this.decodeRows(result.results));
         }
 
         return deletedCount;
     }
 
     /**
-     * Delete record by ID
+     * Delete record by primary key
      */
-    async deleteById(id: number | string): Promise<boolean> {
-        const deletedCount = await this.delete({ id });
+    async deleteById(id: PrimaryKeyValue, options: QueryOptions = {}): Promise<boolean> {
+        const deletedCount = await this.delete(this.primaryKeyWhere(id), options);
         return deletedCount > 0;
     }
 
     /**
      * Count records
      */
-    async count(where: Record<string, any> = {}): Promise<number> {
+    async count(where: Record<string, any> = {}, options: QueryOptions = {}): Promise<number> {
         const query = this.query();
         this.addWhereConditions(query, where);
         const { sql, params } = query.buildCount();
 
-        const result = await this.executeQuery<{ count: number }>(sql, params);
+        const result = await this.executeQuery<{ count: number }>(sql, params, this.queryOptions(options));
         return result.results[0]?.count || 0;
     }
 
@@ -317,6 +390,7 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
         if (options.select) {
             if (Array.isArray(options.select)) {
                 // Array format: ['id', 'name', 'email']
+                this.assertColumns(options.select);
                 query.select(...options.select);
             } else if (typeof options.select === 'object') {
                 // Object format: { id: true, name: true, email: false }
@@ -324,6 +398,7 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
                     .filter(([_, include]) => include === true)
                     .map(([field, _]) => field);
                 if (selectedFields.length > 0) {
+                    this.assertColumns(selectedFields);
                     query.select(...selectedFields);
                 }
             }
@@ -333,22 +408,10 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
             this.addWhereConditions(query, options.where);
         }
 
-        // Handle orderBy - support multiple formats
-        if (options.orderBy) {
-            if (typeof options.orderBy === 'string') {
-                // String format: 'name'
-                query.orderBy(options.orderBy);
-            } else if (Array.isArray(options.orderBy)) {
-                // Array format: [{ field: 'name', direction: 'ASC' }]
-                for (const order of options.orderBy) {
-                    query.orderBy(order.field, order.direction);
-                }
-            } else if (typeof options.orderBy === 'object') {
-                // Object format: { name: 'ASC', email: 'DESC' }
-                for (const [field, direction] of Object.entries(options.orderBy)) {
-                    query.orderBy(field, direction as 'ASC' | 'DESC');
-                }
-            }
+        const order = this.normalizeOrderBy(options.orderBy);
+        this.assertColumns(order.map(o => o.field));
+        for (const { field, direction } of order) {
+            query.orderBy(field, direction);
         }
 
         // Handle limit - support both 'limit' and 'take'
@@ -365,16 +428,367 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
 
         // Add soft delete filter if enabled
         if (this.schema.options.softDeletes && !this.schema.options.paranoid) {
-            query.whereNull('deleted_at');
+            query.whereNull(this.schema.timestampField('deletedAt'));
         }
 
         return query;
     }
 
+    /**
+     * Handle orderBy - support multiple formats
+     */
+    protected normalizeOrderBy(orderBy: FindOptions['orderBy']): Array<{ field: string; direction: 'ASC' | 'DESC' }> {
+        if (!orderBy) {
+            return [];
+        }
+        if (typeof orderBy === 'string') {
+            // String format: 'name'
+            return [{ field: orderBy, direction: 'ASC' }];
+        }
+        if (Array.isArray(orderBy)) {
+            // Array format: [{ field: 'name', direction: 'ASC' }]
+            return orderBy;
+        }
+        // Object format: { name: 'ASC', email: 'DESC' }
+        return Object.entries(orderBy).map(([field, direction]) => ({ field, direction }));
+    }
+
+    /**
+     * Attach related rows to `records` for each included relationship.
+     * Every relationship costs one IN query per chunk of keys, whatever the number of records.
+     */
+    protected async loadIncludes(records: Record<string, any>[], include: Include | undefined, options: QueryOptions = {}): Promise<void> {
+        if (!include || records.length === 0) {
+            return;
+        }
+
+        for (const [name, spec] of normalizeInclude(include)) {
+            const relation = this.relationships.get(name);
+            if (!relation) {
+                throw new Error(`Relationship '${name}' is not defined on '${this.tableName}'`);
+            }
+            await this.loadRelationship(records, relation, spec, options);
+        }
+    }
+
+    private async loadRelationship(records: Record<string, any>[], relation: Relationship, spec: IncludeOptions, options: QueryOptions): Promise<void> {
+        const target = relation.target.withDatabase(this.db);
+        const keysOf = (field: string) => [...new Set(records.map(record => record[field]).filter(key => key !== null && key !== undefined))];
+
+        if (relation.type === 'belongsTo') {
+            const rows = await target.findRelated(relation.targetKey, keysOf(relation.foreignKey), { ...spec, limit: undefined }, options);
+            const byKey = new Map(rows.map(row => [row[relation.targetKey], row]));
+            for (const record of records) {
+                record[relation.name] = byKey.get(record[relation.foreignKey]) ?? null;
+            }
+            return;
+        }
+
+        if (relation.type === 'hasOne' || relation.type === 'hasMany') {
+            const limit = relation.type === 'hasOne' ? 1 : spec.limit;
+            const rows = await target.findRelated(relation.foreignKey, keysOf(relation.sourceKey), { ...spec, limit }, options);
+            const groups = groupBy(rows, row => row[relation.foreignKey]);
+            for (const record of records) {
+                const group = groups.get(record[relation.sourceKey]) ?? [];
+                record[relation.name] = relation.type === 'hasOne' ? group[0] ?? null : group;
+            }
+            return;
+        }
+
+        // belongsToMany: resolve the join table first, then load targets by key
+        const links: Record<string, any>[] = [];
+        for (const keys of chunk(keysOf(relation.sourceKey), MAX_BOUND_PARAMETERS)) {
+            const { sql, params } = new QueryBuilder(relation.through!)
+                .select(relation.foreignKey, relation.otherKey!)
+                .whereIn(relation.foreignKey, keys)
+                .build();
+            const result = await this.executeQuery(sql, params, options);
+            links.push(...result.results);
+        }
+
+        const rows = await target.findRelated(relation.targetKey, [...new Set(links.map(link => link[relation.otherKey!]))], { ...spec, limit: undefined }, options);
+        const parentsByTarget = groupBy(links, link => link[relation.otherKey!]);
+        const related = new Map<any, Record<string, any>[]>();
+
+        // Walk targets in query order so orderBy holds within each parent
+        for (const row of rows) {
+            for (const link of parentsByTarget.get(row[relation.targetKey]) ?? []) {
+                const list = related.get(link[relation.foreignKey]) ?? [];
+                if (spec.limit === undefined || list.length < spec.limit) {
+                    list.push(row);
+                }
+                related.set(link[relation.foreignKey], list);
+            }
+        }
+
+        for (const record of records) {
+            record[relation.name] = related.get(record[relation.sourceKey]) ?? [];
+        }
+    }
+
+    /**
+     * Rows whose `keyField` is one of `keys`, honoring an include's where/orderBy/select,
+     * a per-key limit (via ROW_NUMBER) and nested includes
+     */
+    protected async findRelated(keyField: string, keys: any[], spec: IncludeOptions, options: QueryOptions = {}): Promise<Record<string, any>[]> {
+        if (keys.length === 0) {
+            return [];
+        }
+
+        const select = spec.select && !spec.select.includes(keyField) ? [...spec.select, keyField] : spec.select;
+        const order = this.normalizeOrderBy(spec.orderBy);
+        const baseParams = this.buildQueryFromOptions({ where: spec.where }).build().params.length;
+        const rows: Record<string, any>[] = [];
+
+        // D1 caps bound parameters per statement
+        for (const batch of chunk(keys, Math.max(1, MAX_BOUND_PARAMETERS - baseParams - 1))) {
+            const query = this.buildQueryFromOptions({ where: spec.where, orderBy: spec.orderBy, select });
+            query.whereIn(keyField, batch.map(key => this.schema.encode(keyField, key)));
+
+            let { sql, params } = query.build();
+
+            if (spec.limit !== undefined) {
+                // Directions were checked by orderBy() in buildQueryFromOptions
+                const partition = `PARTITION BY ${this.column(keyField)}`;
+                const over = order.length > 0
+                    ? `${partition} ORDER BY ${order.map(o => `${this.column(o.field)} ${o.direction}`).join(', ')}`
+                    : partition;
+                query.select(...(select ?? ['*']), `ROW_NUMBER() OVER (${over}) AS __row`);
+                const inner = query.build();
+                sql = `SELECT * FROM (${inner.sql}) WHERE __row <= ? ORDER BY __row`;
+                params = [...inner.params, spec.limit];
+            }
+
+            const result = await this.executeQuery(sql, params, options);
+            for (const row of this.decodeRows(result.results)) {
+                delete row.__row;
+                rows.push(row);
+            }
+        }
+
+        await this.loadIncludes(rows, spec.include, options);
+        return rows;
+    }
+
+    /**
+     * Run `callback` with this model bound to a transaction: the current one if any,
+     * otherwise a new one committed as a single batch when the callback resolves
+     */
+    protected async inTransaction<R>(callback: (model: this) => Promise<R>, options: QueryOptions = {}): Promise<R> {
+        if (this.getTransaction()) {
+            return callback(this);
+        }
+
+        const transaction = new Transaction(this.db);
+        let result: R;
+        try {
+            result = await callback(this.withDatabase(transaction));
+        } catch (error) {
+            transaction.rollback();
+            throw error;
+        }
+
+        await transaction.commit(options);
+        return result;
+    }
+
+    /**
+     * Separate nested writes (`{ posts: { create: [...] } }`) from column data
+     */
+    private splitNestedWrites(data: Record<string, any>): { columns: Record<string, any>; writes: Array<[Relationship, NestedWrite]> } {
+        const columns: Record<string, any> = {};
+        const writes: Array<[Relationship, NestedWrite]> = [];
+
+        for (const [key, value] of Object.entries(data)) {
+            const relation = this.relationships.get(key);
+            if (relation && !(key in this.schema.fields) && isNestedWrite(value)) {
+                const unsupported = Object.keys(value).filter(operation => !NESTED_WRITE_SUPPORT[relation.type].includes(operation as keyof NestedWrite));
+                if (unsupported.length > 0) {
+                    throw new Error(`'${unsupported.join("', '")}' is not supported on ${relation.type} relationship '${relation.name}'`);
+                }
+                writes.push([relation, value]);
+            } else {
+                columns[key] = value;
+            }
+        }
+
+        return { columns, writes };
+    }
+
+    private async createWithRelations(data: Record<string, any>, writes: Array<[Relationship, NestedWrite]>, options: QueryOptions): Promise<T> {
+        // A belongsTo foreign key lives on this record, so it is resolved before the insert
+        const columns = { ...data, ...await this.resolveForeignKeys(writes, options) };
+        const record = await this.create(columns as C, options);
+
+        for (const [relation, write] of writes) {
+            if (relation.type !== 'belongsTo') {
+                await this.writeRelated(relation, record[relation.sourceKey], write, options);
+            }
+        }
+
+        return record;
+    }
+
+    /**
+     * The result of the column update, filled in on commit; when only relationships
+     * change, no row is updated and `results` holds the matched records
+     */
+    private async updateWithRelations(data: Record<string, any>, where: Record<string, any>, writes: Array<[Relationship, NestedWrite]>, options: QueryOptions): Promise<QueryResult<T>> {
+        const parents = await this.findAll({ where, ...options });
+        const columns = { ...data, ...await this.resolveForeignKeys(writes, options) };
+
+        const result: QueryResult<T> = Object.keys(columns).length > 0
+            ? await this.update(columns as U, where, options)
+            : { results: parents, success: true, meta: { changes: 0 } };
+
+        for (const parent of parents) {
+            for (const [relation, write] of writes) {
+                if (relation.type !== 'belongsTo') {
+                    await this.writeRelated(relation, parent[relation.sourceKey], write, options);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Foreign key values set by belongsTo writes
+     */
+    private async resolveForeignKeys(writes: Array<[Relationship, NestedWrite]>, options: QueryOptions): Promise<Record<string, any>> {
+        const columns: Record<string, any> = {};
+
+        for (const [relation, write] of writes) {
+            if (relation.type !== 'belongsTo') {
+                continue;
+            }
+            const target = relation.target.withDatabase(this.db);
+
+            if (write.disconnect) {
+                columns[relation.foreignKey] = null;
+            }
+            if (write.connect) {
+                columns[relation.foreignKey] = await target.resolveKey(relation.targetKey, single(relation, write.connect), options);
+            }
+            if (write.create) {
+                const created = await target.create(single(relation, write.create), options);
+                columns[relation.foreignKey] = created[relation.targetKey];
+            }
+        }
+
+        return columns;
+    }
+
+    /**
+     * Apply a hasOne/hasMany/belongsToMany write for one parent: set and disconnect first, then connect, then create
+     */
+    private async writeRelated(relation: Relationship, parentKey: any, write: NestedWrite, options: QueryOptions): Promise<void> {
+        const target = relation.target.withDatabase(this.db);
+
+        if (relation.type === 'belongsToMany') {
+            await this.writeJoinTable(relation, target, parentKey, write, options);
+            return;
+        }
+
+        const foreignKey = relation.foreignKey;
+        if (relation.type === 'hasOne') {
+            single(relation, write.connect);
+            single(relation, write.create);
+        }
+
+        if (write.set) {
+            await target.update({ [foreignKey]: null }, { [foreignKey]: parentKey }, options);
+            for (const selector of write.set) {
+                await target.update({ [foreignKey]: parentKey }, selector, options);
+            }
+        }
+        if (write.disconnect) {
+            const selectors = write.disconnect === true ? [{}] : toArray(write.disconnect);
+            for (const selector of selectors) {
+                await target.update({ [foreignKey]: null }, { ...selector, [foreignKey]: parentKey }, options);
+            }
+        }
+        for (const selector of toArray(write.connect)) {
+            await target.update({ [foreignKey]: parentKey }, selector, options);
+        }
+        for (const item of toArray(write.create)) {
+            await target.create({ ...item, [foreignKey]: parentKey }, options);
+        }
+    }
+
+    private async writeJoinTable(relation: Relationship, target: CrudOperations<any>, parentKey: any, write: NestedWrite, options: QueryOptions): Promise<void> {
+        const through = relation.through!;
+        const otherKey = relation.otherKey!;
+        const unlink = async (targetKeys?: any[]) => {
+            const query = new QueryBuilder(through).where(relation.foreignKey, '=', parentKey);
+            if (targetKeys) {
+                query.whereIn(otherKey, targetKeys);
+            }
+            const { sql, params } = query.buildDelete();
+            await this.executeQuery(sql, params, options);
+        };
+        const link = async (targetKey: any) => {
+            // Connecting an already linked row is a no-op
+            const [table, foreignKey, other] = [through, relation.foreignKey, otherKey].map(name => quoteIdentifier(name));
+            const sql = `INSERT INTO ${table} (${foreignKey}, ${other}) SELECT ?, ? ` +
+                `WHERE NOT EXISTS (SELECT 1 FROM ${table} WHERE ${foreignKey} = ? AND ${other} = ?)`;
+            await this.executeQuery(sql, [parentKey, targetKey, parentKey, targetKey], options);
+        };
+
+        if (write.set) {
+            await unlink();
+        }
+        if (write.disconnect) {
+            if (write.disconnect === true) {
+                await unlink();
+            } else {
+                const keys: any[] = [];
+                for (const selector of toArray(write.disconnect)) {
+                    keys.push(await target.resolveKey(relation.targetKey, selector, options));
+                }
+                await unlink(keys);
+            }
+        }
+        for (const selector of [...(write.set ?? []), ...toArray(write.connect)]) {
+            await link(await target.resolveKey(relation.targetKey, selector, options));
+        }
+        for (const item of toArray(write.create)) {
+            const created = await target.create(item, options);
+            await link(created[relation.targetKey]);
+        }
+    }
+
+    /**
+     * Value of `keyField` for the row matched by `selector`, read only when the selector lacks it
+     */
+    protected async resolveKey(keyField: string, selector: RelationSelector, options: QueryOptions = {}): Promise<any> {
+        if (selector[keyField] !== undefined) {
+            return selector[keyField];
+        }
+
+        const row: Record<string, any> | null = await this.findOne({ where: selector, select: [keyField], ...options });
+        if (!row) {
+            throw new Error(`No '${this.tableName}' record matches ${JSON.stringify(selector)}`);
+        }
+        return row[keyField];
+    }
+
+    /**
+     * Placeholder for a key SQLite assigns on a pending insert: the rowid primary key
+     * (see Schema.rowIdField) when `row` does not supply it
+     */
+    protected pendingKey(row: Record<string, any>, ref: TransactionRef): Record<string, any> {
+        const field = this.schema.rowIdField;
+        if (field === undefined || row[field] !== undefined) {
+            return {};
+        }
+        return { [field]: ref };
+    }
+
     /**
      * Prepare data for INSERT
      */
-    protected prepareDataForInsert(data: Partial<T>): Record<string, any> {
+    protected prepareDataForInsert(data: Record<string, any>): Record<string, any> {
         const prepared: Record<string, any> = {};
 
         // Copy data, but exclude auto-increment fields
@@ -386,13 +800,18 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
             }
         }
 
+        // Generate keys that were not supplied
+        for (const [fieldName, fieldDef] of Object.entries(this.schema.fields)) {
+            if (fieldDef.generate && prepared[fieldName] === undefined) {
+                prepared[fieldName] = generateKey(fieldDef.generate);
+            }
+        }
+
         // Add default values for non-auto-increment fields
         for (const [fieldName, fieldDef] of Object.entries(this.schema.fields)) {
             if (!fieldDef.autoIncrement && prepared[fieldName] === undefined && fieldDef.default !== undefined) {
                 if (typeof fieldDef.default === 'function') {
-                    const defaultValue = fieldDef.default();
-                    // Convert Date objects to ISO strings for database
-                    prepared[fieldName] = defaultValue instanceof Date ? defaultValue.toISOString() : defaultValue;
+                    prepared[fieldName] = fieldDef.default();
                 } else {
                     prepared[fieldName] = fieldDef.default;
                 }
@@ -402,67 +821,51 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
         // Handle potential schema mismatches: provide fallback defaults for optional fields
         // that might still be required in the database schema
         for (const [fieldName, fieldDef] of Object.entries(this.schema.fields)) {
-            if (!fieldDef.autoIncrement && !fieldDef.required && prepared[fieldName] === undefined) {
-                // Provide type-appropriate default values for optional fields
+            if (!fieldDef.autoIncrement && !fieldDef.primaryKey && !fieldDef.required && prepared[fieldName] === undefined) {
+                // Provide the field type's fallback value for optional fields
                 // This helps when ORM schema is relaxed but DB schema still has NOT NULL constraints
-                const fallbackDefaults: Record<string, any> = {
-                    string: '',
-                    number: 0,
-                    boolean: false,
-                    date: new Date().toISOString(),
-                    text: '',
-                    json: null
-                };
+                const fallback = getFieldType(fieldDef.type)?.fallback;
+
+                // A placeholder is never a valid reference, and would collide with itself in a unique column
+                const placeholderFits = !fieldDef.unique && !fieldDef.checkUnique && !fieldDef.references && !fieldDef.exists;
 
                 // Only add fallback if no explicit default was set
-                if (fieldDef.default === undefined && fallbackDefaults[fieldDef.type] !== undefined) {
-                    prepared[fieldName] = fallbackDefaults[fieldDef.type];
+                if (fieldDef.default === undefined && fallback && placeholderFits) {
+                    prepared[fieldName] = fallback(fieldDef);
                 }
             }
         }
 
         // Handle timestamps
         if (this.schema.options.timestamps) {
-            const now = new Date().toISOString();
-            if (!prepared.created_at) {
-                prepared.created_at = now;
-            }
-            if (!prepared.updated_at) {
-                prepared.updated_at = now;
-            }
-        }
-
-        // Convert any Date objects to ISO strings
-        for (const [key, value] of Object.entries(prepared)) {
-            if (value instanceof Date) {
-                prepared[key] = value.toISOString();
+            const now = new Date();
+            for (const name of [this.schema.timestampField('createdAt'), this.schema.timestampField('updatedAt')]) {
+                if (!prepared[name]) {
+                    prepared[name] = now;
+                }
             }
         }
 
+        // Values stay JavaScript values here; they are encoded for storage when the statement is built
         return prepared;
     }
 
     /**
      * Prepare data for UPDATE
      */
-    protected prepareDataForUpdate(data: Partial<T>): Record<string, any> {
+    protected prepareDataForUpdate(data: Record<string, any>): Record<string, any> {
         const prepared: Record<string, any> = { ...data };
 
         // Handle timestamps
         if (this.schema.options.timestamps) {
-            prepared.updated_at = new Date().toISOString();
-        }
-
-        // Convert any Date objects to ISO strings
-        for (const [key, value] of Object.entries(prepared)) {
-            if (value instanceof Date) {
-                prepared[key] = value.toISOString();
-            }
+            prepared[this.schema.timestampField('updatedAt')] = new Date();
         }
 
         // Remove fields that shouldn't be updated
-        delete prepared.id;
-        delete prepared.created_at;
+        for (const column of this.schema.primaryKey) {
+            delete prepared[column];
+        }
+        delete prepared[this.schema.timestampField('createdAt')];
 
         return prepared;
     }
@@ -470,83 +873,118 @@ export class CrudOperations<T extends Record<string, any> = any> extends BaseMod
     /**
      * Validate data for update (only validates fields being updated)
      */
-    protected validateUpdateData(data: Record<string, any>): { isValid: boolean; errors: string[] } {
-        const errors: string[] = [];
-
-        for (const [fieldName, value] of Object.entries(data)) {
-            if (value === undefined) continue;
-
-            const fieldDef = this.schema.fields[fieldName];
-            if (!fieldDef) continue; // Field not in schema, skip
+    protected validateUpdateData(data: Record<string, any>): ValidationResult {
+        return this.schema.validate(data, { partial: true });
+    }
 
-            // Type validation
-            if (!this.validateFieldType(value, fieldDef.type)) {
-                errors.push(`Field '${fieldName}' must be of type ${fieldDef.type}`);
+    /**
+     * Run the synchronous rules, then the database-aware ones (checkUnique, exists,
+     * validateAsync) for fields that passed, then the schema-level validators.
+     * Throws a ValidationError listing every issue.
+     */
+    protected async validateForWrite(data: Record<string, any>, operation: 'create' | 'update', where?: Record<string, any>): Promise<void> {
+        const validation = operation === 'update' ? this.validateUpdateData(data) : this.schema.validate(data);
+        const issues = [...validation.issues];
+        const failed = new Set(issues.map(issue => issue.field));
+        const context: ValidationContext = { db: this.db, tableName: this.tableName, operation, data, where };
+
+        for (const [field, fieldDef] of Object.entries(this.schema.fields)) {
+            const value = data[field];
+            if (failed.has(field) || value === undefined || value === null || value instanceof TransactionRef) {
                 continue;
             }
 
-            // String length validation
-            if (fieldDef.type === 'string' && typeof value === 'string') {
-                if (fieldDef.maxLength && value.length > fieldDef.maxLength) {
-                    errors.push(`Field '${fieldName}' exceeds maximum length of ${fieldDef.maxLength}`);
-                }
-                if (fieldDef.minLength && value.length < fieldDef.minLength) {
-                    errors.push(`Field '${fieldName}' is below minimum length of ${fieldDef.minLength}`);
-                }
+            if (fieldDef.checkUnique && await this.isValueTaken(field, value, where)) {
+                issues.push(this.schema.createIssue(field, 'unique', value));
             }
 
-            // Number range validation
-            if (fieldDef.type === 'number' && typeof value === 'number') {
-                if (fieldDef.max && value > fieldDef.max) {
-                    errors.push(`Field '${fieldName}' exceeds maximum value of ${fieldDef.max}`);
-                }
-                if (fieldDef.min && value < fieldDef.min) {
-                    errors.push(`Field '${fieldName}' is below minimum value of ${fieldDef.min}`);
+            if (fieldDef.exists) {
+                const { table, field: column = 'id' } = fieldDef.exists;
+                const { sql, params } = new QueryBuilder(table).where(column, '=', value).buildCount();
+                const result = await this.executeQuery(sql, params);
+                if (!result.results[0]?.count) {
+                    issues.push(this.schema.createIssue(field, 'exists', value, { table, column }));
                 }
             }
 
-            // Enum validation
-            if (fieldDef.enum && fieldDef.enum.length > 0) {
-                const enumValues = fieldDef.enum as (string | number)[];
-                if (!enumValues.includes(value)) {
-                    errors.push(`Field '${fieldName}' must be one of: ${enumValues.join(', ')}`);
+            if (fieldDef.validateAsync) {
+                const result = await fieldDef.validateAsync(value, context);
+                if (result !== true) {
+                    issues.push(this.schema.createIssue(field, 'custom', value, {}, typeof result === 'string' ? result : undefined));
                 }
             }
+        }
 
-            // Custom validation
-            if (fieldDef.validate) {
-                const validationResult = fieldDef.validate(value);
-                if (validationResult !== true) {
-                    errors.push(typeof validationResult === 'string' ? validationResult : `Field '${fieldName}' is invalid`);
+        // Cross-field validators only see records whose fields are individually valid
+        if (issues.length === 0) {
+            for (const validator of this.schema.options.validators || []) {
+                const result = await validator.validate(data, context);
+                if (result !== true) {
+                    const field = validator.field ?? '*';
+                    const message = typeof result === 'string' ? result : validator.message;
+                    issues.push(this.schema.createIssue(field, 'record', data[field], {}, message));
                 }
             }
         }
 
-        return {
-            isValid: errors.length === 0,
-            errors
-        };
+        if (issues.length > 0) {
+            throw new ValidationError(issues, { tableName: this.tableName });
+        }
     }
 
     /**
-     * Validate field type
+     * Whether another row already holds `value`; on update, rows targeted by `where` don't count
      */
-    private validateFieldType(value: any, type: string): boolean {
-        switch (type) {
-            case 'string':
-                return typeof value === 'string';
-            case 'number':
-                return typeof value === 'number' && !isNaN(value);
-            case 'boolean':
-                return typeof value === 'boolean';
-            case 'date':
-                return value instanceof Date || typeof value === 'string';
-            case 'text':
-                return typeof value === 'string';
-            case 'json':
-                return true; // Any value can be JSON
-            default:
-                return true;
+    private async isValueTaken(field: string, value: any, where?: Record<string, any>): Promise<boolean> {
+        const countMatching = async (conditions?: Record<string, any>): Promise<number> => {
+            const query = this.query().where(field, '=', this.schema.encode(field, value));
+            if (conditions) {
+                this.addWhereConditions(query, conditions);
+            }
+            const { sql, params } = query.buildCount();
+            const result = await this.executeQuery(sql, params);
+            return result.results[0]?.count || 0;
+        };
+
+        const total = await countMatching();
+        if (total === 0 || !where) {
+            return total > 0;
         }
+        return total > await countMatching(where);
+    }
+}
+
+function toArray<V>(value: V | V[] | undefined): V[] {
+    if (value === undefined) {
+        return [];
+    }
+    return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * belongsTo and hasOne writes take a single record or selector
+ */
+function single<V>(relation: Relationship, value: V | V[]): V {
+    if (Array.isArray(value)) {
+        throw new Error(`${relation.type} relationship '${relation.name}' accepts a single record, not an array`);
+    }
+    return value;
+}
+
+function chunk<V>(values: V[], size: number): V[][] {
+    const chunks: V[][] = [];
+    for (let i = 0; i < values.length; i += size) {
+        chunks.push(values.slice(i, i + size));
+    }
+    return chunks;
+}
+
+function groupBy<V>(values: V[], key: (value: V) => any): Map<any, V[]> {
+    const groups = new Map<any, V[]>();
+    for (const value of values) {
+        const list = groups.get(key(value)) ?? [];
+        list.push(value);
+        groups.set(key(value), list);
     }
+    return groups;
 }
@@ -5,6 +5,8 @@
 import { BaseModel } from './BaseModel.js';
 import { DatabaseService } from '../../classes/DatabaseService.js';
 import { Schema } from '../Schema.js';
+import { ValidationIssue } from '../../errors.js';
+import { quoteIdentifier } from '../../utils/sql.js';
 
 export class DebugOperations<T extends Record<string, any> = any> extends BaseModel<T> {
     constructor(db: DatabaseService, schema: Schema, tableName: string) {
@@ -37,12 +39,12 @@ export class DebugOperations<T extends Record<string, any> = any> extends BaseMo
     }> {
         try {
             // Get basic counts using direct SQL since we can't access other classes
-            const countResult = await this.executeQuery(`SELECT COUNT(*) as total FROM ${this.tableName}`);
+            const countResult = await this.executeQuery(`SELECT COUNT(*) as total FROM ${quoteIdentifier(this.tableName)}`);
             const recordCount = countResult.results?.[0]?.total || 0;
 
             // Get a sample record
-            const sampleResult = await this.executeQuery(`SELECT * FROM ${this.tableName} LIMIT 1`);
-            const sampleRecord = sampleResult.results?.[0] as T || null;
+            const sampleResult = await this.executeQuery(`SELECT * FROM ${quoteIdentifier(this.tableName)} LIMIT 1`);
+            const sampleRecord = (this.decodeRows(sampleResult.results ?? [])[0] ?? null) as T | null;
 
             const schemaFields = Object.keys(this.schema.fields);
             const suggestions: string[] = [];
@@ -72,7 +74,7 @@ export class DebugOperations<T extends Record<string, any> = any> extends BaseMo
 
             // Check for missing timestamps
             if (!this.schema.options.timestamps && sampleRecord) {
-                if (!sampleRecord.created_at && !sampleRecord.updated_at) {
+                if (!sampleRecord[this.schema.timestampField('createdAt')] && !sampleRecord[this.schema.timestampField('updatedAt')]) {
                     suggestions.push('Consider enabling timestamps for audit trail');
                 }
             }
@@ -132,7 +134,7 @@ export class DebugOperations<T extends Record<string, any> = any> extends BaseMo
      */
     public async getTableInfo(): Promise<any> {
         try {
-            const result = await this.executeQuery(`PRAGMA table_info(${this.tableName})`);
+            const result = await this.executeQuery(`PRAGMA table_info(${quoteIdentifier(this.tableName)})`);
             return {
                 tableName: this.tableName,
                 columns: result.results || [],
@@ -149,20 +151,12 @@ export class DebugOperations<T extends Record<string, any> = any> extends BaseMo
     public validateData(data: Partial<T>): {
         isValid: boolean;
         errors: string[];
+        issues: ValidationIssue[];
         warnings: string[];
     } {
-        const errors: string[] = [];
+        const { isValid, errors, issues } = this.schema.validate(data);
         const warnings: string[] = [];
 
-        // Check required fields
-        for (const [fieldName, fieldDef] of Object.entries(this.schema.fields)) {
-            if (fieldDef.required && !fieldDef.autoIncrement) {
-                if (data[fieldName as keyof T] === undefined || data[fieldName as keyof T] === null) {
-                    errors.push(`Required field '${fieldName}' is missing`);
-                }
-            }
-        }
-
         // Check for unknown fields
         for (const key of Object.keys(data)) {
             if (!this.schema.fields[key]) {
@@ -171,8 +165,9 @@ export class DebugOperations<T extends Record<string, any> = any> extends BaseMo
         }
 
         return {
-            isValid: errors.length === 0,
+            isValid,
             errors,
+            issues,
             warnings
         };
     }
@@ -186,8 +181,9 @@ export class DebugOperations<T extends Record<string, any> = any> extends BaseMo
         // Add timestamps if enabled
         if (this.schema.options.timestamps) {
             const now = new Date();
-            if (!prepared.created_at) prepared.created_at = now;
-            if (!prepared.updated_at) prepared.updated_at = now;
+            const [createdAt, updatedAt] = [this.schema.timestampField('createdAt'), this.schema.timestampField('updatedAt')];
+            if (!prepared[createdAt]) prepared[createdAt] = now;
+            if (!prepared[updatedAt]) prepared[updatedAt] = now;
         }
 
         // Convert undefined to null
@@ -4,12 +4,33 @@
  */
 
 import { CrudOperations } from './CrudOperations.js';
+import { PrimaryKeyValue } from './BaseModel.js';
+import { Raw, excluded } from '../QueryBuilder.js';
+import { UniqueConstraintError, ValidationError } from '../../errors.js';
+import { QueryOptions } from '../../types/database.js';
+import { quoteIdentifier } from '../../utils/sql.js';
 
-export class UpsertOperations<T extends Record<string, any> = any> extends CrudOperations<T> {
+export interface UpsertOptions extends QueryOptions {
+    conflictTarget: string[]; // Fields of the primary key or UNIQUE constraint the insert may collide with
+    update?: string[] | Record<string, any>; // Fields copied from the inserted row, or values and raw() expressions (see excluded())
+}
+
+/**
+ * Changes a Prisma-style upsert applies to an existing row: values, or raw() expressions
+ */
+export type UpsertUpdate<U> = { [K in keyof U]?: U[K] | Raw };
+
+export interface UpsertResult<T> {
+    record: T;
+    created: boolean;
+    updated: boolean;
+}
+
+export class UpsertOperations<T extends Record<string, any> = any, C extends Record<string, any> = Partial<T>, U extends Record<string, any> = Partial<T>> extends CrudOperations<T, C, U> {
     /**
      * Create a new record only if it doesn't already exist based on specified fields
      */
-    async createIfNotExists(data: Partial<T>, uniqueFields: (keyof T)[]): Promise<{ record: T; created: boolean }> {
+    async createIfNotExists(data: C, uniqueFields: (keyof C & keyof T)[]): Promise<{ record: T; created: boolean }> {
         // Build where condition for unique fields
         const whereConditions: any = {};
         for (const field of uniqueFields) {
@@ -31,7 +52,7 @@ export class UpsertOperations<T extends Record<string, any> = any> extends CrudO
             return { record: newRecord, created: true };
         } catch (error) {
             // If creation fails due to unique constraint (race condition), try to find the existing record
-            if (error instanceof Error && error.message.toLowerCase().includes('duplicate')) {
+            if (error instanceof UniqueConstraintError) {
                 const existingRecord = await this.findOne({ where: whereConditions });
                 if (existingRecord) {
                     return { record: existingRecord, created: false };
@@ -44,10 +65,17 @@ export class UpsertOperations<T extends Record<string, any> = any> extends CrudO
     /**
      * Upsert (Update or Insert) - Updates if record exists, creates if it doesn't
      * @param data - The data to insert or update
-     * @param uniqueFields - Fields that determine uniqueness (used to check if record exists)
+     * @param uniqueFields - Fields that determine uniqueness; they must form the primary key or a UNIQUE constraint
      * @returns Object with the record and whether it was created or updated
      */
-    async upsert(data: Partial<T>, uniqueFields: (keyof T)[]): Promise<{ record: T; created: boolean; updated: boolean }>;
+    async upsert(data: C & U, uniqueFields: (keyof C & keyof T)[]): Promise<UpsertResult<T>>;
+
+    /**
+     * Upsert with an explicit conflict target and update columns
+     * @param data - The record to insert
+     * @param options - `conflictTarget` and the `update` applied when the row exists
+     */
+    async upsert(data: C, options: UpsertOptions): Promise<UpsertResult<T>>;
 
     /**
      * Upsert (Update or Insert) - Prisma-style with where/create/update
@@ -56,108 +84,51 @@ export class UpsertOperations<T extends Record<string, any> = any> extends CrudO
      */
     async upsert(options: {
         where: Record<string, any>;
-        create: Partial<T>;
-        update: Partial<T>;
-    }): Promise<{ record: T; created: boolean; updated: boolean }>;
+        create: C;
+        update: UpsertUpdate<U>;
+    }, queryOptions?: QueryOptions): Promise<UpsertResult<T>>;
 
     async upsert(
-        dataOrOptions: Partial<T> | { where: Record<string, any>; create: Partial<T>; update: Partial<T> },
-        uniqueFields?: (keyof T)[]
-    ): Promise<{ record: T; created: boolean; updated: boolean }> {
+        dataOrOptions: (C & U) | C | { where: Record<string, any>; create: C; update: UpsertUpdate<U> },
+        targetOrOptions?: (keyof C & keyof T)[] | UpsertOptions | QueryOptions
+    ): Promise<UpsertResult<T>> {
+        let data: Record<string, any>;
+        let conflictTarget: string[];
+        let update: UpsertOptions['update'];
+        let options: QueryOptions = {};
+        let prismaStyle = false;
+
         // Check if using Prisma-style syntax
         if (dataOrOptions && typeof dataOrOptions === 'object' && 'where' in dataOrOptions && 'create' in dataOrOptions && 'update' in dataOrOptions) {
-            const options = dataOrOptions as { where: Record<string, any>; create: Partial<T>; update: Partial<T> };
-            const { where, create, update } = options;
-
-            // Check if record already exists
-            const existingRecord = await this.findOne({ where });
-
-            if (existingRecord) {
-                // Record exists - update it
-                const updatedRecord = await this.updateById(existingRecord.id, update);
-                return {
-                    record: updatedRecord || existingRecord,
-                    created: false,
-                    updated: true
-                };
-            } else {
-                // Record doesn't exist - create it
-                try {
-                    const newRecord = await this.create(create);
-                    return {
-                        record: newRecord,
-                        created: true,
-                        updated: false
-                    };
-                } catch (error) {
-                    // Handle race condition where record was created between our check and insert
-                    if (error instanceof Error && error.message.toLowerCase().includes('duplicate')) {
-                        const existingRecord = await this.findOne({ where });
-                        if (existingRecord) {
-                            const updatedRecord = await this.updateById(existingRecord.id, update);
-                            return {
-                                record: updatedRecord || existingRecord,
-                                created: false,
-                                updated: true
-                            };
-                        }
-                    }
-                    throw error;
-                }
-            }
+            const { where, create, update: changes } = dataOrOptions as { where: Record<string, any>; create: C; update: UpsertUpdate<U> };
+            data = { ...where, ...create };
+            conflictTarget = Object.keys(where);
+            update = { ...changes };
+            options = (targetOrOptions ?? {}) as QueryOptions;
+            prismaStyle = true;
+        } else if (Array.isArray(targetOrOptions)) {
+            data = dataOrOptions;
+            conflictTarget = targetOrOptions.map(field => String(field));
+        } else if (targetOrOptions && 'conflictTarget' in targetOrOptions) {
+            data = dataOrOptions;
+            ({ conflictTarget, update } = targetOrOptions);
+            options = this.queryOptions(targetOrOptions);
         } else {
-            // Original syntax - data and uniqueFields
-            if (!uniqueFields) {
-                throw new Error('uniqueFields parameter is required when using data/uniqueFields syntax');
-            }
+            throw new Error('uniqueFields parameter is required when using data/uniqueFields syntax');
+        }
 
-            const data = dataOrOptions as Partial<T>;
+        await this.runBeforeHooks(data, conflictTarget, update, options);
+        if (prismaStyle) {
+            update = this.prepareDataForUpdate(update as Record<string, any>);
+        }
 
-            // Build where condition for unique fields
-            const whereConditions: any = {};
-            for (const field of uniqueFields) {
-                if (data[field] !== undefined) {
-                    whereConditions[field] = data[field];
-                }
-            }
+        const prepared = this.prepareDataForInsert(data);
+        this.assertColumns([...Object.keys(prepared), ...conflictTarget]);
+        await this.validateForWrite(prepared, 'create', this.conflictKey(prepared, conflictTarget));
 
-            // Check if record already exists
-            const existingRecord = await this.findOne({ where: whereConditions });
-
-            if (existingRecord) {
-                // Record exists - update it
-                const updatedRecord = await this.updateById(existingRecord.id, data);
-                return {
-                    record: updatedRecord || existingRecord,
-                    created: false,
-                    updated: true
-                };
-            } else {
-                // Record doesn't exist - create it
-                try {
-                    const newRecord = await this.create(data);
-                    return {
-                        record: newRecord,
-                        created: true,
-                        updated: false
-                    };
-                } catch (error) {
-                    // Handle race condition where record was created between our check and insert
-                    if (error instanceof Error && error.message.toLowerCase().includes('duplicate')) {
-                        const existingRecord = await this.findOne({ where: whereConditions });
-                        if (existingRecord) {
-                            const updatedRecord = await this.updateById(existingRecord.id, data);
-                            return {
-                                record: updatedRecord || existingRecord,
-                                created: false,
-                                updated: true
-                            };
-                        }
-                    }
-                    throw error;
-                }
-            }
-        }
+        const set = this.conflictUpdate(conflictTarget, update, Object.keys(data));
+        const [result] = await this.upsertRows([prepared], conflictTarget, set, options);
+        return { record: result.record, created: result.created, updated: !result.created && set !== null };
     }
 
     /**
@@ -167,8 +138,8 @@ export class UpsertOperations<T extends Record<string, any> = any> extends CrudO
      * @param data - The data to insert or update
      * @returns Object with the record and whether it was created or updated
      */
-    async upsertById(id: number | string, data: Partial<T>): Promise<{ record: T; created: boolean; updated: boolean }> {
-        const existingRecord = await this.findById(id);
+    async upsertById(id: PrimaryKeyValue, data: U): Promise<{ record: T; created: boolean; updated: boolean }> {
+        const existingRecord = await this.findByPk(id);
 
         if (existingRecord) {
             // Record exists - update it
@@ -180,7 +151,7 @@ export class UpsertOperations<T extends Record<string, any> = any> extends CrudO
             };
         } else {
             // Record doesn't exist - create it with the specified ID
-            const dataWithId = { ...data, id } as Partial<T>;
+            const dataWithId = { ...data, ...this.primaryKeyWhere(id) } as unknown as C;
             const newRecord = await this.create(dataWithId);
             return {
                 record: newRecord,
@@ -189,4 +160,201 @@ export class UpsertOperations<T extends Record<string, any> = any> extends CrudO
             };
         }
     }
+
+    /**
+     * Run beforeCreate or beforeUpdate for a row about to be upserted, as create() or
+     * update() would. Which one applies is decided by looking the conflict key up,
+     * which only happens when one of these hooks is registered. beforeUpdate receives
+     * the explicit `update` values when given, the row otherwise.
+     */
+    protected async runBeforeHooks(
+        data: Record<string, any>,
+        conflictTarget: string[],
+        update: UpsertOptions['update'],
+        options: QueryOptions = {}
+    ): Promise<void> {
+        const { beforeCreate, beforeUpdate } = this.hooks;
+        if (!beforeCreate && !beforeUpdate) {
+            return;
+        }
+
+        // A row missing part of its key (e.g. a key generated on insert) can only be new
+        const complete = conflictTarget.length > 0 && conflictTarget.every(column => data[column] !== undefined && data[column] !== null);
+        const key = complete ? this.conflictKey(data, conflictTarget) : null;
+
+        if (key && await this.count(key, options) > 0) {
+            if (beforeUpdate) {
+                await beforeUpdate((update && !Array.isArray(update) ? update : data) as Partial<T>, key);
+            }
+        } else if (beforeCreate) {
+            await beforeCreate(data as Partial<T>);
+        }
+    }
+
+    /**
+     * Values of the conflict target columns, which every upserted row must supply
+     */
+    protected conflictKey(row: Record<string, any>, conflictTarget: string[]): Record<string, any> {
+        if (conflictTarget.length === 0) {
+            throw new Error('Upsert needs at least one conflict target column');
+        }
+        const key: Record<string, any> = {};
+        for (const column of conflictTarget) {
+            if (row[column] === undefined || row[column] === null) {
+                throw new Error(`Upsert conflict column '${column}' is missing from the data`);
+            }
+            key[column] = row[column];
+        }
+        return key;
+    }
+
+    /**
+     * The `DO UPDATE SET` assignments, or null for `DO NOTHING`. Without an explicit
+     * `update`, the supplied columns outside the conflict target, the primary key and
+     * createdAt are copied from the inserted row; the updatedAt timestamp is refreshed
+     * when timestamps are enabled.
+     */
+    protected conflictUpdate(conflictTarget: string[], update: UpsertOptions['update'], supplied: string[]): Raw | null {
+        const assignments: string[] = [];
+        const params: any[] = [];
+        const assigned = new Set<string>();
+        const updatedAt = this.schema.timestampField('updatedAt');
+
+        const copy = (column: string) => {
+            assignments.push(`${this.column(column)} = ${excluded(this.schema.columnName(column)).sql}`);
+            assigned.add(column);
+        };
+
+        if (update === undefined || Array.isArray(update)) {
+            // Existing rows keep their key, which other rows may reference
+            const kept = new Set([...conflictTarget, ...this.schema.primaryKey, this.schema.timestampField('createdAt')]);
+            const columns = update ?? supplied.filter(column => !kept.has(column));
+            this.assertColumns(columns);
+            columns.forEach(copy);
+        } else {
+            const issues = this.validateUpdateData(
+                Object.fromEntries(Object.entries(update).filter(([, value]) => !(value instanceof Raw)))
+            ).issues;
+            if (issues.length > 0) {
+                throw new ValidationError(issues, { tableName: this.tableName });
+            }
+
+            this.assertColumns(Object.keys(update));
+            for (const [column, value] of Object.entries(update)) {
+                if (value === undefined) {
+                    continue;
+                }
+                if (value instanceof Raw) {
+                    assignments.push(`${this.column(column)} = ${value.sql}`);
+                    params.push(...value.params);
+                } else {
+                    assignments.push(`${this.column(column)} = ?`);
+                    params.push(this.schema.encode(column, value));
+                }
+                assigned.add(column);
+            }
+        }
+
+        if (assignments.length === 0) {
+            return null;
+        }
+        if (this.schema.options.timestamps && !assigned.has(updatedAt)) {
+            copy(updatedAt);
+        }
+        return new Raw(assignments.join(', '), params);
+    }
+
+    /**
+     * Insert prepared rows with `INSERT ... ON CONFLICT (target) DO UPDATE SET ... RETURNING *`.
+     * A lookup of the keys that already exist runs in the same batch, so each returned
+     * row is known to be created or updated without another round trip.
+     */
+    protected async upsertRows(
+        rows: Record<string, any>[],
+        conflictTarget: string[],
+        set: Raw | null,
+        options: QueryOptions = {}
+    ): Promise<Array<{ record: T; created: boolean }>> {
+        // Keys are compared in their stored form: the lookup and RETURNING rows are read undecoded
+        const stored = rows.map(row => this.schema.encodeRow(row));
+        const columns = Object.keys(rows[0]);
+        const placeholders = `(${columns.map(() => '?').join(', ')})`;
+        const action = set ? `DO UPDATE SET ${set.sql}` : 'DO NOTHING';
+        const upsert = {
+            sql: `INSERT INTO ${quoteIdentifier(this.tableName)} (${columns.map(column => this.column(column)).join(', ')}) `
+                + `VALUES ${rows.map(() => placeholders).join(', ')} `
+                + `ON CONFLICT (${conflictTarget.map(column => this.column(column)).join(', ')}) ${action} RETURNING *`,
+            params: [...stored.flatMap(row => columns.map(column => row[column])), ...(set?.params ?? [])]
+        };
+
+        // Rows read back are keyed by column, the data written by property
+        const targetColumns = conflictTarget.map(column => this.schema.columnName(column));
+        const keyOf = (row: Record<string, any>) => JSON.stringify(targetColumns.map(column => row[column]));
+        const dataKeyOf = (row: Record<string, any>) => JSON.stringify(conflictTarget.map(column => row[column]));
+        const lookup = this.query().select(...new Set([...this.schema.primaryKey, ...conflictTarget]));
+        if (conflictTarget.length === 1) {
+            lookup.whereIn(conflictTarget[0], stored.map(row => row[conflictTarget[0]]));
+        } else {
+            const tuple = `(${conflictTarget.map(() => '?').join(', ')})`;
+            lookup.whereRaw(
+                `(${conflictTarget.map(column => this.column(column)).join(', ')}) IN (VALUES ${rows.map(() => tuple).join(', ')})`,
+                stored.flatMap(row => conflictTarget.map(column => row[column]))
+            );
+        }
+        const existingQuery = lookup.build();
+
+        // Inside a transaction the lookup reads committed data now; the write joins the batch
+        const transaction = this.getTransaction();
+        if (transaction) {
+            const existing = await this.executeQuery(existingQuery.sql, existingQuery.params, options);
+            const existingRows = new Map(existing.results.map(row => [keyOf(row), row]));
+            const ref = transaction.enqueue(upsert.sql, upsert.params);
+
+            return rows.map((row, index) => {
+                const key = dataKeyOf(stored[index]);
+                const match = existingRows.get(key);
+                const created = !match;
+                // Each created row gets its own reference, found by its conflict key
+                const pending = () => this.pendingKey(row, transaction.rowRef(ref, this.rowLocator(row, [conflictTarget])!));
+                const record = { ...(match ? this.primaryKeyOf(this.schema.decodeRow(match)) : pending()), ...row } as unknown as T;
+                transaction.track(record);
+                // Refresh from the row returned for this key (none for DO NOTHING conflicts)
+                transaction.afterCommit(() => {
+                    const returned = ref.rows?.find(candidate => keyOf(candidate) === key);
+                    if (returned) {
+                        Object.assign(record, this.schema.decodeRow(returned));
+                    }
+                });
+                const hook = created ? this.hooks.afterCreate : this.hooks.afterUpdate;
+                if (hook) {
+                    transaction.afterCommit(() => hook(record));
+                }
+                return { record, created };
+            });
+        }
+
+        const [existing, upserted] = await this.executeBatch([existingQuery, upsert], options);
+        const existingKeys = new Set(existing.results.map(keyOf));
+        const results = upserted.results.map(row => ({ record: this.schema.decodeRow(row) as T, created: !existingKeys.has(keyOf(row)) }));
+
+        for (const { record, created } of results) {
+            const hook = created ? this.hooks.afterCreate : this.hooks.afterUpdate;
+            if (hook) {
+                await hook(record);
+            }
+        }
+
+        // DO NOTHING returns no row for conflicts; read the rows that were left alone
+        if (results.length < rows.length) {
+            const returned = new Set(upserted.results.map(keyOf));
+            for (const row of rows.filter((_, index) => !returned.has(dataKeyOf(stored[index])))) {
+                const record = await this.findOne({ where: this.conflictKey(row, conflictTarget), ...options });
+                if (record) {
+                    results.push({ record, created: false });
+                }
+            }
+        }
+
+        return results;
+    }
 }
@@ -0,0 +1,157 @@
+/**
+ * Conversion between JavaScript values and SQLite storage
+ *
+ * SQLite has no boolean, date or JSON column types, so the field types that need one
+ * have a codec: `encode` turns a value into what is bound as a parameter, `decode` turns
+ * a stored value back. Models encode written data and where-clause values, and decode
+ * the rows they return. null and undefined are never passed to a codec.
+ *
+ * - json: JSON.stringify on write, JSON.parse on read (text that is not JSON is returned as is)
+ * - boolean: stored as 1/0, read back as true/false
+ * - date: ISO 8601 text (default), unix seconds or unix milliseconds; read back as Date
+ * - bigint: stored as INTEGER; values beyond Number.MAX_SAFE_INTEGER are bound as text,
+ *   which SQLite converts to an exact INTEGER. Reads are exact only when the driver
+ *   returns such values as bigint or text.
+ * - decimal: stored as text so no precision is lost, read back as a string
+ * - blob: bound and read back as a Uint8Array
+ */
+
+export type DateStorage = 'iso' | 'unix' | 'unixMs';
+
+export interface FieldCodec {
+    encode(value: any): any;
+    decode(value: any): any;
+}
+
+// CURRENT_TIMESTAMP and datetime() produce UTC text without a zone designator
+const SQLITE_DATETIME = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+export const jsonCodec: FieldCodec = {
+    encode: value => JSON.stringify(value),
+    decode(value) {
+        if (typeof value !== 'string') {
+            return value;
+        }
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value;
+        }
+    }
+};
+
+export const booleanCodec: FieldCodec = {
+    encode: value => typeof value === 'boolean' ? (value ? 1 : 0) : value,
+    decode(value) {
+        if (value === 1 || value === '1' || value === 'true') {
+            return true;
+        }
+        if (value === 0 || value === '0' || value === 'false') {
+            return false;
+        }
+        return value;
+    }
+};
+
+export const bigintCodec: FieldCodec = {
+    encode(value) {
+        if (typeof value !== 'bigint') {
+            return value;
+        }
+        const safe = value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER);
+        return safe ? Number(value) : value.toString();
+    },
+    decode(value) {
+        if (typeof value === 'number' && Number.isInteger(value)) {
+            return BigInt(value);
+        }
+        if (typeof value === 'string' && /^-?\d+$/.test(value)) {
+            return BigInt(value);
+        }
+        return value;
+    }
+};
+
+export const decimalCodec: FieldCodec = {
+    encode: value => typeof value === 'number' || typeof value === 'bigint' ? String(value) : value,
+    decode: value => typeof value === 'number' || typeof value === 'bigint' ? String(value) : value
+};
+
+/**
+ * Drivers return blobs as Uint8Array or Buffer (local SQLite), ArrayBuffer (Worker
+ * binding) or an array of byte values (REST API)
+ */
+export const blobCodec: FieldCodec = {
+    encode(value) {
+        if (value instanceof ArrayBuffer) {
+            return new Uint8Array(value);
+        }
+        if (ArrayBuffer.isView(value) && !(value instanceof Uint8Array)) {
+            return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+        }
+        return value;
+    },
+    decode(value) {
+        if (value instanceof Uint8Array) {
+            return value;
+        }
+        if (value instanceof ArrayBuffer) {
+            return new Uint8Array(value);
+        }
+        return Array.isArray(value) ? Uint8Array.from(value) : value;
+    }
+};
+
+const DATE_CODECS: Record<DateStorage, FieldCodec> = {
+    iso: createDateCodec('iso'),
+    unix: createDateCodec('unix'),
+    unixMs: createDateCodec('unixMs')
+};
+
+/**
+ * Codec for dates in the given storage format
+ */
+export function dateCodec(storage: DateStorage): FieldCodec {
+    if (!Object.prototype.hasOwnProperty.call(DATE_CODECS, storage)) {
+        throw new Error(`Unknown date storage '${storage}'. Use 'iso', 'unix' or 'unixMs'.`);
+    }
+    return DATE_CODECS[storage];
+}
+
+/**
+ * Dates are written in the field's storage format; text is kept as written in ISO storage
+ * and numbers are taken as timestamps in unix storage
+ */
+function createDateCodec(storage: DateStorage): FieldCodec {
+    const unit = storage === 'unix' ? 1000 : 1;
+
+    return {
+        encode(value) {
+            if (storage === 'iso') {
+                return value instanceof Date ? value.toISOString() : value;
+            }
+            if (typeof value === 'number') {
+                return value;
+            }
+            const date = toDate(value);
+            return date ? Math.floor(date.getTime() / unit) : value;
+        },
+        decode(value) {
+            if (typeof value === 'number') {
+                return storage === 'iso' ? value : new Date(value * unit);
+            }
+            return toDate(value) ?? value;
+        }
+    };
+}
+
+function toDate(value: any): Date | undefined {
+    if (value instanceof Date) {
+        return value;
+    }
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+    const date = new Date(SQLITE_DATETIME.test(value) ? `${value.replace(' ', 'T')}Z` : value);
+    return isNaN(date.getTime()) ? undefined : date;
+}
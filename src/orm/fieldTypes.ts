@@ -0,0 +1,159 @@
+/**
+ * Field type registry
+ *
+ * A field's `type` names an entry here, which decides its column type, which values
+ * pass the `type` validation rule, and how values are encoded for storage and decoded
+ * when read (see codecs.ts). Built-in types:
+ *
+ * - string, text, email, url, uuid: TEXT (`string` is VARCHAR(n) with a maxLength)
+ * - number, integer: INTEGER; real, float: REAL
+ * - decimal: TEXT holding the exact decimal, read back as a string
+ * - bigint: INTEGER, read back as a bigint
+ * - boolean, date, json: see codecs.ts
+ * - blob: BLOB, read back as a Uint8Array
+ * - enum: one of the field's `enum` values; INTEGER when they are all numbers, TEXT otherwise
+ *
+ * A type's `fallback` is written for optional fields left empty on insert, for databases
+ * whose column is still NOT NULL. Types without one (email, url, uuid, enum) are left out
+ * of the INSERT, since no placeholder would pass their validation; so are unique fields
+ * and fields that reference another table.
+ *
+ * Applications add their own with `registerFieldType('money', { ... })` before defining
+ * the models that use them. For inferred model types, declare the TypeScript type too:
+ * `declare module 'hireach-d1' { interface FieldTypes { money: number } }`.
+ */
+
+import type { FieldDefinition, SchemaOptions } from './Schema.js';
+import type { FieldTypes } from './infer.js';
+import {
+    DateStorage,
+    bigintCodec,
+    blobCodec,
+    booleanCodec,
+    dateCodec,
+    decimalCodec,
+    jsonCodec
+} from './codecs.js';
+
+export type FieldTypeName = keyof FieldTypes | (string & {});
+
+export interface FieldType {
+    sqlType: string | ((field: FieldDefinition, options: SchemaOptions) => string); // Column type in CREATE TABLE
+    validate?: (value: any, field: FieldDefinition) => boolean; // Whether a (non-null) value is of this type
+    encode?: (value: any, field: FieldDefinition, options: SchemaOptions) => any; // Value bound as a parameter
+    decode?: (value: any, field: FieldDefinition, options: SchemaOptions) => any; // Value read from a row
+    check?: (field: FieldDefinition, options: SchemaOptions) => void; // Throws when a definition cannot use this type
+    fallback?: (field: FieldDefinition) => any; // Value written for an optional field with no value and no default
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DECIMAL = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+
+const isString = (value: any) => typeof value === 'string';
+const isNumber = (value: any) => typeof value === 'number' && !isNaN(value);
+
+const date: FieldType = {
+    sqlType: (field, options) => dateStorageOf(field, options) === 'iso' ? 'DATETIME' : 'INTEGER',
+    validate: value => value instanceof Date || typeof value === 'string',
+    fallback: () => new Date(),
+    encode: (value, field, options) => dateCodec(dateStorageOf(field, options)).encode(value),
+    decode: (value, field, options) => dateCodec(dateStorageOf(field, options)).decode(value),
+    check: (field, options) => { dateCodec(dateStorageOf(field, options)); }
+};
+
+const real: FieldType = {
+    sqlType: 'REAL',
+    validate: value => typeof value === 'number' && Number.isFinite(value),
+    fallback: () => 0
+};
+
+const BUILT_IN: Record<keyof FieldTypes, FieldType> = {
+    string: {
+        sqlType: field => field.maxLength ? `VARCHAR(${field.maxLength})` : 'TEXT',
+        validate: isString,
+        fallback: () => ''
+    },
+    text: { sqlType: 'TEXT', validate: isString, fallback: () => '' },
+    number: { sqlType: 'INTEGER', validate: isNumber, fallback: () => 0 },
+    integer: { sqlType: 'INTEGER', validate: value => Number.isInteger(value), fallback: () => 0 },
+    real,
+    float: real,
+    decimal: {
+        sqlType: 'TEXT',
+        validate: value => (isString(value) && DECIMAL.test(value)) || Number.isFinite(value) || typeof value === 'bigint',
+        fallback: () => '0',
+        ...decimalCodec
+    },
+    bigint: {
+        sqlType: 'INTEGER',
+        validate: value => typeof value === 'bigint' || Number.isInteger(value),
+        fallback: () => 0n,
+        ...bigintCodec
+    },
+    boolean: {
+        sqlType: 'BOOLEAN',
+        validate: value => typeof value === 'boolean',
+        fallback: () => false,
+        ...booleanCodec
+    },
+    date,
+    json: {
+        sqlType: 'TEXT', // SQLite doesn't have native JSON, store as TEXT
+        fallback: () => null,
+        ...jsonCodec
+    },
+    uuid: { sqlType: 'TEXT', validate: value => isString(value) && UUID.test(value) },
+    blob: {
+        sqlType: 'BLOB',
+        validate: value => value instanceof ArrayBuffer || ArrayBuffer.isView(value),
+        fallback: () => new Uint8Array(0),
+        ...blobCodec
+    },
+    email: { sqlType: 'TEXT', validate: value => isString(value) && EMAIL.test(value) },
+    url: { sqlType: 'TEXT', validate: value => isString(value) && isUrl(value) },
+    enum: {
+        sqlType: field => field.enum?.length && field.enum.every(isNumber) ? 'INTEGER' : 'TEXT',
+        validate: value => isString(value) || isNumber(value),
+        check(field) {
+            if (!field.enum?.length) {
+                throw new Error("Fields of type 'enum' must list their values in `enum`");
+            }
+        }
+    }
+};
+
+const registry = new Map<string, FieldType>(Object.entries(BUILT_IN));
+
+/**
+ * Add a field type, or replace one added earlier. Built-in types cannot be replaced.
+ */
+export function registerFieldType(name: string, type: FieldType): void {
+    if (Object.prototype.hasOwnProperty.call(BUILT_IN, name)) {
+        throw new Error(`'${name}' is a built-in field type and cannot be replaced`);
+    }
+    registry.set(name, type);
+}
+
+/**
+ * The registered type called `name`, if any
+ */
+export function getFieldType(name: string): FieldType | undefined {
+    return registry.get(name);
+}
+
+/**
+ * Storage format of a date field: its own `storage`, else the schema's `dateStorage`
+ */
+export function dateStorageOf(field: FieldDefinition, options: SchemaOptions): DateStorage {
+    return field.storage ?? options.dateStorage ?? 'iso';
+}
+
+function isUrl(value: string): boolean {
+    try {
+        new URL(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,249 @@
+/**
+ * Prisma-style where objects
+ *
+ * `findAll`, `count`, `update`, `delete` and aggregates accept filters such as
+ * `{ age: { gte: 18 }, OR: [{ role: 'admin' }, { email: { endsWith: '@example.com' } }] }`.
+ * They compile to QueryBuilder conditions: fields are ANDed, `OR`/`NOT` become
+ * parenthesized groups.
+ *
+ * String matching is case-sensitive by default (GLOB); `mode: 'insensitive'`
+ * switches to LIKE, which SQLite compares case-insensitively for ASCII letters.
+ * Wildcards in the searched text are escaped either way.
+ */
+
+import { QueryBuilder, Raw, SubQuery } from './QueryBuilder.js';
+
+export interface FieldFilter<V = any> {
+    equals?: V | null;
+    not?: V | null | FieldFilter<V>;
+    in?: V[] | SubQuery;
+    notIn?: V[] | SubQuery;
+    lt?: V;
+    lte?: V;
+    gt?: V;
+    gte?: V;
+    between?: [V, V];
+    contains?: string;
+    startsWith?: string;
+    endsWith?: string;
+    mode?: 'default' | 'insensitive'; // Applies to equals, contains, startsWith and endsWith
+}
+
+export type WhereInput = {
+    AND?: WhereInput | WhereInput[];
+    OR?: WhereInput[];
+    NOT?: WhereInput | WhereInput[];
+    [field: string]: any; // A value (equality), an array (IN), null (IS NULL) or a FieldFilter
+};
+
+const FILTER_KEYS = new Set<string>([
+    'equals', 'not', 'in', 'notIn', 'lt', 'lte', 'gt', 'gte', 'between', 'contains', 'startsWith', 'endsWith', 'mode'
+]);
+
+const COMPARISONS = { lt: '<', lte: '<=', gt: '>', gte: '>=' } as const;
+
+/**
+ * Add the conditions of a where object to `query`
+ */
+export function applyWhere(query: QueryBuilder, where: WhereInput): void {
+    for (const [key, value] of Object.entries(where)) {
+        if (value === undefined) {
+            continue;
+        }
+
+        if (key === 'AND') {
+            for (const nested of toArray<WhereInput>(value)) {
+                query.where(group => applyWhere(group, nested));
+            }
+        } else if (key === 'OR') {
+            const alternatives = toArray<WhereInput>(value);
+            if (alternatives.length === 0) {
+                query.whereIn(key, []); // OR: [] matches nothing
+                continue;
+            }
+            query.where(group => {
+                for (const alternative of alternatives) {
+                    group.orWhere(inner => applyWhere(inner, alternative));
+                }
+            });
+        } else if (key === 'NOT') {
+            for (const nested of toArray<WhereInput>(value)) {
+                query.whereNot(group => applyWhere(group, nested));
+            }
+        } else {
+            applyFieldCondition(query, key, value);
+        }
+    }
+}
+
+/**
+ * Column names referenced by a where object, including inside AND/OR/NOT
+ */
+export function whereColumns(where: WhereInput): string[] {
+    const columns: string[] = [];
+    for (const [key, value] of Object.entries(where)) {
+        if (key === 'AND' || key === 'OR' || key === 'NOT') {
+            for (const nested of toArray<WhereInput>(value ?? [])) {
+                columns.push(...whereColumns(nested));
+            }
+        } else if (value !== undefined) {
+            columns.push(key);
+        }
+    }
+    return columns;
+}
+
+/**
+ * Copy of a where object with every compared value passed through `encode(field, value)`,
+ * e.g. to store booleans and dates the way the column does. Pattern filters
+ * (contains/startsWith/endsWith), subqueries and raw fragments are left as they are.
+ */
+export function encodeWhere(where: WhereInput, encode: (field: string, value: any) => any): WhereInput {
+    const encoded: WhereInput = {};
+    for (const [key, value] of Object.entries(where)) {
+        if (key === 'AND' || key === 'OR' || key === 'NOT') {
+            encoded[key] = value === undefined || value === null
+                ? value
+                : Array.isArray(value) ? value.map(nested => encodeWhere(nested, encode)) : encodeWhere(value, encode);
+        } else {
+            encoded[key] = encodeCondition(key, value, encode);
+        }
+    }
+    return encoded;
+}
+
+/**
+ * Whether a value is a filter object rather than a value compared for equality
+ */
+export function isFieldFilter(value: unknown): value is FieldFilter {
+    if (!value || typeof value !== 'object' || Array.isArray(value) || Object.getPrototypeOf(value) !== Object.prototype) {
+        return false;
+    }
+    const keys = Object.keys(value);
+    return keys.length > 0 && keys.every(key => FILTER_KEYS.has(key));
+}
+
+function encodeCondition(field: string, value: any, encode: (field: string, value: any) => any): any {
+    const one = (item: any) => item === null || item === undefined || item instanceof QueryBuilder || item instanceof Raw ? item : encode(field, item);
+
+    if (Array.isArray(value)) {
+        return value.map(one);
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date) && value.operator) {
+        return { ...value, value: Array.isArray(value.value) ? value.value.map(one) : one(value.value) };
+    }
+    if (!isFieldFilter(value)) {
+        return one(value);
+    }
+
+    const filter: FieldFilter = { ...value };
+    for (const key of ['equals', 'lt', 'lte', 'gt', 'gte'] as const) {
+        if (filter[key] !== undefined) {
+            filter[key] = one(filter[key]);
+        }
+    }
+    for (const key of ['in', 'notIn', 'between'] as const) {
+        if (Array.isArray(filter[key])) {
+            filter[key] = (filter[key] as any[]).map(one) as any;
+        }
+    }
+    if (filter.not !== undefined) {
+        filter.not = isFieldFilter(filter.not) ? encodeCondition(field, filter.not, encode) : one(filter.not);
+    }
+    return filter;
+}
+
+function applyFieldCondition(query: QueryBuilder, field: string, value: any): void {
+    if (value === null) {
+        query.whereNull(field);
+    } else if (Array.isArray(value)) {
+        query.whereIn(field, value);
+    } else if (typeof value === 'object' && !(value instanceof Date) && value.operator) {
+        // Legacy `{ operator, value }` form
+        query.where(field, value.operator, value.value);
+    } else if (isFieldFilter(value)) {
+        applyFieldFilter(query, field, value);
+    } else if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        const unknown = Object.keys(value).filter(key => !FILTER_KEYS.has(key));
+        throw new Error(`Unknown filter ${unknown.map(key => `'${key}'`).join(', ')} on field '${field}'`);
+    } else {
+        query.where(field, '=', value);
+    }
+}
+
+function applyFieldFilter(query: QueryBuilder, field: string, filter: FieldFilter): void {
+    const insensitive = filter.mode === 'insensitive';
+
+    if (filter.equals !== undefined) {
+        if (filter.equals === null) {
+            query.whereNull(field);
+        } else if (insensitive && typeof filter.equals === 'string') {
+            query.whereLike(field, escapeLike(filter.equals), '\\');
+        } else {
+            query.where(field, '=', filter.equals);
+        }
+    }
+
+    if (filter.not !== undefined) {
+        if (filter.not === null) {
+            query.whereNotNull(field);
+        } else if (isFieldFilter(filter.not)) {
+            const negated = filter.not;
+            query.whereNot(group => applyFieldFilter(group, field, { mode: filter.mode, ...negated }));
+        } else {
+            query.where(field, '!=', filter.not);
+        }
+    }
+
+    if (filter.in !== undefined) {
+        query.whereIn(field, filter.in);
+    }
+    if (filter.notIn !== undefined) {
+        query.whereNotIn(field, filter.notIn);
+    }
+
+    for (const [key, operator] of Object.entries(COMPARISONS) as Array<[keyof typeof COMPARISONS, '<' | '<=' | '>' | '>=']>) {
+        if (filter[key] !== undefined) {
+            query.where(field, operator, filter[key]);
+        }
+    }
+
+    if (filter.between !== undefined) {
+        query.whereBetween(field, filter.between[0], filter.between[1]);
+    }
+
+    // [text, wildcard before, wildcard after]
+    const matches: Array<[string | undefined, boolean, boolean]> = [
+        [filter.contains, true, true],
+        [filter.startsWith, false, true],
+        [filter.endsWith, true, false]
+    ];
+    for (const [text, leading, trailing] of matches) {
+        if (text === undefined) {
+            continue;
+        }
+        if (insensitive) {
+            query.whereLike(field, `${leading ? '%' : ''}${escapeLike(text)}${trailing ? '%' : ''}`, '\\');
+        } else {
+            query.where(field, 'GLOB', `${leading ? '*' : ''}${escapeGlob(text)}${trailing ? '*' : ''}`);
+        }
+    }
+}
+
+/**
+ * Escape LIKE wildcards with a backslash (matched with `ESCAPE '\'`)
+ */
+function escapeLike(text: string): string {
+    return text.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+/**
+ * GLOB has no escape character; wildcards are matched literally inside brackets
+ */
+function escapeGlob(text: string): string {
+    return text.replace(/[*?[]/g, char => `[${char}]`);
+}
+
+function toArray<V>(value: V | V[]): V[] {
+    return Array.isArray(value) ? value : [value];
+}
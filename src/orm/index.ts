@@ -7,10 +7,47 @@
 export { D1ORM, D1ORMOptions } from './D1ORM';
 
 // Core classes
-export { AdvancedModel, ModelHooks, FindOptions, PaginatedResult } from './AdvancedModel';
-export { Schema, SchemaDefinition, SchemaOptions, FieldDefinition } from './Schema';
-export { QueryBuilder, WhereOperator, OrderDirection, JoinType } from './QueryBuilder';
+export {
+    AdvancedModel,
+    ModelHooks,
+    FindOptions,
+    PaginatedResult,
+    PrimaryKeyValue,
+    HierarchyOptions,
+    TopNOptions,
+    WindowOptions,
+    UpsertOptions,
+    UpsertResult,
+    UpsertUpdate
+} from './AdvancedModel';
+export { Schema, SchemaDefinition, SchemaOptions, FieldDefinition, TimestampField } from './Schema';
+export { QueryBuilder, WhereOperator, OrderDirection, JoinType, WhereGroupCallback, Raw, raw, excluded, SubQuery, CommonTableExpression, WindowAggregate, WindowFrame, WindowSpec } from './QueryBuilder';
+export { Transaction, TransactionRef } from './Transaction';
+export {
+    BelongsToManyOptions,
+    Include,
+    IncludeOptions,
+    Relationship,
+    RelationshipOptions,
+    RelationshipType
+} from './Relationships';
+export { InferRow, InferCreateInput, InferUpdateInput, InferFieldType, FieldTypes } from './infer';
+export { FieldFilter, WhereInput } from './filters';
+export { KeyGenerator, generateKey, uuid, ulid, nanoid } from './keys';
+export { DateStorage } from './codecs';
+export { FieldType, FieldTypeName, registerFieldType, getFieldType } from './fieldTypes';
+export { NamingStrategy, toSnakeCase, toCamelCase } from './naming';
+export {
+    defineLocale,
+    setDefaultLocale,
+    MessageTemplate,
+    RecordValidator,
+    ValidationContext,
+    ValidationMessages,
+    ValidationResult,
+    ValidatorResult
+} from './validation';
 
 // Re-export database service for convenience
-export { DatabaseService } from '../classes/DatabaseService';
+export { DatabaseService, DatabaseServiceOptions } from '../classes/DatabaseService';
 export { createDatabaseService } from '../database';
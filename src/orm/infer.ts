@@ -0,0 +1,102 @@
+/**
+ * Type inference from schema definitions
+ *
+ * `D1ORM.define` infers the model's types from the definition it is given
+ * (inline or declared `as const`), so no hand-written interface can drift from it:
+ *
+ * - `InferRow`: a stored record. Required, primary key and defaulted fields are present;
+ *   other fields are optional and nullable. Timestamps and soft deletes add their fields.
+ * - `InferCreateInput`: data accepted by `create`. Auto-increment, generated and defaulted fields are optional.
+ * - `InferUpdateInput`: data accepted by `update`. Every field is optional.
+ */
+
+import type { FieldDefinition, SchemaDefinition, SchemaOptions } from './Schema.js';
+
+/**
+ * TypeScript type of each field type; extend it for types added with registerFieldType
+ */
+export interface FieldTypes {
+    string: string;
+    text: string;
+    number: number;
+    integer: number;
+    real: number;
+    float: number;
+    decimal: string;
+    bigint: bigint;
+    boolean: boolean;
+    date: Date | string;
+    json: any;
+    uuid: string;
+    blob: Uint8Array;
+    email: string;
+    url: string;
+    enum: string | number;
+}
+
+/**
+ * TypeScript type of a single field; `enum` narrows it to a union of the allowed values
+ */
+export type InferFieldType<F extends FieldDefinition> =
+    F extends { enum: readonly (infer E)[] } ? E : F['type'] extends keyof FieldTypes ? FieldTypes[F['type']] : any;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type IsRequired<F> = F extends { required: true } ? true : false;
+type HasDefault<F> = F extends { default: null } ? false : 'default' extends keyof F ? true : false;
+type IsGenerated<F> = F extends { autoIncrement: true } ? true : F extends { primaryKey: true } ? true : F extends { generate: any } ? true : false;
+
+type AlwaysPresent<F> = IsRequired<F> extends true ? true : HasDefault<F> extends true ? true : IsGenerated<F>;
+
+type RowKeys<S extends SchemaDefinition> = { [K in keyof S]: AlwaysPresent<S[K]> extends true ? K : never }[keyof S];
+type CreateKeys<S extends SchemaDefinition> = {
+    [K in keyof S]: IsRequired<S[K]> extends true
+        ? IsGenerated<S[K]> extends true ? never : HasDefault<S[K]> extends true ? never : K
+        : never
+}[keyof S];
+
+type Nullable<S extends SchemaDefinition, K extends keyof S> =
+    IsRequired<S[K]> extends true ? InferFieldType<S[K]> : InferFieldType<S[K]> | null;
+
+// Property names of the timestamp and soft delete fields: SchemaOptions.createdAt, ..., else the
+// naming strategy's default (created_at, ... under 'preserve', createdAt, ... otherwise)
+type FieldName<O, K extends 'createdAt' | 'updatedAt' | 'deletedAt'> = O extends { [P in K]: infer N extends string }
+    ? N
+    : O extends { naming: infer S } ? S extends 'preserve' ? SnakeName<K> : K : SnakeName<K>;
+
+type SnakeName<K extends string> = K extends `${infer Head}At` ? `${Head}_at` : K;
+
+type TimestampColumns<O> = O extends { timestamps: false }
+    ? {}
+    : { [K in FieldName<O, 'createdAt'> | FieldName<O, 'updatedAt'>]: Date | string };
+
+type SoftDeleteColumns<O> = O extends { softDeletes: true } ? { [K in FieldName<O, 'deletedAt'>]: Date | string | null } : {};
+
+/**
+ * Schema options with the ORM's naming strategy applied when the schema does not set its own
+ */
+export type WithNaming<O, N> = O extends { naming: any } ? O : O & { naming: N };
+
+type PrimaryKeyFields<S extends SchemaDefinition> = { [K in keyof S]: S[K] extends { primaryKey: true } ? K : never }[keyof S];
+
+// Tables without a declared primary key get an integer `id`
+type ImplicitId<S extends SchemaDefinition> = 'id' extends keyof S ? {} : [PrimaryKeyFields<S>] extends [never] ? { id: number } : {};
+
+export type InferRow<S extends SchemaDefinition, O extends SchemaOptions = {}> = Simplify<
+    { [K in RowKeys<S>]: InferFieldType<S[K]> }
+    & { [K in Exclude<keyof S, RowKeys<S>>]?: InferFieldType<S[K]> | null }
+    & ImplicitId<S>
+    & TimestampColumns<O>
+    & SoftDeleteColumns<O>
+>;
+
+export type InferCreateInput<S extends SchemaDefinition, O extends SchemaOptions = {}> = Simplify<
+    { [K in CreateKeys<S>]: InferFieldType<S[K]> }
+    & { [K in Exclude<keyof S, CreateKeys<S>>]?: Nullable<S, K> }
+    & Partial<TimestampColumns<O> & SoftDeleteColumns<O>>
+>;
+
+export type InferUpdateInput<S extends SchemaDefinition, O extends SchemaOptions = {}> = Simplify<
+    { [K in keyof S]?: Nullable<S, K> }
+    & Partial<TimestampColumns<O> & SoftDeleteColumns<O>>
+>;
@@ -0,0 +1,65 @@
+/**
+ * Primary key generators
+ *
+ * A field declared with `generate` receives a key when `create` is called without one:
+ * `'uuid'` (random v4), `'ulid'` (sortable by creation time), `'nanoid'` (21 URL-safe
+ * characters) or a function returning the key. Randomness comes from the Web Crypto
+ * API, available both in Workers and in Node.js 18+.
+ */
+
+export type KeyGenerator = 'uuid' | 'ulid' | 'nanoid' | (() => string | number);
+
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const URL_SAFE = 'useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbfghjklqvwyzrict';
+
+/**
+ * A new key from `generator`
+ */
+export function generateKey(generator: KeyGenerator): string | number {
+    if (typeof generator === 'function') {
+        return generator();
+    }
+
+    switch (generator) {
+        case 'uuid':
+            return uuid();
+        case 'ulid':
+            return ulid();
+        case 'nanoid':
+            return nanoid();
+        default:
+            throw new Error(`Unknown key generator '${generator}'. Use 'uuid', 'ulid', 'nanoid' or a function.`);
+    }
+}
+
+export function uuid(): string {
+    return crypto.randomUUID();
+}
+
+/**
+ * 26 characters: a 48-bit millisecond timestamp then 80 random bits, in Crockford base32
+ */
+export function ulid(time: number = Date.now()): string {
+    let timestamp = '';
+    for (let i = 0; i < 10; i++) {
+        timestamp = CROCKFORD_BASE32[time % 32] + timestamp;
+        time = Math.floor(time / 32);
+    }
+    return timestamp + randomString(16, CROCKFORD_BASE32);
+}
+
+export function nanoid(size: number = 21): string {
+    return randomString(size, URL_SAFE);
+}
+
+/**
+ * `size` characters drawn uniformly from an alphabet whose length divides 256
+ */
+function randomString(size: number, alphabet: string): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(size));
+    let output = '';
+    for (const byte of bytes) {
+        output += alphabet[byte % alphabet.length];
+    }
+    return output;
+}
@@ -0,0 +1,60 @@
+/**
+ * Property and column names
+ *
+ * Models are read and written with property names; the naming strategy decides the
+ * column each property is stored in, unless the field sets `column` itself:
+ *
+ * - 'preserve' (default): the column has the property's name
+ * - 'snake_case': `createdAt` is stored in `created_at`
+ * - a function from property name to column name
+ *
+ * Rows read back are keyed by property name again. Raw SQL, `excluded()` and
+ * `references.field` name columns.
+ *
+ * Timestamp and soft delete fields follow the strategy too: under 'preserve' they are
+ * `created_at`, `updated_at` and `deleted_at`; under any other strategy they are
+ * `createdAt`, `updatedAt` and `deletedAt`, stored in the columns the strategy gives them.
+ */
+
+export type NamingStrategy = 'preserve' | 'snake_case' | ((property: string) => string);
+
+/**
+ * `BlogPost` -> `blog_post`, used for default foreign keys and relationship names
+ */
+export function toSnakeCase(name: string): string {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+        .toLowerCase();
+}
+
+/**
+ * `blog_post_id` -> `blogPostId`
+ */
+export function toCamelCase(name: string): string {
+    return name.replace(/_+([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Column a property is stored in under `strategy`
+ */
+export function applyNaming(property: string, strategy: NamingStrategy = 'preserve'): string {
+    if (typeof strategy === 'function') {
+        return strategy(property);
+    }
+    switch (strategy) {
+        case 'preserve':
+            return property;
+        case 'snake_case':
+            return toSnakeCase(property);
+        default:
+            throw new Error(`Unknown naming strategy '${strategy}'. Use 'preserve', 'snake_case' or a function.`);
+    }
+}
+
+/**
+ * Default property name of a timestamp or soft delete field under `strategy`
+ */
+export function timestampProperty(kind: 'createdAt' | 'updatedAt' | 'deletedAt', strategy: NamingStrategy = 'preserve'): string {
+    return strategy === 'preserve' ? toSnakeCase(kind) : kind;
+}
@@ -0,0 +1,213 @@
+/**
+ * Validation engine shared by create, update and bulk operations
+ *
+ * Every failed check produces a ValidationIssue `{ field, rule, message, value, params }`.
+ * Messages come from templates resolved per rule, in order: the field's `messages`,
+ * the schema's `messages`, the active locale, then English. Templates interpolate
+ * `{field}`, `{value}` and any rule params (`{maxLength}`, `{values}`, ...).
+ *
+ * Rules that need the database (`checkUnique`, `exists`, `validateAsync`) and
+ * schema-level `validators` run from the model on create and update, after the
+ * synchronous rules, and report issues in the same shape.
+ */
+
+import { ValidationIssue, ValidationRule } from '../errors.js';
+import { TransactionRef } from './Transaction.js';
+import { getFieldType } from './fieldTypes.js';
+import type { FieldDefinition, SchemaDefinition } from './Schema.js';
+import type { DatabaseService } from '../classes/DatabaseService.js';
+
+export type MessageTemplate = string | ((issue: Omit<ValidationIssue, 'message'>) => string);
+
+export type ValidationMessages = Partial<Record<ValidationRule, MessageTemplate>>;
+
+export interface ValidateOptions {
+    partial?: boolean; // Only check fields present in the data (updates)
+    locale?: string; // Overrides the schema and default locale
+    messages?: ValidationMessages; // Schema-level templates
+}
+
+/**
+ * Passed to async and schema-level validators
+ */
+export interface ValidationContext {
+    db: DatabaseService; // Query the database (inside a transaction, reads see committed data)
+    tableName: string;
+    operation: 'create' | 'update';
+    data: Record<string, any>; // Everything being written; only the changed fields on update
+    where?: Record<string, any>; // Rows targeted by an update
+}
+
+export type ValidatorResult = boolean | string;
+
+/**
+ * Schema-level validator that sees the whole record, e.g. `end_date > start_date`
+ */
+export interface RecordValidator {
+    field?: string; // Field the issue is reported on, defaults to '*' (the record)
+    validate: (record: Record<string, any>, context: ValidationContext) => ValidatorResult | Promise<ValidatorResult>;
+    message?: MessageTemplate; // Used when validate returns false
+}
+
+export interface ValidationResult {
+    isValid: boolean;
+    errors: string[]; // Messages only, kept for backwards compatibility
+    issues: ValidationIssue[];
+}
+
+const en: Required<ValidationMessages> = {
+    required: "Field '{field}' is required",
+    type: "Field '{field}' must be of type {type}",
+    minLength: "Field '{field}' is below minimum length of {minLength}",
+    maxLength: "Field '{field}' exceeds maximum length of {maxLength}",
+    min: "Field '{field}' is below minimum value of {min}",
+    max: "Field '{field}' exceeds maximum value of {max}",
+    enum: "Field '{field}' must be one of: {values}",
+    custom: "Field '{field}' is invalid",
+    unique: "Field '{field}' must be unique; '{value}' is already taken",
+    exists: "Field '{field}' must reference an existing {table} record",
+    record: 'Record is invalid'
+};
+
+const locales: Record<string, ValidationMessages> = { en };
+let defaultLocale = 'en';
+
+/**
+ * Register (or extend) the message templates for a locale
+ */
+export function defineLocale(locale: string, messages: ValidationMessages): void {
+    locales[locale] = { ...locales[locale], ...messages };
+}
+
+/**
+ * Locale used when neither the call nor the schema selects one
+ */
+export function setDefaultLocale(locale: string): void {
+    if (!locales[locale]) {
+        throw new Error(`Unknown validation locale '${locale}'. Register it with defineLocale() first.`);
+    }
+    defaultLocale = locale;
+}
+
+/**
+ * Check `data` against the field definitions
+ */
+export function validateFields(fields: SchemaDefinition, data: Record<string, any>, options: ValidateOptions = {}): ValidationResult {
+    const issues: ValidationIssue[] = [];
+    const messages = resolveMessages(options);
+
+    for (const [field, fieldDef] of Object.entries(fields)) {
+        if (options.partial && !(field in data)) {
+            continue;
+        }
+
+        for (const { message, ...failure } of checkField(fieldDef, data[field])) {
+            const template = message ?? fieldDef.messages?.[failure.rule] ?? messages[failure.rule];
+            issues.push(createIssue({ field, value: data[field], ...failure }, template));
+        }
+    }
+
+    return {
+        isValid: issues.length === 0,
+        errors: issues.map(issue => issue.message),
+        issues
+    };
+}
+
+/**
+ * Message templates for a locale, with schema overrides applied
+ */
+export function resolveMessages(options: Pick<ValidateOptions, 'locale' | 'messages'> = {}): Required<ValidationMessages> {
+    return { ...en, ...locales[options.locale ?? defaultLocale], ...options.messages };
+}
+
+/**
+ * Build an issue, rendering its message from a template
+ */
+export function createIssue(issue: Omit<ValidationIssue, 'message'>, template: MessageTemplate): ValidationIssue {
+    return { ...issue, message: formatMessage(template, issue) };
+}
+
+/**
+ * Whether a value matches a field's type
+ */
+export function isValidType(value: any, field: FieldDefinition): boolean {
+    const validate = getFieldType(field.type)?.validate;
+    return validate ? validate(value, field) : true;
+}
+
+type Failure = { rule: ValidationRule; params: Record<string, any>; message?: string };
+
+/**
+ * Run the rules for one field; a failed required or type check stops the remaining rules
+ */
+function checkField(fieldDef: FieldDefinition, value: any): Failure[] {
+    // Skip auto-increment fields during creation
+    if (value === undefined || value === null) {
+        return fieldDef.required && !fieldDef.autoIncrement ? [{ rule: 'required', params: {} }] : [];
+    }
+
+    // References a pending insert (resolved by the database at commit)
+    if (value instanceof TransactionRef) {
+        return [];
+    }
+
+    if (!isValidType(value, fieldDef)) {
+        return [{ rule: 'type', params: { type: fieldDef.type } }];
+    }
+
+    const failures: Failure[] = [];
+
+    if (typeof value === 'string') {
+        if (fieldDef.maxLength !== undefined && value.length > fieldDef.maxLength) {
+            failures.push({ rule: 'maxLength', params: { maxLength: fieldDef.maxLength } });
+        }
+        if (fieldDef.minLength !== undefined && value.length < fieldDef.minLength) {
+            failures.push({ rule: 'minLength', params: { minLength: fieldDef.minLength } });
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (fieldDef.max !== undefined && value > fieldDef.max) {
+            failures.push({ rule: 'max', params: { max: fieldDef.max } });
+        }
+        if (fieldDef.min !== undefined && value < fieldDef.min) {
+            failures.push({ rule: 'min', params: { min: fieldDef.min } });
+        }
+    }
+
+    if (fieldDef.enum && fieldDef.enum.length > 0) {
+        const values = fieldDef.enum as (string | number)[];
+        if (!values.includes(value)) {
+            failures.push({ rule: 'enum', params: { values } });
+        }
+    }
+
+    if (fieldDef.validate) {
+        const result = fieldDef.validate(value);
+        if (result !== true) {
+            // A string returned by the validator is used as the message
+            failures.push({ rule: 'custom', params: {}, message: typeof result === 'string' ? result : undefined });
+        }
+    }
+
+    return failures;
+}
+
+/**
+ * Interpolate `{name}` placeholders from the issue and its params
+ */
+function formatMessage(template: MessageTemplate, issue: Omit<ValidationIssue, 'message'>): string {
+    if (typeof template === 'function') {
+        return template(issue);
+    }
+
+    const values: Record<string, any> = { field: issue.field, value: issue.value, ...issue.params };
+    return template.replace(/\{(\w+)\}/g, (match, name) => {
+        if (!(name in values)) {
+            return match;
+        }
+        const value = values[name];
+        return Array.isArray(value) ? value.join(', ') : String(value);
+    });
+}
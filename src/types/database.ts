@@ -3,6 +3,19 @@ export interface D1Config {
     accountId: string;
     databaseId: string;
     databaseName: string;
+    retry?: RetryOptions | false; // Retry policy for the REST API, false to disable
+    timeout?: number; // Default per-query timeout in milliseconds
+}
+
+export interface RetryOptions {
+    maxAttempts?: number; // Total attempts including the first (default 3)
+    baseDelayMs?: number; // Initial backoff delay (default 200)
+    maxDelayMs?: number; // Upper bound for a single backoff delay (default 5000)
+    maxRetryAfterMs?: number; // Upper bound for waits requested via Retry-After (default 60000)
+    jitter?: boolean; // Randomize delays to avoid thundering herds (default true)
+    retryOnStatus?: number[]; // HTTP statuses to retry (default 429, 500, 502, 503, 504)
+    retryNetworkErrors?: boolean; // Retry when fetch itself fails (default true)
+    retryNonIdempotent?: boolean; // Also replay writes not marked idempotent (default false)
 }
 
 export interface Migration {
@@ -55,6 +68,7 @@ export interface QueryResult<T = any> {
         duration?: number;
     };
     error?: string;
+    errorCode?: string | number; // Original D1/SQLite error code when the query failed
 }
 
 export interface DatabaseInfo {
@@ -74,3 +88,36 @@ export interface D1Response<T = any> {
     }>;
     messages: string[];
 }
+
+/**
+ * Destination for the ORM's diagnostic output; `console` satisfies it
+ */
+export interface Logger {
+    log(...args: any[]): void;
+    warn(...args: any[]): void;
+    error(...args: any[]): void;
+}
+
+export interface D1Statement {
+    sql: string;
+    params?: any[];
+}
+
+export interface QueryOptions {
+    idempotent?: boolean; // Mark a write as safe to replay on transient failures
+    timeout?: number; // Override the client's default timeout (milliseconds)
+    signal?: AbortSignal; // Cancel the query from the caller
+}
+
+/**
+ * Transport used by D1DatabaseManager to execute SQL.
+ * Implementations throw on failure; the manager turns SQL errors into failed QueryResults
+ * and rethrows API errors (see errors.ts) as-is.
+ */
+export interface D1Driver {
+    readonly name: string;
+    query<T = any>(sql: string, params?: any[], options?: QueryOptions): Promise<QueryResult<T>>;
+    batch(statements: D1Statement[], options?: QueryOptions): Promise<QueryResult[]>;
+    getDatabaseInfo?(): Promise<Partial<Omit<DatabaseInfo, 'tables'>>>;
+    close?(): Promise<void>;
+}
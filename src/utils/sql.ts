@@ -0,0 +1,123 @@
+/**
+ * SQL text helpers shared by drivers and the ORM
+ */
+
+/**
+ * D1 rejects statements binding more parameters than this
+ */
+export const MAX_BOUND_PARAMETERS = 100;
+
+/**
+ * Whether a statement only reads data (safe to replay or run outside a batch)
+ */
+export function isReadOnlyStatement(sql: string): boolean {
+    const statement = sql.replace(/^(\s|--[^\n]*\n?|\/\*[\s\S]*?\*\/)*/, '');
+    const keyword = statement.match(/^\w+/)?.[0]?.toUpperCase();
+
+    switch (keyword) {
+        case 'SELECT':
+        case 'EXPLAIN':
+            return true;
+        case 'WITH':
+            return !/\b(INSERT|UPDATE|DELETE|REPLACE)\b/i.test(statement);
+        case 'PRAGMA':
+            return !statement.includes('=');
+        default:
+            return false;
+    }
+}
+
+/**
+ * Replace each `?` placeholder outside string literals and quoted identifiers
+ * with the text returned by `replacer` (called with the placeholder's index)
+ */
+export function replacePlaceholders(sql: string, replacer: (index: number) => string): string {
+    let output = '';
+    let index = 0;
+    let i = 0;
+
+    while (i < sql.length) {
+        const ch = sql[i];
+
+        if (ch === '\'' || ch === '"' || ch === '`' || ch === '[') {
+            const close = ch === '[' ? ']' : ch;
+            const end = sql.indexOf(close, i + 1);
+            const stop = end === -1 ? sql.length : end + 1;
+            output += sql.slice(i, stop);
+            i = stop;
+            continue;
+        }
+
+        if (ch === '?') {
+            output += replacer(index++);
+        } else {
+            output += ch;
+        }
+        i++;
+    }
+
+    return output;
+}
+
+/**
+ * Table written by an INSERT, UPDATE or DELETE statement, if any. `REPLACE` covers
+ * `REPLACE INTO` and the `OR REPLACE` conflict clause, which can delete rows.
+ */
+export function writeTarget(sql: string): { operation: 'INSERT' | 'UPDATE' | 'DELETE' | 'REPLACE'; table: string } | null {
+    const statement = sql.replace(/^(\s|--[^\n]*\n?|\/\*[\s\S]*?\*\/)*/, '');
+    const match = statement.match(/^(INSERT|REPLACE|UPDATE|DELETE)(?:\s+OR\s+(\w+))?\s+(?:INTO\s+|FROM\s+)?["`[]?([\w.]+)/i);
+    if (!match) {
+        return null;
+    }
+
+    const verb = match[1].toUpperCase();
+    const replaces = verb === 'REPLACE' || match[2]?.toUpperCase() === 'REPLACE';
+    return {
+        operation: replaces ? 'REPLACE' : verb as 'INSERT' | 'UPDATE' | 'DELETE',
+        table: match[3]
+    };
+}
+
+/**
+ * Whether a statement is a plain `INSERT INTO t (...) VALUES (...)` of exactly one row,
+ * optionally with RETURNING: no conflict clause, no SELECT, no further VALUES tuples
+ */
+export function isSingleRowInsert(sql: string): boolean {
+    return /^\s*INSERT\s+INTO\s+\S+\s*\([^)]*\)\s*VALUES\s*\((?:[^()']|'[^']*'|\([^()]*\))*\)\s*(?:RETURNING\b[\s\S]*)?;?\s*$/i.test(sql);
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_$]*$/;
+
+/**
+ * Quote a table or column name (`users`, `posts.title`, `users.*`) for use in SQL.
+ * Each dot-separated part must be a plain identifier; anything else, such as an
+ * expression or text taken from a request, is rejected rather than interpolated.
+ */
+export function quoteIdentifier(name: string): string {
+    const parts = name.split('.');
+    const valid = parts.every((part, index) => IDENTIFIER.test(part) || (part === '*' && index === parts.length - 1 && index > 0));
+    if (!valid) {
+        throw new Error(`Invalid identifier '${name}'. Use a plain table or column name.`);
+    }
+    return parts.map(part => part === '*' ? part : `"${part}"`).join('.');
+}
+
+/**
+ * Whether a name can be used as an identifier by quoteIdentifier()
+ */
+export function isIdentifier(name: string): boolean {
+    try {
+        quoteIdentifier(name);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Quote a name read back from the database (sqlite_master, PRAGMA output), which is
+ * trusted but may contain characters quoteIdentifier() rejects
+ */
+export function escapeIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
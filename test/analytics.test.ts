@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { D1ORM } from '../src/orm/D1ORM';
+import { createTestOrm } from './helpers';
+
+async function setup(): Promise<D1ORM> {
+    const orm = await createTestOrm();
+    orm.define('Sale', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        region: { type: 'string', required: true },
+        amount: { type: 'integer', required: true }
+    }, { tableName: 'sales', timestamps: false });
+    await orm.sync();
+    await orm.getDatabase().query(`INSERT INTO sales (region, amount) VALUES
+        ('north', 10), ('north', 40), ('south', 5), ('north', 30), ('south', 25), ('south', 15)`);
+    return orm;
+}
+
+describe('analytic aggregates', () => {
+    it('returns the top rows per group with their rank', async () => {
+        const orm = await setup();
+        const Sale = orm.model('Sale');
+
+        const top = await Sale.topNPerGroup('amount', 2, { partitionBy: 'region' });
+        assert.deepEqual(top.map(row => `${row.region}:${row.amount}:${row.rank}`),
+            ['north:40:1', 'north:30:2', 'south:25:1', 'south:15:2']);
+
+        const lowest = await Sale.topNPerGroup('amount', 1, { partitionBy: 'region', orderBy: 'ASC', where: { amount: { gt: 5 } } });
+        assert.deepEqual(lowest.map(row => `${row.region}:${row.amount}`), ['north:10', 'south:15']);
+    });
+
+    it('computes running totals per partition', async () => {
+        const orm = await setup();
+        const rows = await orm.model('Sale').runningTotal('amount', { partitionBy: 'region' });
+        assert.deepEqual(rows.map(row => `${row.region}:${row.running_total}`),
+            ['north:10', 'north:50', 'north:80', 'south:5', 'south:30', 'south:45']);
+    });
+
+    it('computes moving averages in the given order', async () => {
+        const orm = await setup();
+        const Sale = orm.model('Sale');
+
+        const rows = await Sale.movingAverage('amount', 2, { orderBy: { amount: 'DESC' }, where: { region: 'north' } });
+        assert.deepEqual(rows.map(row => row.moving_average), [40, 35, 20]);
+        await assert.rejects(Sale.movingAverage('amount', 0), /positive integer/);
+    });
+
+    it('rejects unknown columns', async () => {
+        const orm = await setup();
+        await assert.rejects(orm.model('Sale').runningTotal('amount', { partitionBy: 'country' }), /country/);
+    });
+});
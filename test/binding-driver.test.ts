@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { D1Database } from '@cloudflare/workers-types';
+import { D1BindingDriver } from '../src/drivers/D1BindingDriver';
+import { DatabaseService } from '../src/classes/DatabaseService';
+import { silentLogger } from './helpers';
+
+interface Call {
+    sql: string;
+    params: any[];
+}
+
+// Just enough of a Worker D1 binding to record what the driver prepares and binds
+function fakeBinding(calls: Call[], batches: Call[][] = []): D1Database {
+    const prepare = (sql: string) => {
+        const statement = {
+            sql,
+            params: [] as any[],
+            bind(...params: any[]) {
+                return { ...statement, params };
+            },
+            async all() {
+                calls.push({ sql: this.sql, params: this.params });
+                return { results: [{ id: 1 }], success: true, meta: { changes: 1, last_row_id: 1, duration: 0.1 } };
+            }
+        };
+        return statement;
+    };
+    return {
+        prepare,
+        async batch(statements: any[]) {
+            batches.push(statements.map(({ sql, params }) => ({ sql, params })));
+            return statements.map(() => ({ results: [], success: true, meta: { changes: 1 } }));
+        }
+    } as unknown as D1Database;
+}
+
+describe('D1BindingDriver', () => {
+    it('rejects values that are not D1 bindings', () => {
+        assert.throws(() => new D1BindingDriver({} as D1Database), /requires a D1Database binding/);
+    });
+
+    it('binds parameters and maps undefined to NULL', async () => {
+        const calls: Call[] = [];
+        const driver = new D1BindingDriver(fakeBinding(calls));
+
+        const result = await driver.query('SELECT * FROM users WHERE id = ? AND name = ?', [1, undefined]);
+        assert.deepEqual(calls, [{ sql: 'SELECT * FROM users WHERE id = ? AND name = ?', params: [1, null] }]);
+        assert.deepEqual(result.results, [{ id: 1 }]);
+        assert.equal(result.success, true);
+        assert.equal(result.meta?.changes, 1);
+        assert.equal(result.meta?.last_row_id, 1);
+    });
+
+    it('sends batches through the binding in one call', async () => {
+        const batches: Call[][] = [];
+        const driver = new D1BindingDriver(fakeBinding([], batches));
+
+        const results = await driver.batch([
+            { sql: 'INSERT INTO users (name) VALUES (?)', params: ['Ada'] },
+            { sql: 'DELETE FROM sessions' }
+        ]);
+        assert.equal(results.length, 2);
+        assert.deepEqual(batches, [[
+            { sql: 'INSERT INTO users (name) VALUES (?)', params: ['Ada'] },
+            { sql: 'DELETE FROM sessions', params: [] }
+        ]]);
+    });
+
+    it('backs a DatabaseService without API credentials', async () => {
+        const calls: Call[] = [];
+        const db = new DatabaseService({
+            driver: new D1BindingDriver(fakeBinding(calls)),
+            logger: silentLogger,
+            migrationsDir: './test/.no-migrations'
+        });
+        await db.initialize();
+
+        const result = await db.query('SELECT 1');
+        assert.equal(result.success, true);
+        assert.equal(calls.at(-1)?.sql, 'SELECT 1');
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigManager } from '../src/classes/ConfigManager';
+import { DatabaseService } from '../src/classes/DatabaseService';
+import { SqliteDriver } from '../src/drivers/SqliteDriver';
+import { D1Config } from '../src/types/database';
+import { createTestDatabase, silentLogger } from './helpers';
+
+const staging: D1Config = {
+    token: 'staging-token-0000',
+    accountId: 'account-0000000',
+    databaseId: 'database-staging',
+    databaseName: 'staging'
+};
+
+describe('instantiable clients', () => {
+    it('keeps the data of separate services apart', async () => {
+        const first = await createTestDatabase();
+        const second = await createTestDatabase();
+
+        await first.query('CREATE TABLE notes (body TEXT)');
+        await first.query('INSERT INTO notes (body) VALUES (?)', ['only here']);
+
+        assert.equal(await first.tableExists('notes'), true);
+        assert.equal(await second.tableExists('notes'), false);
+    });
+
+    it('gives each service its own configuration', () => {
+        const a = new DatabaseService({ config: staging, logger: silentLogger });
+        const b = new DatabaseService({ config: { ...staging, databaseName: 'production' }, logger: silentLogger });
+
+        assert.notEqual(a.getConfigManager(), b.getConfigManager());
+        assert.equal(a.getConfigManager().getConfig().databaseName, 'staging');
+        assert.equal(b.getConfigManager().getConfig().databaseName, 'production');
+        assert.notEqual(a.getConfigManager(), ConfigManager.getInstance());
+    });
+
+    it('holds standalone configurations', () => {
+        const manager = new ConfigManager(staging);
+        assert.equal(manager.getConfig().databaseId, 'database-staging');
+        assert.equal(manager.isConfigReady(), true);
+    });
+
+    it('keeps getInstance as a shared client', () => {
+        assert.equal(DatabaseService.getInstance(), DatabaseService.getInstance());
+        assert.equal(DatabaseService.getInstance().getConfigManager(), ConfigManager.getInstance());
+    });
+
+    it('requires initialize before queries', async () => {
+        const db = new DatabaseService({ driver: new SqliteDriver(), logger: silentLogger });
+        const result = db.query('SELECT 1');
+        await assert.rejects(result, /not initialized/);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { bigintCodec, booleanCodec, dateCodec, jsonCodec } from '../src/orm/codecs';
+import { createTestOrm } from './helpers';
+
+describe('codecs', () => {
+    it('round-trips JSON, booleans and dates through a model', async () => {
+        const orm = await createTestOrm();
+        const Doc = orm.define('Doc', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            meta: { type: 'json', required: true },
+            published: { type: 'boolean', required: true },
+            publishedAt: { type: 'date', required: true }
+        }, { tableName: 'docs', timestamps: false });
+        await orm.sync();
+
+        const publishedAt = new Date('2024-05-01T10:00:00.000Z');
+        const doc = await Doc.create({ meta: { tags: ['a', 'b'] }, published: true, publishedAt });
+        assert.deepEqual(doc.meta, { tags: ['a', 'b'] });
+        assert.equal(doc.published, true);
+        assert.deepEqual(doc.publishedAt, publishedAt);
+
+        const stored = await orm.getDatabase().query('SELECT meta, published, publishedAt FROM docs');
+        assert.deepEqual(stored.results, [{ meta: '{"tags":["a","b"]}', published: 1, publishedAt: '2024-05-01T10:00:00.000Z' }]);
+
+        const found = await Doc.findOne({ where: { published: true } });
+        assert.deepEqual(found?.meta, { tags: ['a', 'b'] });
+        assert.deepEqual(found?.publishedAt, publishedAt);
+    });
+
+    it('stores dates as unix seconds or milliseconds when asked', async () => {
+        const orm = await createTestOrm();
+        const Event = orm.define('Event', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            at: { type: 'date', required: true, storage: 'unix' },
+            atMs: { type: 'date', required: true, storage: 'unixMs' }
+        }, { tableName: 'events', timestamps: false });
+        await orm.sync();
+
+        const at = new Date('2024-05-01T10:00:00.000Z');
+        await Event.create({ at, atMs: at });
+
+        const stored = await orm.getDatabase().query('SELECT at, atMs FROM events');
+        assert.deepEqual(stored.results, [{ at: 1714557600, atMs: 1714557600000 }]);
+        const event = await Event.findOne({ where: { at: { gte: at } } });
+        assert.deepEqual(event?.at, at);
+        assert.deepEqual(event?.atMs, at);
+    });
+
+    it('reads SQLite datetime text as UTC', () => {
+        assert.deepEqual(dateCodec('iso').decode('2024-05-01 10:00:00'), new Date('2024-05-01T10:00:00.000Z'));
+        assert.throws(() => dateCodec('weekly' as any), /Unknown date storage/);
+    });
+
+    it('keeps values it cannot convert', () => {
+        assert.equal(jsonCodec.decode('not json'), 'not json');
+        assert.equal(booleanCodec.decode('maybe'), 'maybe');
+        assert.equal(bigintCodec.decode(1.5), 1.5);
+    });
+
+    it('binds bigints beyond the safe integer range as text', () => {
+        assert.equal(bigintCodec.encode(42n), 42);
+        assert.equal(bigintCodec.encode(2n ** 63n - 1n), '9223372036854775807');
+        assert.equal(bigintCodec.decode('9223372036854775807'), 2n ** 63n - 1n);
+    });
+});
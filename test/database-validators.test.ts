@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { D1ORM } from '../src/orm/D1ORM';
+import { ValidationError } from '../src/errors';
+import { createTestOrm } from './helpers';
+
+async function setup(): Promise<D1ORM> {
+    const orm = await createTestOrm();
+    orm.define('Team', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        name: { type: 'string', required: true }
+    }, { tableName: 'teams', timestamps: false });
+    orm.define('Member', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        email: { type: 'string', required: true, checkUnique: true },
+        team_id: { type: 'integer', exists: { table: 'teams' } },
+        nickname: {
+            type: 'string',
+            required: true,
+            validateAsync: async (value, context) => {
+                const result = await context.db.query('SELECT COUNT(*) AS count FROM banned_names WHERE name = ?', [value]);
+                return result.results[0].count === 0 || `'${value}' is not allowed`;
+            }
+        },
+        starts_on: { type: 'string', required: true },
+        ends_on: { type: 'string', required: true }
+    }, {
+        tableName: 'members',
+        timestamps: false,
+        validators: [{
+            field: 'ends_on',
+            // Updates pass only the changed fields
+            validate: record => !record.starts_on || !record.ends_on || record.ends_on >= record.starts_on,
+            message: 'Membership must end after it starts'
+        }]
+    });
+    await orm.sync();
+    await orm.getDatabase().query('CREATE TABLE banned_names (name TEXT)');
+    await orm.getDatabase().query("INSERT INTO banned_names (name) VALUES ('root')");
+    return orm;
+}
+
+const member = { email: 'ada@example.com', nickname: 'ada', starts_on: '2024-01-01', ends_on: '2024-12-31' };
+
+async function issuesOf(write: Promise<unknown>): Promise<string[]> {
+    try {
+        await write;
+    } catch (error) {
+        assert.ok(error instanceof ValidationError);
+        return error.issues.map(issue => `${issue.field}:${issue.rule}:${issue.message}`);
+    }
+    assert.fail('expected a ValidationError');
+}
+
+describe('database-aware validators', () => {
+    it('rejects values already taken, ignoring the row being updated', async () => {
+        const orm = await setup();
+        const Member = orm.model('Member');
+        const ada = await Member.create(member);
+
+        assert.deepEqual(await issuesOf(Member.create({ ...member, nickname: 'lovelace' })), [
+            "email:unique:Field 'email' must be unique; 'ada@example.com' is already taken"
+        ]);
+
+        // Writing a row's own value back is not a conflict
+        await Member.update({ email: 'ada@example.com' }, { id: ada.id });
+        await Member.create({ ...member, email: 'grace@example.com' });
+        assert.deepEqual(await issuesOf(Member.update({ email: 'grace@example.com' }, { id: ada.id })), [
+            "email:unique:Field 'email' must be unique; 'grace@example.com' is already taken"
+        ]);
+    });
+
+    it('checks that referenced rows exist', async () => {
+        const orm = await setup();
+        const team = await orm.model('Team').create({ name: 'core' });
+
+        assert.deepEqual(await issuesOf(orm.model('Member').create({ ...member, team_id: 99 })), [
+            "team_id:exists:Field 'team_id' must reference an existing teams record"
+        ]);
+        assert.equal((await orm.model('Member').create({ ...member, team_id: team.id })).team_id, team.id);
+    });
+
+    it('runs async validators with database access', async () => {
+        const orm = await setup();
+        assert.deepEqual(await issuesOf(orm.model('Member').create({ ...member, nickname: 'root' })), [
+            "nickname:custom:'root' is not allowed"
+        ]);
+    });
+
+    it('runs record validators once the fields are valid', async () => {
+        const orm = await setup();
+        const Member = orm.model('Member');
+
+        assert.deepEqual(await issuesOf(Member.create({ ...member, ends_on: '2023-01-01' })), [
+            'ends_on:record:Membership must end after it starts'
+        ]);
+        // Field issues are reported without running the record validators
+        assert.deepEqual(await issuesOf(Member.create({ ...member, nickname: 'root', ends_on: '2023-01-01' })), [
+            "nickname:custom:'root' is not allowed"
+        ]);
+        assert.equal(await Member.count(), 0);
+    });
+});
@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    AuthError,
+    CheckConstraintError,
+    D1ORMError,
+    DatabaseError,
+    ForeignKeyConstraintError,
+    NotFoundError,
+    NotNullConstraintError,
+    RateLimitError,
+    RequestError,
+    UniqueConstraintError,
+    requestError,
+    toD1ORMError
+} from '../src/errors';
+import { createTestDatabase, createTestOrm } from './helpers';
+
+describe('toD1ORMError', () => {
+    it('classifies SQLite constraint messages', () => {
+        const unique = toD1ORMError('UNIQUE constraint failed: users.tenant_id, users.email: SQLITE_CONSTRAINT', {
+            sql: 'INSERT INTO users (tenant_id, email) VALUES (?, ?)',
+            params: [7, 'ada@example.com']
+        });
+        assert.ok(unique instanceof UniqueConstraintError);
+        assert.equal(unique.table, 'users');
+        assert.deepEqual(unique.columns, ['tenant_id', 'email']);
+        assert.deepEqual(unique.value, { tenant_id: 7, email: 'ada@example.com' });
+        assert.equal(unique.code, 'SQLITE_CONSTRAINT');
+
+        assert.ok(toD1ORMError('FOREIGN KEY constraint failed') instanceof ForeignKeyConstraintError);
+
+        const notNull = toD1ORMError('NOT NULL constraint failed: posts.title');
+        assert.ok(notNull instanceof NotNullConstraintError);
+        assert.deepEqual(notNull.columns, ['title']);
+
+        const check = toD1ORMError('CHECK constraint failed: price_positive');
+        assert.ok(check instanceof CheckConstraintError);
+        assert.equal(check.constraint, 'price_positive');
+    });
+
+    it('keeps other failures as DatabaseError with the original message', () => {
+        const error = toD1ORMError(new Error('no such table: missing'), { sql: 'SELECT * FROM missing', tableName: 'missing' });
+        assert.ok(error instanceof DatabaseError);
+        assert.ok(!(error instanceof UniqueConstraintError));
+        assert.equal(error.originalMessage, 'no such table: missing');
+        assert.equal(error.sql, 'SELECT * FROM missing');
+        assert.ok(error.cause instanceof Error);
+    });
+
+    it('fills in missing context on errors that are already typed', () => {
+        const typed = new DatabaseError('failed');
+        assert.equal(toD1ORMError(typed, { sql: 'SELECT 1', params: [] }), typed);
+        assert.equal(typed.sql, 'SELECT 1');
+    });
+});
+
+describe('requestError', () => {
+    it('maps API statuses to typed errors', () => {
+        const limited = requestError(429, 'Too Many Requests', undefined, 1500);
+        assert.ok(limited instanceof RateLimitError);
+        assert.equal(limited.retryAfterMs, 1500);
+        assert.ok(requestError(401, 'Unauthorized') instanceof AuthError);
+        assert.ok(requestError(403, 'Forbidden') instanceof AuthError);
+        assert.ok(requestError(404, 'Not Found') instanceof NotFoundError);
+
+        const server = requestError(500, 'Internal Server Error', { code: 7500, message: 'internal' });
+        assert.ok(server instanceof RequestError);
+        assert.equal(server.status, 500);
+        assert.equal(server.code, 7500);
+    });
+
+    it('reads SQL errors reported as client errors', () => {
+        const error = requestError(400, 'Bad Request', { code: 7500, message: 'UNIQUE constraint failed: users.email' });
+        assert.ok(error instanceof UniqueConstraintError);
+        assert.equal(error.code, 7500);
+    });
+});
+
+describe('errors from queries', () => {
+    it('reports the error code of failed queries', async () => {
+        const db = await createTestDatabase();
+        await db.query('CREATE TABLE users (email TEXT UNIQUE)');
+        await db.query('INSERT INTO users (email) VALUES (?)', ['ada@example.com']);
+
+        const result = await db.query('INSERT INTO users (email) VALUES (?)', ['ada@example.com']);
+        assert.equal(result.success, false);
+        assert.ok(result.errorCode !== undefined);
+    });
+
+    it('throws typed errors with the statement from models', async () => {
+        const orm = await createTestOrm();
+        const User = orm.define('User', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            email: { type: 'string', required: true, unique: true }
+        }, { tableName: 'users', timestamps: false });
+        await orm.sync();
+        await User.create({ email: 'ada@example.com' });
+
+        await assert.rejects(User.create({ email: 'ada@example.com' }), (error: unknown) => {
+            assert.ok(error instanceof UniqueConstraintError);
+            assert.ok(error instanceof D1ORMError);
+            assert.equal(error.tableName, 'users');
+            assert.match(error.sql ?? '', /^INSERT INTO "users"/);
+            assert.deepEqual(error.params, ['ada@example.com']);
+            assert.deepEqual(error.value, { email: 'ada@example.com' });
+            return true;
+        });
+    });
+
+    it('throws typed errors from raw queries', async () => {
+        const orm = await createTestOrm();
+        await orm.raw('CREATE TABLE users (email TEXT UNIQUE)');
+        await orm.raw('INSERT INTO users (email) VALUES (?)', ['ada@example.com']);
+
+        await assert.rejects(orm.raw('INSERT INTO users (email) VALUES (?)', ['ada@example.com']), (error: unknown) => {
+            assert.ok(error instanceof UniqueConstraintError);
+            assert.deepEqual(error.columns, ['email']);
+            assert.ok(error.code !== undefined);
+            assert.equal(error.sql, 'INSERT INTO users (email) VALUES (?)');
+            assert.deepEqual(error.params, ['ada@example.com']);
+            return true;
+        });
+        await assert.rejects(orm.raw('SELECT * FROM missing'), DatabaseError);
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getFieldType, registerFieldType } from '../src/orm/fieldTypes';
+import { TransactionRef } from '../src/orm/Transaction';
+import { createTestOrm } from './helpers';
+
+// Stored as integer cents, used as a number of dollars
+registerFieldType('cents', {
+    sqlType: 'INTEGER',
+    validate: value => typeof value === 'number' && Number.isFinite(value),
+    encode: value => Math.round(value * 100),
+    decode: value => value / 100,
+    fallback: () => 0
+});
+
+describe('field types', () => {
+    it('refuses to replace a built-in type', () => {
+        assert.throws(() => registerFieldType('string', { sqlType: 'TEXT' }), /built-in/);
+        assert.equal(getFieldType('string')?.sqlType instanceof Function, true);
+    });
+
+    it('encodes and decodes registered types', async () => {
+        const orm = await createTestOrm();
+        const Invoice = orm.define('Invoice', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            total: { type: 'cents', required: true }
+        }, { tableName: 'invoices', timestamps: false });
+        await orm.sync();
+
+        const invoice = await Invoice.create({ total: 12.5 });
+        assert.equal(invoice.total, 12.5);
+
+        const stored = await orm.getDatabase().query('SELECT total FROM invoices');
+        assert.deepEqual(stored.results, [{ total: 1250 }]);
+    });
+
+    it('fills empty optional fields from the type fallback', async () => {
+        const orm = await createTestOrm();
+        const db = orm.getDatabase();
+        // A table whose columns are stricter than the model
+        await db.query(`CREATE TABLE readings (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            label TEXT NOT NULL,
+            value REAL NOT NULL,
+            exact TEXT NOT NULL,
+            counter INTEGER NOT NULL,
+            raw BLOB NOT NULL,
+            price INTEGER NOT NULL,
+            contact TEXT
+        )`);
+        const Reading = orm.define('Reading', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            label: { type: 'string', required: true },
+            value: { type: 'real' },
+            exact: { type: 'decimal' },
+            counter: { type: 'bigint' },
+            raw: { type: 'blob' },
+            price: { type: 'cents' },
+            contact: { type: 'email' }
+        }, { tableName: 'readings', timestamps: false });
+
+        const reading = await Reading.create({ label: 'idle' });
+        assert.equal(reading.value, 0);
+        assert.equal(reading.exact, '0');
+        assert.equal(reading.counter, 0n);
+        assert.ok(reading.raw instanceof Uint8Array);
+        assert.equal(reading.raw.byteLength, 0);
+        assert.equal(reading.price, 0);
+        // email has no fallback that would pass its validation
+        assert.equal(reading.contact, null);
+    });
+
+    it('leaves unique and referencing fields out of the fallbacks', async () => {
+        const orm = await createTestOrm();
+        orm.define('Team', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true }
+        }, { tableName: 'teams', timestamps: false });
+        const Member = orm.define('Member', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            name: { type: 'string', required: true },
+            handle: { type: 'string', unique: true },
+            team_id: { type: 'integer', references: { table: 'teams', field: 'id' } },
+            mentor_id: { type: 'integer', exists: { table: 'members' } }
+        }, { tableName: 'members', timestamps: false });
+        await orm.sync();
+
+        await Member.create({ name: 'Ada' });
+        const grace = await Member.create({ name: 'Grace' });
+        assert.equal(grace.handle, null);
+        assert.equal(grace.team_id, null);
+        assert.equal(grace.mentor_id, null);
+    });
+
+    it('hands out pending ids for any rowid primary key type', async () => {
+        const orm = await createTestOrm();
+        const Account = orm.define('Account', {
+            id: { type: 'bigint', primaryKey: true },
+            name: { type: 'string', required: true }
+        }, { tableName: 'accounts', timestamps: false });
+        orm.define('Tag', {
+            code: { type: 'string', primaryKey: true },
+            name: { type: 'string', required: true }
+        }, { tableName: 'tags', timestamps: false });
+        await orm.sync();
+
+        const [account, tag] = await orm.transaction(async trx => {
+            const created = await trx.model('Account').create({ name: 'main' });
+            assert.ok(created.id instanceof TransactionRef);
+            const label = await trx.model('Tag').create({ code: 'news', name: 'News' });
+            assert.equal(label.code, 'news');
+            return [created, label];
+        });
+
+        assert.equal(account.id, 1n);
+        assert.equal(tag.code, 'news');
+        assert.equal((await Account.findByPk(1))?.name, 'main');
+    });
+});
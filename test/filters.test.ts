@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { D1ORM } from '../src/orm/D1ORM';
+import { WhereInput } from '../src/orm/filters';
+import { createTestOrm } from './helpers';
+
+async function setup(): Promise<D1ORM> {
+    const orm = await createTestOrm();
+    orm.define('User', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        name: { type: 'string', required: true },
+        email: { type: 'string', required: true },
+        age: { type: 'integer' },
+        role: { type: 'string', required: true },
+        active: { type: 'boolean', required: true }
+    }, { tableName: 'users', timestamps: false });
+    await orm.sync();
+    const User = orm.model('User');
+    await User.create({ name: 'Ada', email: 'ada@example.com', age: 36, role: 'admin', active: true });
+    await User.create({ name: 'Grace', email: 'grace@navy.mil', age: 85, role: 'member', active: true });
+    await User.create({ name: 'linus', email: 'linus@example.com', age: 17, role: 'member', active: false });
+    await User.create({ name: 'Ken_100%', email: 'ken@bell-labs.com', age: null, role: 'member', active: true });
+    return orm;
+}
+
+async function names(orm: D1ORM, where: WhereInput): Promise<string[]> {
+    const users = await orm.model('User').findAll({ where, orderBy: { id: 'ASC' } });
+    return users.map(user => user.name);
+}
+
+describe('where filters', () => {
+    it('compares with operators, lists and ranges', async () => {
+        const orm = await setup();
+        assert.deepEqual(await names(orm, { age: { gte: 18 } }), ['Ada', 'Grace']);
+        assert.deepEqual(await names(orm, { age: { gt: 17, lt: 85 } }), ['Ada']);
+        assert.deepEqual(await names(orm, { age: { between: [17, 36] } }), ['Ada', 'linus']);
+        assert.deepEqual(await names(orm, { name: { in: ['Ada', 'Grace'] } }), ['Ada', 'Grace']);
+        assert.deepEqual(await names(orm, { name: ['Ada', 'linus'] }), ['Ada', 'linus']);
+        assert.deepEqual(await names(orm, { name: { notIn: ['Ada', 'Grace'] } }), ['linus', 'Ken_100%']);
+        assert.deepEqual(await names(orm, { age: null }), ['Ken_100%']);
+        assert.deepEqual(await names(orm, { age: { not: null } }), ['Ada', 'Grace', 'linus']);
+        assert.deepEqual(await names(orm, { role: { not: 'member' } }), ['Ada']);
+        assert.deepEqual(await names(orm, { age: { not: { lt: 40 } } }), ['Grace']);
+    });
+
+    it('encodes compared values like the column', async () => {
+        const orm = await setup();
+        assert.deepEqual(await names(orm, { active: false }), ['linus']);
+        assert.deepEqual(await names(orm, { active: { equals: true }, role: 'member' }), ['Grace', 'Ken_100%']);
+    });
+
+    it('matches text case-sensitively unless insensitive', async () => {
+        const orm = await setup();
+        assert.deepEqual(await names(orm, { email: { endsWith: '@example.com' } }), ['Ada', 'linus']);
+        assert.deepEqual(await names(orm, { name: { startsWith: 'L' } }), []);
+        assert.deepEqual(await names(orm, { name: { startsWith: 'L', mode: 'insensitive' } }), ['linus']);
+        assert.deepEqual(await names(orm, { name: { equals: 'ADA', mode: 'insensitive' } }), ['Ada']);
+        assert.deepEqual(await names(orm, { email: { contains: 'NAVY', mode: 'insensitive' } }), ['Grace']);
+    });
+
+    it('escapes wildcards in the searched text', async () => {
+        const orm = await setup();
+        assert.deepEqual(await names(orm, { name: { contains: '_1' } }), ['Ken_100%']);
+        assert.deepEqual(await names(orm, { name: { endsWith: '%', mode: 'insensitive' } }), ['Ken_100%']);
+        assert.deepEqual(await names(orm, { name: { contains: '*' } }), []);
+    });
+
+    it('combines conditions with AND, OR and NOT', async () => {
+        const orm = await setup();
+        assert.deepEqual(await names(orm, {
+            active: true,
+            OR: [{ role: 'admin' }, { email: { endsWith: '.mil' } }]
+        }), ['Ada', 'Grace']);
+        assert.deepEqual(await names(orm, { NOT: { role: 'member' } }), ['Ada']);
+        assert.deepEqual(await names(orm, { AND: [{ age: { gt: 10 } }, { age: { lt: 50 } }] }), ['Ada', 'linus']);
+        assert.deepEqual(await names(orm, { OR: [] }), []);
+    });
+
+    it('applies filters to counts, updates and deletes', async () => {
+        const orm = await setup();
+        const User = orm.model('User');
+        assert.equal(await User.count({ age: { lt: 40 } }), 2);
+
+        await User.update({ role: 'guest' }, { age: { lt: 18 } });
+        assert.deepEqual(await names(orm, { role: 'guest' }), ['linus']);
+
+        await User.delete({ OR: [{ age: null }, { role: 'guest' }] });
+        assert.deepEqual(await names(orm, {}), ['Ada', 'Grace']);
+    });
+
+    it('rejects unknown filter keys', async () => {
+        const orm = await setup();
+        await assert.rejects(names(orm, { age: { greaterThan: 18 } }), /Unknown filter 'greaterThan' on field 'age'/);
+    });
+});
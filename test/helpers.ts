@@ -0,0 +1,37 @@
+/**
+ * Shared setup for the test suite: every test runs against its own in-memory SQLite database
+ */
+
+import { DatabaseService } from '../src/classes/DatabaseService';
+import { SqliteDriver } from '../src/drivers/SqliteDriver';
+import { D1ORM, D1ORMOptions } from '../src/orm/D1ORM';
+import { NamingStrategy } from '../src/orm/naming';
+import { Logger } from '../src/types/database';
+
+export const silentLogger: Logger = {
+    log() { },
+    warn() { },
+    error() { }
+};
+
+/**
+ * Initialized service over a fresh in-memory database
+ */
+export async function createTestDatabase(): Promise<DatabaseService> {
+    const db = new DatabaseService({
+        driver: new SqliteDriver(),
+        logger: silentLogger,
+        migrationsDir: './test/.no-migrations'
+    });
+    await db.initialize();
+    return db;
+}
+
+/**
+ * ORM over a fresh in-memory database
+ */
+export async function createTestOrm<N extends NamingStrategy = 'preserve'>(
+    options: Omit<D1ORMOptions, 'database'> & { naming?: N } = {}
+): Promise<D1ORM<N>> {
+    return new D1ORM<N>({ ...options, database: await createTestDatabase() });
+}
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { D1ORM } from '../src/orm/D1ORM';
+import { createTestOrm } from './helpers';
+
+async function setup(options: { softDeletes?: boolean } = {}): Promise<D1ORM> {
+    const orm = await createTestOrm();
+    orm.define('Category', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        name: { type: 'string', required: true },
+        parent_id: { type: 'integer' },
+        up_id: { type: 'integer' }
+    }, { tableName: 'categories', timestamps: false, ...options });
+    await orm.sync();
+    const columns = options.softDeletes ? 'id, name, parent_id, up_id, deleted_at' : 'id, name, parent_id, up_id';
+    const deleted = options.softDeletes ? ", '2024-01-01'" : '';
+    const live = options.softDeletes ? ', NULL' : '';
+    // books > fiction > (fantasy > epic, crime); music
+    await orm.getDatabase().query(`INSERT INTO categories (${columns}) VALUES
+        (1, 'books', NULL, NULL${live}), (2, 'fiction', 1, 1${live}), (3, 'fantasy', 2, 2${live}),
+        (4, 'epic', 3, 3${live}), (5, 'crime', 2, 2${deleted}), (6, 'music', NULL, NULL${live})`);
+    return orm;
+}
+
+function levels(rows: Array<{ name: string; depth: number }>): string[] {
+    return rows.map(row => `${row.depth}:${row.name}`);
+}
+
+describe('hierarchy queries', () => {
+    it('finds descendants level by level', async () => {
+        const orm = await setup();
+        const Category = orm.model('Category');
+
+        const rows = await Category.findDescendants(1);
+        assert.deepEqual(levels(rows).slice(0, 1), ['1:fiction']);
+        assert.deepEqual(levels(rows).slice(1).sort(), ['2:crime', '2:fantasy', '3:epic']);
+        assert.equal(rows[0].parent_id, 1);
+        assert.deepEqual(await Category.findDescendants(6), []);
+    });
+
+    it('finds ancestors nearest first', async () => {
+        const orm = await setup();
+        assert.deepEqual(levels(await orm.model('Category').findAncestors(4)), ['1:fantasy', '2:fiction', '3:books']);
+    });
+
+    it('includes the starting row, limits depth and follows another parent column', async () => {
+        const orm = await setup();
+        const Category = orm.model('Category');
+
+        assert.deepEqual(levels(await Category.findAncestors(4, { includeSelf: true, maxDepth: 2 })), ['0:epic', '1:fantasy', '2:fiction']);
+        assert.deepEqual(levels(await Category.findAncestors(3, { parentField: 'up_id' })), ['1:fiction', '2:books']);
+    });
+
+    it('stops at maxDepth when the rows form a cycle', async () => {
+        const orm = await setup();
+        await orm.getDatabase().query('UPDATE categories SET parent_id = 4 WHERE id = 1');
+        const rows = await orm.model('Category').findDescendants(1, { maxDepth: 6 });
+        assert.equal(Math.max(...rows.map(row => row.depth)), 6);
+    });
+
+    it('skips soft-deleted rows', async () => {
+        const orm = await setup({ softDeletes: true });
+        const names = (await orm.model('Category').findDescendants(2)).map(row => row.name);
+        assert.deepEqual(names, ['fantasy', 'epic']);
+    });
+});
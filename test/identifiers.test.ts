@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { quoteIdentifier } from '../src/utils/sql';
+import { UnknownColumnError } from '../src/errors';
+import { createTestDatabase, createTestOrm } from './helpers';
+
+describe('identifier quoting', () => {
+    it('quotes plain and qualified names and rejects anything else', () => {
+        assert.equal(quoteIdentifier('users'), '"users"');
+        assert.equal(quoteIdentifier('users.*'), '"users".*');
+        assert.throws(() => quoteIdentifier('name; DROP TABLE users'), /Invalid identifier/);
+        assert.throws(() => quoteIdentifier('id"'), /Invalid identifier/);
+    });
+
+    it('rejects column names from callers that are not identifiers', async () => {
+        const orm = await createTestOrm();
+        const User = orm.define('User', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            name: { type: 'string' }
+        }, { tableName: 'users', timestamps: false });
+        await orm.sync();
+
+        await assert.rejects(User.findAll({ orderBy: { 'name; DROP TABLE users': 'ASC' } }), /Invalid identifier/);
+        await assert.rejects(User.findAll({ where: { '1=1 OR name': 'x' } }), /Invalid identifier/);
+        assert.equal(await orm.getDatabase().tableExists('users'), true);
+    });
+
+    it('only accepts declared columns on a strict schema', async () => {
+        const orm = await createTestOrm({ strict: true });
+        const User = orm.define('User', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            name: { type: 'string' }
+        }, { tableName: 'users', timestamps: false });
+        await orm.sync();
+
+        await assert.rejects(User.findAll({ where: { password: 'x' } }), (error: unknown) => {
+            assert.ok(error instanceof UnknownColumnError);
+            assert.deepEqual(error.columns, ['password']);
+            return true;
+        });
+        await assert.rejects(User.create({ name: 'Ada', is_admin: true } as any), UnknownColumnError);
+        assert.deepEqual(await User.findAll({ where: { name: 'Ada' } }), []);
+    });
+
+    it('reads the schema of tables whose names need escaping', async () => {
+        const db = await createTestDatabase();
+        await db.query('CREATE TABLE "audit-log" ("entry id" INTEGER PRIMARY KEY, message TEXT)');
+        await db.query('CREATE TABLE users (id INTEGER PRIMARY KEY)');
+
+        const schemas = await db.getAllTableSchemas();
+        assert.deepEqual(schemas.map(schema => schema.name).sort(), ['_migrations', 'audit-log', 'users']);
+
+        const audit = await db.getTableSchema('audit-log');
+        assert.deepEqual(audit.columns.map(column => column.name), ['entry id', 'message']);
+    });
+});
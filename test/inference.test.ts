@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InferCreateInput, InferRow, InferUpdateInput } from '../src/orm/infer';
+import { raw } from '../src/orm/QueryBuilder';
+import { createTestOrm } from './helpers';
+
+// Compile-time assertions; the runtime checks below keep the schema honest
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+function expectType<T extends true>(): T | void { }
+
+const postSchema = {
+    id: { type: 'integer', primaryKey: true, autoIncrement: true },
+    title: { type: 'string', required: true },
+    status: { type: 'enum', enum: ['draft', 'published'], default: 'draft' },
+    views: { type: 'integer' },
+    meta: { type: 'json' }
+} as const;
+
+type Post = InferRow<typeof postSchema, { timestamps: false }>;
+type PostInput = InferCreateInput<typeof postSchema, { timestamps: false }>;
+type PostUpdate = InferUpdateInput<typeof postSchema, { timestamps: false }>;
+
+expectType<Equal<Post['status'], 'draft' | 'published'>>();
+expectType<Equal<Post['views'], number | null | undefined>>();
+expectType<Equal<PostInput, { title: string; id?: number | null; status?: 'draft' | 'published' | null; views?: number | null; meta?: any }>>();
+expectType<Equal<keyof PostUpdate, 'id' | 'title' | 'status' | 'views' | 'meta'>>();
+expectType<Equal<keyof InferRow<typeof postSchema, { softDeletes: true }>, keyof Post | 'created_at' | 'updated_at' | 'deleted_at'>>();
+expectType<Equal<keyof InferRow<typeof postSchema, { timestamps: false; naming: 'snake_case'; softDeletes: true }>, keyof Post | 'deletedAt'>>();
+
+describe('schema type inference', () => {
+    it('types models defined from a schema', async () => {
+        const orm = await createTestOrm();
+        const Post = orm.define('Post', postSchema, { tableName: 'posts', timestamps: false });
+        await orm.sync();
+
+        // @ts-expect-error title is required
+        await assert.rejects(Post.create({ views: 1 }));
+        // @ts-expect-error status only takes the enum values
+        await assert.rejects(Post.create({ title: 'Hello', status: 'archived' }));
+
+        const post = await Post.create({ title: 'Hello' });
+        const status: 'draft' | 'published' = post.status;
+        assert.equal(status, 'draft');
+        assert.equal(post.title, 'Hello');
+
+        const found = await Post.findByPk(post.id);
+        assert.equal(found?.title.toUpperCase(), 'HELLO');
+
+        // Prisma-style upserts take values or raw() expressions for the existing row
+        const upserted = await Post.upsert({ where: { id: post.id }, create: { title: 'Hello' }, update: { views: raw('COALESCE("views", 0) + 1') } });
+        assert.equal(upserted.record.views, 1);
+        // @ts-expect-error views takes numbers or raw() expressions
+        await assert.rejects(Post.upsert({ where: { id: post.id }, create: { title: 'Hello' }, update: { views: 'many' } }));
+    });
+
+    it('adds timestamp fields unless they are disabled', async () => {
+        const orm = await createTestOrm();
+        const Note = orm.define('Note', { body: { type: 'text', required: true } }, { tableName: 'notes' });
+        await orm.sync();
+
+        const note = await Note.create({ body: 'hi' });
+        const created: Date | string = note.created_at;
+        assert.ok(created instanceof Date);
+        // Tables without a declared key get an integer id
+        const id: number = note.id;
+        assert.equal(id, 1);
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NotNullConstraintError, UniqueConstraintError, toD1ORMError } from '../src/errors';
+import { createTestOrm } from './helpers';
+
+describe('naming strategies', () => {
+    it('stores properties in snake_case columns and reads them back', async () => {
+        const orm = await createTestOrm({ naming: 'snake_case' });
+        const User = orm.define('User', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            firstName: { type: 'string', required: true },
+            emailAddress: { type: 'string', unique: true, default: null }
+        }, { tableName: 'users', timestamps: false });
+        await orm.sync();
+
+        const user = await User.create({ firstName: 'Ada', emailAddress: 'ada@example.com' });
+        assert.equal(user.firstName, 'Ada');
+
+        const stored = await orm.getDatabase().query('SELECT first_name, email_address FROM users');
+        assert.deepEqual(stored.results, [{ first_name: 'Ada', email_address: 'ada@example.com' }]);
+        assert.equal((await User.findOne({ where: { emailAddress: 'ada@example.com' } }))?.firstName, 'Ada');
+    });
+
+    it('reports unique violations by property name', async () => {
+        const orm = await createTestOrm({ naming: 'snake_case' });
+        const User = orm.define('User', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            emailAddress: { type: 'string', unique: true, default: null }
+        }, { tableName: 'users', timestamps: false });
+        await orm.sync();
+        await User.create({ emailAddress: 'ada@example.com' });
+
+        await assert.rejects(User.create({ emailAddress: 'ada@example.com' }), (error: unknown) => {
+            assert.ok(error instanceof UniqueConstraintError);
+            assert.equal(error.table, 'users');
+            assert.deepEqual(error.columns, ['emailAddress']);
+            assert.deepEqual(error.value, { emailAddress: 'ada@example.com' });
+            assert.match(error.message, /emailAddress already exists/);
+            return true;
+        });
+    });
+
+    it('reports not null violations by property name', async () => {
+        const orm = await createTestOrm();
+        await orm.getDatabase().query('CREATE TABLE people (id INTEGER PRIMARY KEY, nickname TEXT, last_name TEXT NOT NULL)');
+        const Person = orm.define('Person', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            nickname: { type: 'string', required: true },
+            lastName: { type: 'email', column: 'last_name' }
+        }, { tableName: 'people', timestamps: false });
+
+        await assert.rejects(Person.create({ nickname: 'Ada' }), (error: unknown) => {
+            assert.ok(error instanceof NotNullConstraintError);
+            assert.deepEqual(error.columns, ['lastName']);
+            assert.match(error.message, /Field 'lastName' is optional/);
+            return true;
+        });
+    });
+
+    it('keeps column names for errors raised outside a model', async () => {
+        const orm = await createTestOrm({ naming: 'snake_case' });
+        orm.define('User', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            emailAddress: { type: 'string', unique: true, default: null }
+        }, { tableName: 'users', timestamps: false });
+        await orm.sync();
+
+        const db = orm.getDatabase();
+        await db.query('INSERT INTO users (email_address) VALUES (?)', ['ada@example.com']);
+        const result = await db.query('INSERT INTO users (email_address) VALUES (?)', ['ada@example.com']);
+        const error = toD1ORMError(result.error);
+        assert.ok(error instanceof UniqueConstraintError);
+        assert.deepEqual(error.columns, ['email_address']);
+    });
+
+    it('recovers conflicting values from an UPDATE with RETURNING and no WHERE', () => {
+        const error = toD1ORMError(new Error('UNIQUE constraint failed: users.email'), {
+            sql: 'UPDATE "users" SET "email" = ? RETURNING *',
+            params: ['ada@example.com']
+        });
+        assert.ok(error instanceof UniqueConstraintError);
+        assert.deepEqual(error.value, { email: 'ada@example.com' });
+    });
+
+    it('names timestamp fields after the naming strategy', async () => {
+        const orm = await createTestOrm({ naming: 'snake_case' });
+        const Post = orm.define('Post', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            title: { type: 'string', required: true }
+        }, { tableName: 'posts', softDeletes: true });
+        await orm.sync();
+
+        const post = await Post.create({ title: 'Hello' });
+        const createdAt: Date | string = post.createdAt;
+        assert.ok(createdAt instanceof Date);
+        assert.ok(post.updatedAt instanceof Date);
+
+        const columns = await orm.getDatabase().query('SELECT name FROM pragma_table_info(?)', ['posts']);
+        assert.deepEqual(columns.results.map(column => column.name), ['id', 'title', 'created_at', 'updated_at', 'deleted_at']);
+
+        await Post.delete({ id: post.id });
+        assert.equal(await Post.count(), 0);
+    });
+
+    it('keeps snake_case timestamp fields when names are preserved', async () => {
+        const orm = await createTestOrm();
+        const Post = orm.define('Post', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            title: { type: 'string', required: true }
+        }, { tableName: 'posts' });
+        await orm.sync();
+
+        const post = await Post.create({ title: 'Hello' });
+        const createdAt: Date | string = post.created_at;
+        assert.ok(createdAt instanceof Date);
+    });
+
+    it('lets a schema strategy and explicit names override the defaults', async () => {
+        const orm = await createTestOrm({ naming: 'snake_case' });
+        const Post = orm.define('Post', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            title: { type: 'string', required: true }
+        }, { tableName: 'posts', naming: 'preserve', updatedAt: 'modified' });
+        await orm.sync();
+
+        const post = await Post.create({ title: 'Hello' });
+        assert.ok(post.created_at instanceof Date);
+        assert.ok(post.modified instanceof Date);
+    });
+});
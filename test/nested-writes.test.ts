@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { D1ORM } from '../src/orm/D1ORM';
+import { createTestOrm } from './helpers';
+
+async function setup(): Promise<D1ORM> {
+    const orm = await createTestOrm();
+    const options = { timestamps: false } as const;
+    orm.define('Customer', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        email: { type: 'string', required: true, unique: true }
+    }, { tableName: 'customers', ...options });
+    orm.define('Order', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        reference: { type: 'string', required: true, unique: true },
+        customer_id: { type: 'integer' }
+    }, { tableName: 'orders', ...options });
+    orm.define('Item', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        order_id: { type: 'integer' },
+        sku: { type: 'string', required: true, unique: true },
+        qty: { type: 'integer', required: true }
+    }, { tableName: 'items', ...options });
+    orm.define('Tag', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        label: { type: 'string', required: true, unique: true }
+    }, { tableName: 'tags', ...options });
+    orm.belongsTo('Order', 'Customer', { as: 'customer' })
+        .hasMany('Order', 'Item', { as: 'items' })
+        .belongsToMany('Order', 'Tag', { through: 'order_tags' });
+    await orm.sync();
+    await orm.getDatabase().query('CREATE TABLE order_tags (order_id INTEGER NOT NULL, tag_id INTEGER NOT NULL)');
+    return orm;
+}
+
+async function loadOrder(orm: D1ORM, id: number) {
+    const order = await orm.model('Order').findById(id, { include: ['customer', 'items', 'tags'] });
+    return {
+        customer: order?.customer?.email ?? null,
+        items: order?.items.map((item: any) => `${item.sku}x${item.qty}`).sort(),
+        tags: order?.tags.map((tag: any) => tag.label).sort()
+    };
+}
+
+describe('nested writes', () => {
+    it('creates a record with connected and created relations', async () => {
+        const orm = await setup();
+        await orm.model('Customer').create({ email: 'ann@example.com' });
+        const gift = await orm.model('Tag').create({ label: 'gift' });
+
+        const order = await orm.model('Order').create({
+            reference: 'A-1001',
+            customer: { connect: { email: 'ann@example.com' } },
+            items: { create: [{ sku: 'KB-01', qty: 1 }, { sku: 'MS-02', qty: 2 }] },
+            tags: { connect: [{ id: gift.id }], create: { label: 'rush' } }
+        });
+
+        assert.deepEqual(await loadOrder(orm, order.id), {
+            customer: 'ann@example.com',
+            items: ['KB-01x1', 'MS-02x2'],
+            tags: ['gift', 'rush']
+        });
+    });
+
+    it('rolls the whole write back when a related statement fails', async () => {
+        const orm = await setup();
+        await orm.model('Item').create({ sku: 'KB-01', qty: 1 });
+
+        await assert.rejects(orm.model('Order').create({
+            reference: 'A-1002',
+            items: { create: [{ sku: 'MS-02', qty: 1 }, { sku: 'KB-01', qty: 1 }] }
+        }));
+
+        assert.equal(await orm.model('Order').count(), 0);
+        assert.equal(await orm.model('Item').count(), 1);
+    });
+
+    it('sets, disconnects and creates relations on update', async () => {
+        const orm = await setup();
+        const order = await orm.model('Order').create({
+            reference: 'A-1003',
+            items: { create: [{ sku: 'KB-01', qty: 1 }, { sku: 'MS-02', qty: 2 }] },
+            tags: { create: [{ label: 'gift' }, { label: 'fragile' }] }
+        });
+        await orm.model('Tag').create({ label: 'rush' });
+
+        await orm.model('Order').updateById(order.id, {
+            tags: { set: [{ label: 'rush' }] },
+            items: { disconnect: [{ sku: 'MS-02' }], create: [{ sku: 'CB-03', qty: 1 }] }
+        });
+
+        assert.deepEqual(await loadOrder(orm, order.id), {
+            customer: null,
+            items: ['CB-03x1', 'KB-01x1'],
+            tags: ['rush']
+        });
+        // Disconnected rows stay, without the foreign key
+        assert.equal((await orm.model('Item').findOne({ where: { sku: 'MS-02' } }))?.order_id, null);
+    });
+
+    it('rejects arrays for single-record relations', async () => {
+        const orm = await setup();
+        await assert.rejects(orm.model('Order').create({
+            reference: 'A-1004',
+            customer: { create: [{ email: 'ann@example.com' }] }
+        }), /accepts a single record/);
+    });
+});
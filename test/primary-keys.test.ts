@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ulid } from '../src/orm/keys';
+import { BulkOperations } from '../src/orm/advanced/BulkOperations';
+import { D1ORM } from '../src/orm/D1ORM';
+import { createTestOrm } from './helpers';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+// batchInsert lives on the bulk operations of a model
+function bulk(orm: D1ORM, modelName: string): BulkOperations {
+    return new BulkOperations(orm.getDatabase(), orm.getSchema(modelName));
+}
+
+describe('primary keys', () => {
+    it('creates the implicit id of schemas without a key', async () => {
+        const orm = await createTestOrm();
+        const Note = orm.define('Note', {
+            body: { type: 'text', required: true }
+        }, { tableName: 'notes', timestamps: false });
+        await orm.sync();
+
+        const note = await Note.create({ body: 'hi' });
+        assert.equal(note.id, 1);
+        assert.equal((await Note.findByPk(1))?.body, 'hi');
+    });
+
+    it('generates text keys on create', async () => {
+        const orm = await createTestOrm();
+        const Session = orm.define('Session', {
+            id: { type: 'string', primaryKey: true, generate: 'uuid' },
+            label: { type: 'string', required: true }
+        }, { tableName: 'sessions' });
+        await orm.sync();
+
+        const session = await Session.create({ label: 'web' });
+        assert.match(session.id, UUID);
+        assert.equal((await Session.findByPk(session.id))?.label, 'web');
+    });
+
+    it('writes generated keys, defaults and timestamps in batchInsert', async () => {
+        const orm = await createTestOrm();
+        const Event = orm.define('Event', {
+            id: { type: 'string', primaryKey: true, generate: 'ulid' },
+            name: { type: 'string', required: true },
+            level: { type: 'string', default: 'info' },
+            source: { type: 'string' }
+        }, { tableName: 'events' });
+        await orm.sync();
+
+        const result = await bulk(orm, 'Event').batchInsert([{ name: 'boot' }, { name: 'ready', source: 'worker' }]);
+        assert.deepEqual(result.errors, []);
+        assert.equal(result.created, 2);
+
+        const events = await Event.findAll({ orderBy: 'name' });
+        for (const event of events) {
+            assert.equal(typeof event.id, 'string');
+            assert.equal(event.id.length, 26);
+            assert.equal(event.level, 'info');
+            assert.ok(event.created_at instanceof Date);
+            assert.ok(event.updated_at instanceof Date);
+        }
+        assert.deepEqual(events.map(event => event.source), ['', 'worker']);
+    });
+
+    it('splits batchInsert statements under the bound parameter limit', async () => {
+        const orm = await createTestOrm();
+        const Item = orm.define('Item', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            name: { type: 'string', required: true }
+        }, { tableName: 'items', timestamps: false });
+        await orm.sync();
+
+        const result = await bulk(orm, 'Item').batchInsert(Array.from({ length: 250 }, (_, i) => ({ name: `item ${i}` })));
+        assert.equal(result.created, 250);
+        assert.equal(await Item.count(), 250);
+    });
+
+    it('reads, updates and deletes rows by composite key', async () => {
+        const orm = await createTestOrm();
+        const Stock = orm.define('Stock', {
+            tenant_id: { type: 'integer', primaryKey: true },
+            sku: { type: 'string', primaryKey: true },
+            quantity: { type: 'integer', required: true }
+        }, { tableName: 'stock', timestamps: false });
+        await orm.sync();
+
+        await Stock.create({ tenant_id: 1, sku: 'A-1', quantity: 5 });
+        await Stock.create({ tenant_id: 2, sku: 'A-1', quantity: 7 });
+
+        assert.equal((await Stock.findByPk({ tenant_id: 2, sku: 'A-1' }))?.quantity, 7);
+        assert.equal((await Stock.updateById({ tenant_id: 1, sku: 'A-1' }, { quantity: 6 }))?.quantity, 6);
+        assert.equal(await Stock.deleteById({ tenant_id: 2, sku: 'A-1' }), true);
+        assert.deepEqual((await Stock.findAll()).map(row => row.quantity), [6]);
+        await assert.rejects(Stock.findByPk(1), /composite primary key/);
+    });
+
+    it('orders ulids by creation time', () => {
+        assert.ok(ulid(1_000) < ulid(2_000));
+    });
+});
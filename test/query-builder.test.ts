@@ -0,0 +1,328 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { D1ORM } from '../src/orm/D1ORM';
+import { QueryBuilder, raw } from '../src/orm/QueryBuilder';
+import { createTestOrm } from './helpers';
+
+async function setup(): Promise<D1ORM> {
+    const orm = await createTestOrm();
+    const db = orm.getDatabase();
+    await db.query(`CREATE TABLE documents (
+        id INTEGER PRIMARY KEY, title TEXT, owner_id INTEGER, status TEXT, public INTEGER, archived INTEGER)`);
+    await db.query(`INSERT INTO documents (id, title, owner_id, status, public, archived) VALUES
+        (1, 'Roadmap', 7, 'published', 0, 0),
+        (2, 'Minutes', 7, 'draft', 1, 0),
+        (3, 'Budget', 8, 'draft', 1, 0),
+        (4, 'Archive', 8, 'published', 0, 1),
+        (5, 'Notes', 7, 'draft', 0, 0)`);
+    return orm;
+}
+
+async function blog(): Promise<D1ORM> {
+    const orm = await createTestOrm();
+    const db = orm.getDatabase();
+    await db.query('CREATE TABLE authors (id INTEGER PRIMARY KEY, name TEXT)');
+    await db.query('CREATE TABLE posts (id INTEGER PRIMARY KEY, author_id INTEGER, title TEXT, views INTEGER, published INTEGER)');
+    await db.query("INSERT INTO authors (id, name) VALUES (1, 'Ada'), (2, 'Grace'), (3, 'Linus')");
+    await db.query(`INSERT INTO posts (id, author_id, title, views, published) VALUES
+        (1, 1, 'Engines', 120, 1), (2, 1, 'Notes', 5, 1), (3, 2, 'Compilers', 40, 1), (4, 3, 'Kernels', 300, 0)`);
+    return orm;
+}
+
+async function titles(orm: D1ORM, query: QueryBuilder): Promise<string[]> {
+    const { sql, params } = query.orderBy('id').build();
+    return (await orm.raw<{ title: string }>(sql, params)).map(row => row.title);
+}
+
+describe('grouped conditions', () => {
+    it('joins OR groups and NOT clauses in call order', async () => {
+        const orm = await setup();
+        const query = orm.query('documents')
+            .where('status', '=', 'published')
+            .orWhere(q => q.where('owner_id', '=', 7).where('public', '=', 1))
+            .whereNot('archived', '=', 1);
+
+        assert.deepEqual(query.build(), {
+            sql: 'SELECT * FROM "documents" WHERE "status" = ? OR ("owner_id" = ? AND "public" = ?) AND NOT ("archived" = ?)',
+            params: ['published', 7, 1, 1]
+        });
+        // AND binds tighter than OR, so the NOT only applies to the group
+        assert.deepEqual(await titles(orm, query), ['Roadmap', 'Minutes', 'Archive']);
+    });
+
+    it('negates whole groups', async () => {
+        const orm = await setup();
+        const query = orm.query('documents')
+            .whereNot(q => q.where('status', '=', 'draft').orWhere('archived', '=', 1))
+            .orWhereNot('owner_id', '=', 7);
+
+        assert.deepEqual(query.build(), {
+            sql: 'SELECT * FROM "documents" WHERE NOT ("status" = ? OR "archived" = ?) OR NOT ("owner_id" = ?)',
+            params: ['draft', 1, 7]
+        });
+        assert.deepEqual(await titles(orm, query), ['Roadmap', 'Budget', 'Archive']);
+    });
+
+    it('nests groups and keeps them in counts, updates and deletes', async () => {
+        const orm = await setup();
+        const where = (q: QueryBuilder) => q
+            .where('owner_id', '=', 8)
+            .orWhere(inner => inner.where('status', '=', 'draft').whereNot(g => g.where('public', '=', 1)));
+
+        assert.equal(where(orm.query('documents')).buildCount().sql,
+            'SELECT COUNT(*) as count FROM "documents" WHERE "owner_id" = ? OR ("status" = ? AND NOT ("public" = ?))');
+        assert.deepEqual(await titles(orm, where(orm.query('documents'))), ['Budget', 'Archive', 'Notes']);
+
+        const update = where(orm.query('documents')).buildUpdate({ archived: 1 });
+        assert.deepEqual(update.params, [1, 8, 'draft', 1]);
+        await orm.raw(update.sql, update.params);
+        assert.deepEqual(await titles(orm, orm.query('documents').where('archived', '=', 1)), ['Budget', 'Archive', 'Notes']);
+
+        const remove = where(orm.query('documents')).buildDelete();
+        await orm.raw(remove.sql, remove.params);
+        assert.deepEqual(await titles(orm, orm.query('documents')), ['Roadmap', 'Minutes']);
+    });
+
+    it('groups HAVING conditions', () => {
+        const query = new QueryBuilder('documents')
+            .select('owner_id')
+            .groupBy('owner_id')
+            .having('n', '>', 1)
+            .orHaving(q => q.having('m', '<', 2));
+        assert.equal(query.build().sql,
+            'SELECT "owner_id" FROM "documents" GROUP BY "owner_id" HAVING "n" > ? OR ("m" < ?)');
+    });
+});
+
+describe('subqueries and raw fragments', () => {
+    async function names(orm: D1ORM, query: QueryBuilder): Promise<string[]> {
+        const { sql, params } = query.orderBy('name').build();
+        return (await orm.raw<{ name: string }>(sql, params)).map(row => row.name);
+    }
+
+    it('filters with IN subqueries, keeping parameter order', async () => {
+        const orm = await blog();
+        const query = orm.query('authors')
+            .where('name', '!=', 'Ada')
+            .whereIn('id', orm.query('posts').select('author_id').where('published', '=', 1))
+            .orWhere('name', '=', 'Linus');
+
+        assert.deepEqual(query.build(), {
+            sql: 'SELECT * FROM "authors" WHERE "name" != ? AND "id" IN (SELECT "author_id" FROM "posts" WHERE "published" = ?) OR "name" = ?',
+            params: ['Ada', 1, 'Linus']
+        });
+        assert.deepEqual(await names(orm, query), ['Grace', 'Linus']);
+        assert.deepEqual(await names(orm, orm.query('authors').whereNotIn('id', raw('SELECT author_id FROM posts'))), []);
+    });
+
+    it('filters with correlated EXISTS subqueries', async () => {
+        const orm = await blog();
+        const popular = orm.query('posts').select(raw('1')).whereRaw('posts.author_id = authors.id').where('views', '>', 100);
+
+        assert.equal(orm.query('authors').whereExists(popular).build().sql,
+            'SELECT * FROM "authors" WHERE EXISTS (SELECT 1 FROM "posts" WHERE (posts.author_id = authors.id) AND "views" > ?)');
+        assert.deepEqual(await names(orm, orm.query('authors').whereExists(popular)), ['Ada', 'Linus']);
+        assert.deepEqual(await names(orm, orm.query('authors').whereNotExists(
+            raw('SELECT 1 FROM posts WHERE posts.author_id = authors.id AND published = ?', [0])
+        )), ['Ada', 'Grace']);
+    });
+
+    it('selects from a derived table', async () => {
+        const orm = await blog();
+        const counts = orm.query('posts').select('author_id', raw('COUNT(*) AS n')).groupBy('author_id');
+        const { sql, params } = orm.query().from(counts, 'c').where('n', '>', 1).build();
+
+        assert.equal(sql, 'SELECT * FROM (SELECT "author_id", COUNT(*) AS n FROM "posts" GROUP BY "author_id") AS "c" WHERE "n" > ?');
+        assert.deepEqual(await orm.raw(sql, params), [{ author_id: 1, n: 2 }]);
+    });
+
+    it('embeds raw expressions with their parameters', async () => {
+        const orm = await blog();
+        const { sql, params } = orm.query('posts')
+            .select('title', raw('LENGTH(title) AS len'))
+            .whereRaw('views > ?', [100])
+            .orWhereRaw(raw('title LIKE ?', ['N%']))
+            .orderBy(raw('LENGTH(title)'), 'DESC')
+            .orderBy('title')
+            .build();
+
+        assert.equal(sql, 'SELECT "title", LENGTH(title) AS len FROM "posts" WHERE (views > ?) OR (title LIKE ?) ORDER BY LENGTH(title) DESC, "title" ASC');
+        assert.deepEqual(params, [100, 'N%']);
+        assert.deepEqual(await orm.raw(sql, params), [
+            { title: 'Engines', len: 7 },
+            { title: 'Kernels', len: 7 },
+            { title: 'Notes', len: 5 }
+        ]);
+    });
+
+    it('accepts subqueries in model filters', async () => {
+        const orm = await blog();
+        orm.define('Author', {
+            id: { type: 'integer', primaryKey: true },
+            name: { type: 'string', required: true }
+        }, { tableName: 'authors', timestamps: false });
+
+        const authors = await orm.model('Author').findAll({
+            where: { id: { in: orm.query('posts').select('author_id').where('views', '<', 50) } },
+            orderBy: { id: 'ASC' }
+        });
+        assert.deepEqual(authors.map(author => author.name), ['Ada', 'Grace']);
+    });
+});
+
+describe('common table expressions', () => {
+    it('selects from named subqueries', async () => {
+        const orm = await blog();
+        const { sql, params } = orm.query('popular')
+            .with('popular', orm.query('posts').select('id', 'title').where('views', '>', 50), ['post_id', 'heading'])
+            .where('post_id', '<', 4)
+            .build();
+
+        assert.equal(sql, 'WITH "popular"("post_id", "heading") AS (SELECT "id", "title" FROM "posts" WHERE "views" > ?) SELECT * FROM "popular" WHERE "post_id" < ?');
+        assert.deepEqual(params, [50, 4]);
+        assert.deepEqual(await orm.raw(sql, params), [{ post_id: 1, heading: 'Engines' }]);
+    });
+
+    it('builds recursive queries from an initial and a recursive step', async () => {
+        const orm = await blog();
+        const { sql, params } = orm.query('n')
+            .withRecursive('n', raw('SELECT ?', [1]), orm.query('n').select(raw('x + 1')).where('x', '<', 5), ['x'])
+            .build();
+
+        assert.equal(sql, 'WITH RECURSIVE "n"("x") AS (SELECT ? UNION ALL SELECT x + 1 FROM "n" WHERE "x" < ?) SELECT * FROM "n"');
+        assert.deepEqual((await orm.raw<{ x: number }>(sql, params)).map(row => row.x), [1, 2, 3, 4, 5]);
+    });
+});
+
+describe('compound queries', () => {
+    async function seed(): Promise<D1ORM> {
+        const orm = await createTestOrm();
+        const db = orm.getDatabase();
+        await db.query('CREATE TABLE customers (name TEXT, city TEXT)');
+        await db.query('CREATE TABLE suppliers (name TEXT, city TEXT)');
+        await db.query("INSERT INTO customers (name, city) VALUES ('Acme', 'Oslo'), ('Birch', 'Bergen'), ('Cobalt', 'Oslo')");
+        await db.query("INSERT INTO suppliers (name, city) VALUES ('Birch', 'Bergen'), ('Delta', 'Oslo'), ('Acme', 'Oslo')");
+        return orm;
+    }
+
+    async function rows(orm: D1ORM, query: QueryBuilder): Promise<string[]> {
+        const { sql, params } = query.build();
+        return (await orm.raw<{ name: string }>(sql, params)).map(row => row.name);
+    }
+
+    it('unions members and orders and limits the whole result', async () => {
+        const orm = await seed();
+        const query = orm.query('customers').select('name').where('city', '=', 'Oslo')
+            .union(orm.query('suppliers').select('name').where('city', '=', 'Bergen'))
+            .orderBy('name')
+            .limit(2);
+
+        assert.deepEqual(query.build(), {
+            sql: 'SELECT "name" FROM "customers" WHERE "city" = ? UNION SELECT "name" FROM "suppliers" WHERE "city" = ? ORDER BY "name" ASC LIMIT 2',
+            params: ['Oslo', 'Bergen']
+        });
+        assert.deepEqual(await rows(orm, query), ['Acme', 'Birch']);
+    });
+
+    it('keeps duplicates with UNION ALL and accepts raw members', async () => {
+        const orm = await seed();
+        const query = orm.query('customers').select('name')
+            .unionAll(orm.query('suppliers').select('name'), raw('SELECT ?', ['Echo']))
+            .orderBy('name');
+        assert.deepEqual(await rows(orm, query), ['Acme', 'Acme', 'Birch', 'Birch', 'Cobalt', 'Delta', 'Echo']);
+    });
+
+    it('intersects and excepts', async () => {
+        const orm = await seed();
+        const both = orm.query('customers').select('name').intersect(orm.query('suppliers').select('name')).orderBy('name');
+        assert.deepEqual(await rows(orm, both), ['Acme', 'Birch']);
+
+        const only = orm.query('customers').select('name').except(orm.query('suppliers').select('name'));
+        assert.equal(only.build().sql, 'SELECT "name" FROM "customers" EXCEPT SELECT "name" FROM "suppliers"');
+        assert.deepEqual(await rows(orm, only), ['Cobalt']);
+    });
+
+    it('wraps members that order or limit themselves', async () => {
+        const orm = await seed();
+        const query = orm.query('customers').select('name').where('city', '=', 'Bergen')
+            .union(orm.query('suppliers').select('name').orderBy('name', 'DESC').limit(1));
+
+        assert.equal(query.build().sql,
+            'SELECT "name" FROM "customers" WHERE "city" = ? UNION SELECT * FROM (SELECT "name" FROM "suppliers" ORDER BY "name" DESC LIMIT 1)');
+        assert.deepEqual((await rows(orm, query)).sort(), ['Birch', 'Delta']);
+    });
+
+    it('counts the compound result and refuses to update it', async () => {
+        const orm = await seed();
+        const query = orm.query('customers').select('name').union(orm.query('suppliers').select('name'));
+
+        const { sql, params } = query.buildCount();
+        assert.deepEqual(await orm.raw(sql, params), [{ count: 4 }]);
+        assert.throws(() => query.buildUpdate({ name: 'x' }), /Cannot build UPDATE from a compound query/);
+    });
+});
+
+describe('window functions', () => {
+    async function sales(): Promise<D1ORM> {
+        const orm = await createTestOrm();
+        const db = orm.getDatabase();
+        await db.query('CREATE TABLE sales (day INTEGER, region TEXT, amount INTEGER)');
+        await db.query(`INSERT INTO sales (day, region, amount) VALUES
+            (1, 'north', 10), (2, 'north', 30), (3, 'north', 30), (1, 'south', 5), (2, 'south', 20)`);
+        return orm;
+    }
+
+    it('ranks rows within partitions and named windows', async () => {
+        const orm = await sales();
+        const { sql, params } = orm.query('sales')
+            .select('region', 'day')
+            .rowNumber('row', { partitionBy: 'region', orderBy: { amount: 'DESC' } })
+            .rank('rank', 'by_amount')
+            .denseRank('dense', 'by_amount')
+            .window('by_amount', { orderBy: { amount: 'DESC' } })
+            .orderBy('region')
+            .orderBy('day')
+            .build();
+
+        assert.equal(sql, 'SELECT "region", "day", ROW_NUMBER() OVER (PARTITION BY "region" ORDER BY "amount" DESC) AS "row", '
+            + 'RANK() OVER "by_amount" AS "rank", DENSE_RANK() OVER "by_amount" AS "dense" FROM "sales" '
+            + 'WINDOW "by_amount" AS (ORDER BY "amount" DESC) ORDER BY "region" ASC, "day" ASC');
+        const ranks = (await orm.raw(sql, params)).map(row => `${row.region}${row.day}:${row.rank}/${row.dense}`);
+        assert.deepEqual(ranks, ['north1:4/3', 'north2:1/1', 'north3:1/1', 'south1:5/4', 'south2:3/2']);
+    });
+
+    it('reads neighbouring rows with lag and lead', async () => {
+        const orm = await sales();
+        const { sql, params } = orm.query('sales')
+            .select('day')
+            .lag('amount', 'previous', { partitionBy: 'region', orderBy: 'day' }, 1, 0)
+            .lead('amount', 'next', { partitionBy: 'region', orderBy: 'day' })
+            .where('region', '=', 'north')
+            .orderBy('day')
+            .build();
+
+        assert.deepEqual(params, [0, 'north']);
+        assert.deepEqual(await orm.raw(sql, params), [
+            { day: 1, previous: 0, next: 30 },
+            { day: 2, previous: 10, next: 30 },
+            { day: 3, previous: 30, next: null }
+        ]);
+    });
+
+    it('aggregates over framed windows', async () => {
+        const orm = await sales();
+        const { sql, params } = orm.query('sales')
+            .select('day')
+            .windowAggregate('SUM', 'amount', 'running', { orderBy: 'day', frame: { preceding: 'unbounded' } })
+            .windowAggregate('AVG', 'amount', 'pair', { orderBy: 'day', frame: { preceding: 1 } })
+            .where('region', '=', 'north')
+            .build();
+
+        assert.match(sql, /SUM\("amount"\) OVER \(ORDER BY "day" ASC ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW\) AS "running"/);
+        assert.deepEqual(await orm.raw(sql, params), [
+            { day: 1, running: 10, pair: 10 },
+            { day: 2, running: 40, pair: 20 },
+            { day: 3, running: 70, pair: 30 }
+        ]);
+    });
+});
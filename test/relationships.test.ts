@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { D1ORM } from '../src/orm/D1ORM';
+import { createTestOrm } from './helpers';
+
+async function setup(): Promise<{ orm: D1ORM; statements: string[] }> {
+    const orm = await createTestOrm();
+    const options = { timestamps: false } as const;
+    orm.define('User', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        name: { type: 'string', required: true }
+    }, { tableName: 'users', ...options });
+    orm.define('Profile', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        user_id: { type: 'integer', required: true },
+        bio: { type: 'string', required: true }
+    }, { tableName: 'profiles', ...options });
+    orm.define('Post', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        user_id: { type: 'integer', required: true },
+        title: { type: 'string', required: true },
+        published: { type: 'boolean', required: true }
+    }, { tableName: 'posts', ...options });
+    orm.define('Tag', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        label: { type: 'string', required: true }
+    }, { tableName: 'tags', ...options });
+    orm.hasMany('User', 'Post')
+        .hasOne('User', 'Profile')
+        .belongsTo('Post', 'User', { as: 'author' })
+        .belongsToMany('Post', 'Tag', { through: 'post_tags' });
+    await orm.sync();
+
+    const db = orm.getDatabase();
+    await db.query('CREATE TABLE post_tags (post_id INTEGER NOT NULL, tag_id INTEGER NOT NULL)');
+    await db.query("INSERT INTO users (name) VALUES ('Ada'), ('Grace'), ('Linus')");
+    await db.query("INSERT INTO profiles (user_id, bio) VALUES (1, 'Analyst')");
+    await db.query(`INSERT INTO posts (user_id, title, published) VALUES
+        (1, 'Notes', 1), (1, 'Drafts', 0), (1, 'Engines', 1), (2, 'Compilers', 1)`);
+    await db.query("INSERT INTO tags (label) VALUES ('math'), ('history')");
+    await db.query('INSERT INTO post_tags (post_id, tag_id) VALUES (1, 1), (1, 2), (4, 1)');
+
+    // Record every statement sent from here on
+    const statements: string[] = [];
+    const query = db.query.bind(db);
+    db.query = (sql, params, options) => {
+        statements.push(sql);
+        return query(sql, params, options);
+    };
+    return { orm, statements };
+}
+
+describe('eager loading', () => {
+    it('loads every relationship with batched queries', async () => {
+        const { orm, statements } = await setup();
+
+        const users = await orm.model('User').findAll({ include: ['posts', 'posts.tags', 'profile'], orderBy: { id: 'ASC' } });
+        // users, posts, the post_tags join rows, tags and profiles
+        assert.equal(statements.length, 5);
+        assert.match(statements[1], /FROM "posts" WHERE "user_id" IN \(\?, \?, \?\)/);
+
+        assert.deepEqual(users.map(user => user.posts.length), [3, 1, 0]);
+        assert.deepEqual(users.map(user => user.profile?.bio ?? null), ['Analyst', null, null]);
+        const notes = users[0].posts.find((post: any) => post.title === 'Notes');
+        assert.deepEqual(notes.tags.map((tag: any) => tag.label).sort(), ['history', 'math']);
+        assert.equal(notes.published, true);
+    });
+
+    it('loads belongsTo relationships under their alias', async () => {
+        const { orm } = await setup();
+        const post = await orm.model('Post').findOne({ where: { title: 'Compilers' }, include: ['author'] });
+        assert.equal(post?.author.name, 'Grace');
+    });
+
+    it('filters, orders and limits related rows per parent', async () => {
+        const { orm } = await setup();
+        const users = await orm.model('User').findAll({
+            where: { id: { in: [1, 2] } },
+            orderBy: { id: 'ASC' },
+            include: { posts: { where: { published: true }, orderBy: { title: 'DESC' }, limit: 1 } }
+        });
+        assert.deepEqual(users.map(user => user.posts.map((post: any) => post.title)), [['Notes'], ['Compilers']]);
+    });
+
+    it('rejects unknown relationships', async () => {
+        const { orm } = await setup();
+        await assert.rejects(orm.model('User').findAll({ include: ['comments'] }), /comments/);
+    });
+});
@@ -0,0 +1,101 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RestApiDriver } from '../src/drivers/RestApiDriver';
+import { DEFAULT_RETRY_OPTIONS, computeRetryDelay, parseRetryAfter } from '../src/drivers/retry';
+import { RateLimitError, RequestError } from '../src/errors';
+import { RetryOptions } from '../src/types/database';
+
+const realFetch = globalThis.fetch;
+
+const OK = { success: true, result: [{ results: [{ ok: 1 }], success: true, meta: {} }], errors: [], messages: [] };
+
+// Answer each fetch with the next response in line, counting the calls
+function stubFetch(responses: Array<() => Response>): { calls: number } {
+    const counter = { calls: 0 };
+    globalThis.fetch = (async () => {
+        const next = responses[Math.min(counter.calls, responses.length - 1)];
+        counter.calls++;
+        return next();
+    }) as typeof fetch;
+    return counter;
+}
+
+const status = (code: number, headers: Record<string, string> = {}) => () =>
+    new Response(JSON.stringify({ success: false, errors: [{ code: 7500, message: 'busy' }] }), { status: code, headers });
+const ok = () => new Response(JSON.stringify(OK), { status: 200 });
+
+function driver(retry: RetryOptions | false = { baseDelayMs: 1, jitter: false }): RestApiDriver {
+    return new RestApiDriver({ token: 't', accountId: 'a', databaseId: 'd', databaseName: 'db', retry });
+}
+
+describe('REST driver retries', () => {
+    afterEach(() => {
+        globalThis.fetch = realFetch;
+    });
+
+    it('retries transient failures of read-only statements', async () => {
+        const fetched = stubFetch([status(503), status(429), ok]);
+        const result = await driver().query('SELECT 1');
+        assert.deepEqual(result.results, [{ ok: 1 }]);
+        assert.equal(fetched.calls, 3);
+    });
+
+    it('does not replay writes unless they are marked idempotent', async () => {
+        let fetched = stubFetch([status(503), ok]);
+        await assert.rejects(driver().query('INSERT INTO users (name) VALUES (?)', ['Ada']), RequestError);
+        assert.equal(fetched.calls, 1);
+
+        fetched = stubFetch([status(503), ok]);
+        await driver().query('INSERT INTO users (name) VALUES (?)', ['Ada'], { idempotent: true });
+        assert.equal(fetched.calls, 2);
+    });
+
+    it('gives up after maxAttempts with a typed error', async () => {
+        const fetched = stubFetch([status(429, { 'Retry-After': '0' })]);
+        await assert.rejects(driver({ maxAttempts: 2, baseDelayMs: 1 }).query('SELECT 1'), (error: unknown) => {
+            assert.ok(error instanceof RateLimitError);
+            assert.equal(error.retryAfterMs, 0);
+            return true;
+        });
+        assert.equal(fetched.calls, 2);
+    });
+
+    it('does not retry statuses outside the policy or when disabled', async () => {
+        // A 400 carrying a D1 error is the statement's fault, not a transient failure
+        let fetched = stubFetch([status(400), ok]);
+        await assert.rejects(driver().query('SELECT 1'), /busy/);
+        assert.equal(fetched.calls, 1);
+
+        fetched = stubFetch([status(503), ok]);
+        await assert.rejects(driver(false).query('SELECT 1'), RequestError);
+        assert.equal(fetched.calls, 1);
+    });
+
+    it('retries network errors', async () => {
+        const fetched = stubFetch([() => { throw new TypeError('fetch failed'); }, ok]);
+        await driver().query('SELECT 1');
+        assert.equal(fetched.calls, 2);
+    });
+});
+
+describe('retry delays', () => {
+    it('backs off exponentially up to maxDelayMs', () => {
+        const options = { ...DEFAULT_RETRY_OPTIONS, jitter: false, baseDelayMs: 100, maxDelayMs: 300 };
+        assert.deepEqual([1, 2, 3, 4].map(attempt => computeRetryDelay(attempt, options)), [100, 200, 300, 300]);
+    });
+
+    it('keeps jittered delays within half and all of the backoff', () => {
+        const options = { ...DEFAULT_RETRY_OPTIONS, baseDelayMs: 100 };
+        for (let i = 0; i < 20; i++) {
+            const delay = computeRetryDelay(2, options);
+            assert.ok(delay >= 100 && delay <= 200);
+        }
+    });
+
+    it('honors Retry-After up to maxRetryAfterMs', () => {
+        assert.equal(parseRetryAfter('2'), 2000);
+        assert.equal(parseRetryAfter(null), undefined);
+        assert.ok(parseRetryAfter(new Date(Date.now() + 60_000).toUTCString())! > 50_000);
+        assert.equal(computeRetryDelay(1, { ...DEFAULT_RETRY_OPTIONS, maxRetryAfterMs: 1000 }, 5000), 1000);
+    });
+});
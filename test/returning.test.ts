@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { D1ORM } from '../src/orm/D1ORM';
+import { QueryBuilder } from '../src/orm/QueryBuilder';
+import { createTestOrm } from './helpers';
+
+async function setup(): Promise<{ orm: D1ORM; statements: string[] }> {
+    const orm = await createTestOrm();
+    orm.define('User', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        name: { type: 'string', required: true },
+        role: { type: 'string', default: 'member' }
+    }, { tableName: 'users', timestamps: false });
+    orm.define('Post', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        title: { type: 'string', required: true },
+        user_id: { type: 'integer', references: { table: 'users', field: 'id', onDelete: 'CASCADE' } }
+    }, { tableName: 'posts', timestamps: false });
+    orm.hasMany('User', 'Post', { as: 'posts' });
+    await orm.sync();
+
+    // Record the SQL each call sends
+    const db = orm.getDatabase();
+    const statements: string[] = [];
+    const query = db.query.bind(db);
+    db.query = (sql, params, options) => {
+        statements.push(sql);
+        return query(sql, params, options);
+    };
+    await db.query('PRAGMA foreign_keys = ON');
+    return { orm, statements };
+}
+
+describe('RETURNING writes', () => {
+    it('creates a record in one statement and returns it as stored', async () => {
+        const { orm, statements } = await setup();
+        statements.length = 0;
+
+        const user = await orm.model('User').create({ name: 'Ada' });
+        assert.deepEqual(user, { id: 1, name: 'Ada', role: 'member' });
+        assert.equal(statements.length, 1);
+        assert.match(statements[0], /RETURNING \*/);
+    });
+
+    it('returns the updated rows and their count', async () => {
+        const { orm } = await setup();
+        const users = orm.model('User');
+        await users.create({ name: 'Ada' });
+        await users.create({ name: 'Bob' });
+
+        const result = await users.update({ role: 'admin' }, {});
+        assert.equal(result.meta.changes, 2);
+        assert.deepEqual(result.results.map(user => user.role), ['admin', 'admin']);
+    });
+
+    it('returns the updated rows of an update with nested writes', async () => {
+        const { orm } = await setup();
+        const users = orm.model('User');
+        await users.create({ name: 'Ada' });
+        await users.create({ name: 'Bob' });
+
+        const result = await users.update({ role: 'author', posts: { create: { title: 'Hello' } } }, { name: 'Ada' });
+        assert.equal(result.meta.changes, 1);
+        assert.deepEqual(result.results, [{ id: 1, name: 'Ada', role: 'author' }]);
+        assert.equal(await orm.model('Post').count({ user_id: 1 }), 1);
+    });
+
+    it('returns the matched records when only relationships change', async () => {
+        const { orm } = await setup();
+        const users = orm.model('User');
+        await users.create({ name: 'Ada' });
+
+        const result = await users.update({ posts: { create: { title: 'Hello' } } }, { id: 1 });
+        assert.equal(result.meta.changes, 0);
+        assert.deepEqual(result.results.map(user => user.name), ['Ada']);
+    });
+
+    it('fills in an update queued in a transaction when it commits', async () => {
+        const { orm } = await setup();
+        await orm.model('User').create({ name: 'Ada' });
+
+        let pending: Awaited<ReturnType<ReturnType<D1ORM['model']>['update']>> | undefined;
+        await orm.transaction(async trx => {
+            pending = await trx.model('User').update({ role: 'admin' }, { id: 1 });
+            assert.deepEqual(pending.results, []);
+        });
+
+        assert.equal(pending?.meta.changes, 1);
+        assert.equal(pending?.results[0].role, 'admin');
+    });
+
+    it('counts deleted rows without fetching them, leaving out cascaded rows', async () => {
+        const { orm, statements } = await setup();
+        const users = orm.model('User');
+        await users.create({ name: 'Ada', posts: { create: [{ title: 'One' }, { title: 'Two' }] } });
+        statements.length = 0;
+
+        assert.equal(await users.delete({ id: 1 }), 1);
+        assert.doesNotMatch(statements[0], /RETURNING/);
+        assert.equal(await orm.model('Post').count(), 0);
+    });
+
+    it('passes the deleted rows to afterDelete', async () => {
+        const { orm } = await setup();
+        const users = orm.model('User');
+        await users.create({ name: 'Ada' });
+        await users.create({ name: 'Bob' });
+
+        let deleted: { count: number; names: string[] } | undefined;
+        users.addHook('afterDelete', (count, records) => { deleted = { count, names: records.map(record => record.name) }; });
+
+        assert.equal(await users.delete({ where: {} }), 2);
+        assert.deepEqual(deleted, { count: 2, names: ['Ada', 'Bob'] });
+    });
+
+    it('keeps the RETURNING clause on cloned queries', () => {
+        const query = new QueryBuilder('users').where('id', '=', 1).returning('*');
+        const cloned = query.clone();
+        assert.equal(cloned.buildDelete().sql, 'DELETE FROM "users" WHERE "id" = ? RETURNING *');
+        assert.equal(cloned.buildUpdate({ name: 'Ada' }).sql, 'UPDATE "users" SET "name" = ? WHERE "id" = ? RETURNING *');
+
+        // The copy is independent of the original
+        cloned.returning('id');
+        assert.match(query.buildDelete().sql, /RETURNING \*$/);
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SqliteDriver } from '../src/drivers/SqliteDriver';
+import { createTestDatabase } from './helpers';
+
+describe('SqliteDriver', () => {
+    it('reports changes and last_row_id like D1', async () => {
+        const driver = new SqliteDriver();
+        await driver.query('CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT)');
+
+        const insert = await driver.query('INSERT INTO items (name) VALUES (?), (?)', ['a', 'b']);
+        assert.equal(insert.meta.changes, 2);
+        assert.equal(insert.meta.last_row_id, 2);
+
+        const select = await driver.query('SELECT name FROM items ORDER BY id');
+        assert.deepEqual(select.results, [{ name: 'a' }, { name: 'b' }]);
+        await driver.close();
+    });
+
+    it('coerces booleans, dates and undefined parameters', async () => {
+        const driver = new SqliteDriver();
+        const { results } = await driver.query('SELECT ? AS flag, ? AS at, ? AS missing', [true, new Date(0), undefined]);
+        assert.deepEqual(results, [{ flag: 1, at: '1970-01-01T00:00:00.000Z', missing: null }]);
+    });
+
+    it('runs multi-statement scripts', async () => {
+        const driver = new SqliteDriver();
+        await driver.query("CREATE TABLE a (x TEXT); INSERT INTO a VALUES ('1;2');");
+        const { results } = await driver.query('SELECT x FROM a');
+        assert.deepEqual(results, [{ x: '1;2' }]);
+    });
+
+    it('rolls back the whole batch when a statement fails', async () => {
+        const driver = new SqliteDriver();
+        await driver.query('CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT UNIQUE)');
+
+        await assert.rejects(driver.batch([
+            { sql: 'INSERT INTO items (name) VALUES (?)', params: ['a'] },
+            { sql: 'INSERT INTO items (name) VALUES (?)', params: ['a'] }
+        ]));
+
+        const { results } = await driver.query('SELECT COUNT(*) AS count FROM items');
+        assert.equal(results[0].count, 0);
+    });
+
+    it('backs a DatabaseService', async () => {
+        const db = await createTestDatabase();
+        await db.query('CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT UNIQUE)');
+        await db.query('INSERT INTO users (email) VALUES (?)', ['a@example.com']);
+
+        assert.equal(await db.tableExists('users'), true);
+        const duplicate = await db.query('INSERT INTO users (email) VALUES (?)', ['a@example.com']);
+        assert.equal(duplicate.success, false);
+        assert.match(duplicate.error!, /UNIQUE constraint failed: users\.email/);
+    });
+});
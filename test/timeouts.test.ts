@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DatabaseService } from '../src/classes/DatabaseService';
+import { SqliteDriver } from '../src/drivers/SqliteDriver';
+import { D1ORM } from '../src/orm/D1ORM';
+import { TimeoutError } from '../src/errors';
+import { QueryOptions, QueryResult } from '../src/types/database';
+import { silentLogger } from './helpers';
+
+// SQLite driver whose queries hang, once `slow` is set, until the signal they were given aborts
+class SlowDriver extends SqliteDriver {
+    public slow = false;
+    public signals: AbortSignal[] = [];
+
+    async query<T = any>(sql: string, params: any[] = [], options: QueryOptions = {}): Promise<QueryResult<T>> {
+        const signal = options.signal;
+        if (!this.slow || !signal) {
+            return super.query<T>(sql, params);
+        }
+        this.signals.push(signal);
+        return await new Promise<never>((_, reject) => {
+            signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+        });
+    }
+}
+
+async function setup(timeout?: number): Promise<{ db: DatabaseService; driver: SlowDriver }> {
+    const driver = new SlowDriver();
+    const db = new DatabaseService({ driver, logger: silentLogger, timeout, migrationsDir: './test/.no-migrations' });
+    await db.initialize();
+    driver.slow = true;
+    return { db, driver };
+}
+
+describe('timeouts and abort signals', () => {
+    it('rejects a query that exceeds its timeout and aborts the driver call', async () => {
+        const { db, driver } = await setup();
+
+        await assert.rejects(db.query('SELECT 1', [], { timeout: 10 }), (error: unknown) => {
+            assert.ok(error instanceof TimeoutError);
+            assert.equal(error.timeoutMs, 10);
+            return true;
+        });
+        assert.equal(driver.signals.length, 1);
+        assert.ok(driver.signals[0].aborted);
+    });
+
+    it('applies the client default timeout', async () => {
+        const { db } = await setup(10);
+        await assert.rejects(db.query('SELECT 1'), TimeoutError);
+
+        db.setDefaultTimeout(20);
+        await assert.rejects(db.query('SELECT 1'), (error: unknown) => error instanceof TimeoutError && error.timeoutMs === 20);
+    });
+
+    it('rejects with the reason of an aborted caller signal', async () => {
+        const { db } = await setup();
+        const controller = new AbortController();
+        const pending = db.query('SELECT 1', [], { signal: controller.signal });
+        controller.abort(new Error('navigated away'));
+        await assert.rejects(pending, /navigated away/);
+
+        await assert.rejects(db.query('SELECT 1', [], { signal: AbortSignal.abort(new Error('already gone')) }), /already gone/);
+    });
+
+    it('passes timeouts through model reads', async () => {
+        const { db, driver } = await setup();
+        driver.slow = false;
+        const orm = new D1ORM({ database: db });
+        const User = orm.define('User', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            name: { type: 'string', required: true }
+        }, { tableName: 'users', timestamps: false });
+        await orm.sync();
+        driver.slow = true;
+
+        await assert.rejects(User.findAll({ timeout: 10 }), TimeoutError);
+        await assert.rejects(User.count({}, { timeout: 10 }), TimeoutError);
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { D1ORM } from '../src/orm/D1ORM';
+import { TransactionRef } from '../src/orm/Transaction';
+import { createTestOrm } from './helpers';
+
+async function setup(options: { uniqueEmail: boolean }): Promise<D1ORM> {
+    const orm = await createTestOrm();
+    orm.define('User', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        name: { type: 'string', required: true },
+        email: { type: 'string', unique: options.uniqueEmail }
+    }, { tableName: 'users', timestamps: false });
+    orm.define('Post', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        title: { type: 'string', required: true },
+        user_id: { type: 'integer', required: true }
+    }, { tableName: 'posts', timestamps: false });
+    orm.hasMany('User', 'Post', { as: 'posts' });
+    await orm.sync();
+    return orm;
+}
+
+describe('D1ORM.transaction', () => {
+    it('applies every queued write in one batch', async () => {
+        const orm = await setup({ uniqueEmail: true });
+
+        const user = await orm.transaction(async trx => {
+            const created = await trx.model('User').create({ name: 'Ada', email: 'ada@example.com' });
+            assert.ok(created.id instanceof TransactionRef);
+            await trx.model('Post').create({ title: 'Hello', user_id: created.id });
+            return created;
+        });
+
+        assert.equal(user.id, 1);
+        const posts = await orm.model('Post').findAll();
+        assert.deepEqual(posts.map(post => post.user_id), [1]);
+    });
+
+    it('applies nothing when the callback throws', async () => {
+        const orm = await setup({ uniqueEmail: true });
+
+        await assert.rejects(orm.transaction(async trx => {
+            await trx.model('User').create({ name: 'Ada', email: 'ada@example.com' });
+            throw new Error('abort');
+        }), /abort/);
+
+        assert.equal(await orm.model('User').count(), 0);
+    });
+
+    it('applies nothing when a statement of the batch fails', async () => {
+        const orm = await setup({ uniqueEmail: true });
+
+        await assert.rejects(orm.transaction(async trx => {
+            await trx.model('User').create({ name: 'Ada', email: 'ada@example.com' });
+            await trx.raw('INSERT INTO users (name, email) VALUES (?, ?)', ['Copy', 'ada@example.com']);
+        }));
+
+        assert.equal(await orm.model('User').count(), 0);
+    });
+
+    it('resolves a reference by unique key after an upsert of an existing row', async () => {
+        const orm = await setup({ uniqueEmail: true });
+        await orm.model('User').create({ name: 'Old', email: 'old@example.com' });
+
+        await orm.transaction(async trx => {
+            const user = await trx.model('User').create({ name: 'New', email: 'new@example.com' });
+            await trx.model('User').upsert({ name: 'Old again', email: 'old@example.com' }, ['email']);
+            await trx.model('Post').create({ title: 'Mine', user_id: user.id });
+        });
+
+        const [post] = await orm.model('Post').findAll();
+        const owner = await orm.model('User').findByPk(post.user_id);
+        assert.equal(owner?.email, 'new@example.com');
+    });
+
+    it('rejects a reference it cannot resolve safely instead of linking the wrong row', async () => {
+        const orm = await setup({ uniqueEmail: false });
+        await orm.model('User').create({ name: 'Old' });
+
+        await assert.rejects(orm.transaction(async trx => {
+            const user = await trx.model('User').create({ name: 'New' });
+            await trx.model('User').update({ name: 'Renamed' }, { id: 1 });
+            await trx.model('Post').create({ title: 'Mine', user_id: user.id });
+        }), /Cannot reference the row inserted by statement #0/);
+
+        assert.equal(await orm.model('User').count(), 1);
+        assert.equal(await orm.model('Post').count(), 0);
+    });
+
+    it('counts later inserts into the same table when no key identifies the row', async () => {
+        const orm = await setup({ uniqueEmail: false });
+        await orm.model('User').create({ name: 'Old' });
+
+        await orm.transaction(async trx => {
+            const first = await trx.model('User').create({ name: 'First' });
+            await trx.model('User').create({ name: 'Second' });
+            await trx.model('Post').create({ title: 'Other', user_id: 1 });
+            await trx.model('Post').create({ title: 'Mine', user_id: first.id });
+        });
+
+        const post = await orm.model('Post').findOne({ where: { title: 'Mine' } });
+        const owner = await orm.model('User').findByPk(post!.user_id);
+        assert.equal(owner?.name, 'First');
+    });
+
+    it('links every nested create to its parent', async () => {
+        const orm = await setup({ uniqueEmail: false });
+
+        const user = await orm.model('User').create({
+            name: 'Ada',
+            posts: { create: [{ title: 'One' }, { title: 'Two' }, { title: 'Three' }] }
+        });
+
+        const posts = await orm.model('Post').findAll({ where: { user_id: user.id } });
+        assert.deepEqual(posts.map(post => post.title), ['One', 'Two', 'Three']);
+    });
+
+    it('exposes the last queued insert through lastInsertId()', async () => {
+        const orm = await setup({ uniqueEmail: false });
+
+        await orm.transaction(async trx => {
+            await trx.raw('INSERT INTO users (name) VALUES (?)', ['Raw']);
+            await trx.raw('INSERT INTO posts (title, user_id) VALUES (?, ?)', ['Post', trx.lastInsertId()]);
+        });
+
+        const [post] = await orm.model('Post').findAll();
+        assert.equal(post.user_id, 1);
+    });
+});
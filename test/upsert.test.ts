@@ -0,0 +1,166 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { D1ORM } from '../src/orm/D1ORM';
+import { raw } from '../src/orm/QueryBuilder';
+import { UniqueConstraintError, ValidationError } from '../src/errors';
+import { createTestOrm } from './helpers';
+
+async function setup(): Promise<D1ORM> {
+    const orm = await createTestOrm();
+    orm.define('User', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        email: { type: 'string', required: true, unique: true },
+        handle: { type: 'string', unique: true, default: null },
+        name: { type: 'string' },
+        logins: { type: 'integer', default: 0 }
+    }, { tableName: 'users' });
+    orm.define('Post', {
+        id: { type: 'integer', primaryKey: true, autoIncrement: true },
+        user_id: { type: 'integer', required: true }
+    }, { tableName: 'posts', timestamps: false });
+    await orm.sync();
+    return orm;
+}
+
+describe('upsert', () => {
+    it('creates, then updates the row with the same conflict key', async () => {
+        const orm = await setup();
+        const users = orm.model('User');
+
+        const first = await users.upsert({ email: 'ada@example.com', name: 'Ada' }, ['email']);
+        assert.equal(first.created, true);
+        assert.equal(first.updated, false);
+
+        const second = await users.upsert({ email: 'ada@example.com', name: 'Ada Lovelace' }, ['email']);
+        assert.equal(second.created, false);
+        assert.equal(second.updated, true);
+        assert.equal(second.record.id, first.record.id);
+        assert.equal(second.record.name, 'Ada Lovelace');
+        assert.equal(await users.count(), 1);
+    });
+
+    it('keeps the primary key of the existing row', async () => {
+        const orm = await setup();
+        const users = orm.model('User');
+        const ada = await users.create({ email: 'ada@example.com', name: 'Ada' });
+
+        const result = await users.upsert({ id: 99, email: 'ada@example.com', name: 'Ada L' }, ['email']);
+        assert.equal(result.updated, true);
+        assert.equal(result.record.id, ada.id);
+        assert.equal(result.record.name, 'Ada L');
+        assert.equal(await users.findByPk(99), null);
+    });
+
+    it('applies the update of a Prisma-style upsert only to existing rows', async () => {
+        const orm = await setup();
+        const users = orm.model('User');
+        const upsert = () => users.upsert({
+            where: { email: 'ada@example.com' },
+            create: { name: 'Ada' },
+            update: { logins: raw('"logins" + 1') }
+        });
+
+        assert.equal((await upsert()).record.logins, 0);
+        assert.equal((await upsert()).record.logins, 1);
+        assert.equal((await upsert()).record.name, 'Ada');
+    });
+
+    it('leaves existing rows alone with an empty update', async () => {
+        const orm = await setup();
+        const users = orm.model('User');
+        await users.create({ email: 'ada@example.com', name: 'Ada' });
+
+        const result = await users.upsert({ email: 'ada@example.com', name: 'Changed' }, { conflictTarget: ['email'], update: [] });
+        assert.equal(result.created, false);
+        assert.equal(result.updated, false);
+        assert.equal(result.record.name, 'Ada');
+    });
+
+    it('runs beforeCreate for new rows and beforeUpdate for existing ones', async () => {
+        const orm = await setup();
+        const users = orm.model('User');
+        const calls: string[] = [];
+        users.addHook('beforeCreate', data => { calls.push(`create:${data.email}`); data.name = 'from hook'; });
+        users.addHook('beforeUpdate', (_data, where) => { calls.push(`update:${where.email}`); });
+
+        const created = await users.upsert({ email: 'ada@example.com' }, ['email']);
+        await users.upsert({ email: 'ada@example.com', name: 'Ada' }, ['email']);
+        await users.bulkUpsert([{ email: 'ada@example.com' }, { email: 'bob@example.com' }], { conflictTarget: ['email'], update: [] });
+
+        assert.equal(created.record.name, 'from hook');
+        assert.deepEqual(calls, [
+            'create:ada@example.com',
+            'update:ada@example.com',
+            'update:ada@example.com',
+            'create:bob@example.com'
+        ]);
+    });
+
+    it('counts created and updated rows of a bulk upsert', async () => {
+        const orm = await setup();
+        const users = orm.model('User');
+        await users.create({ email: 'ada@example.com', name: 'Ada' });
+
+        const result = await users.bulkUpsert(
+            [{ email: 'ada@example.com', name: 'Ada L' }, { email: 'bob@example.com', name: 'Bob' }],
+            { conflictTarget: ['email'] }
+        );
+        assert.deepEqual({ created: result.created, updated: result.updated, errors: result.errors }, { created: 1, updated: 1, errors: [] });
+        assert.equal((await users.findOne({ where: { email: 'ada@example.com' } }))?.name, 'Ada L');
+    });
+
+    it('gives every row created inside a transaction its own reference', async () => {
+        const orm = await setup();
+        await orm.model('User').create({ email: 'old@example.com' });
+
+        await orm.transaction(async trx => {
+            const ada = await trx.model('User').upsert({ email: 'ada@example.com' }, ['email']);
+            const bob = await trx.model('User').upsert({ email: 'bob@example.com' }, ['email']);
+            await trx.model('Post').create({ user_id: ada.record.id });
+            await trx.model('Post').create({ user_id: bob.record.id });
+        });
+
+        const posts = await orm.model('Post').findAll({ orderBy: 'id' });
+        const owners = await Promise.all(posts.map(post => orm.model('User').findByPk(post.user_id)));
+        assert.deepEqual(owners.map(owner => owner?.email), ['ada@example.com', 'bob@example.com']);
+    });
+
+    it('reports the failing statement of a rejected batch', async () => {
+        const orm = await setup();
+        const users = orm.model('User');
+        await users.create({ email: 'ada@example.com', handle: 'ada' });
+
+        await assert.rejects(users.upsert({ email: 'bob@example.com', handle: 'ada' }, ['email']), (error: unknown) => {
+            assert.ok(error instanceof UniqueConstraintError);
+            assert.deepEqual(error.columns, ['handle']);
+            assert.match(error.sql!, /ON CONFLICT/);
+            assert.ok(error.params?.includes('bob@example.com'));
+            return true;
+        });
+    });
+
+    it('stops bulk writes with the typed error of the failing record', async () => {
+        const orm = await setup();
+        const users = orm.model('User');
+        await users.create({ email: 'ada@example.com', handle: 'ada' });
+
+        await assert.rejects(users.bulkCreate([{ email: 'bob@example.com' }, { email: 'ada@example.com' }], { continueOnError: false }), (error: unknown) => {
+            assert.ok(error instanceof UniqueConstraintError);
+            assert.equal(error.recordIndex, 1);
+            assert.deepEqual(error.columns, ['email']);
+            return true;
+        });
+        await assert.rejects(users.bulkUpsert(
+            [{ email: 'cy@example.com' }, { email: 'dee@example.com', logins: 'many' }],
+            { conflictTarget: ['email'], continueOnError: false }
+        ), (error: unknown) => {
+            assert.ok(error instanceof ValidationError);
+            assert.equal(error.recordIndex, 1);
+            return true;
+        });
+        await assert.rejects(users.bulkUpsert(
+            [{ email: 'eve@example.com', handle: 'ada' }],
+            { conflictTarget: ['email'], continueOnError: false }
+        ), (error: unknown) => error instanceof UniqueConstraintError && error.recordIndex === 0);
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Schema } from '../src/orm/Schema';
+import { defineLocale } from '../src/orm/validation';
+import { ValidationError } from '../src/errors';
+import { createTestOrm } from './helpers';
+
+const fields = {
+    name: { type: 'string', required: true, minLength: 2, maxLength: 5 },
+    age: { type: 'integer', min: 0, max: 150 },
+    role: { type: 'enum', enum: ['admin', 'member'] },
+    slug: { type: 'string', validate: (value: string) => /^[a-z-]+$/.test(value) || 'Slugs are lowercase words' }
+} as const;
+
+describe('Schema.validate', () => {
+    it('reports one issue per failing rule', () => {
+        const schema = new Schema(fields, { tableName: 'users', timestamps: false });
+        const result = schema.validate({ name: 'Alexandra', age: -1, role: 'owner', slug: 'Not A Slug' });
+
+        assert.equal(result.isValid, false);
+        assert.deepEqual(result.issues.map(({ field, rule, params }) => ({ field, rule, params })), [
+            { field: 'name', rule: 'maxLength', params: { maxLength: 5 } },
+            { field: 'age', rule: 'min', params: { min: 0 } },
+            { field: 'role', rule: 'enum', params: { values: ['admin', 'member'] } },
+            { field: 'slug', rule: 'custom', params: {} }
+        ]);
+        assert.equal(result.issues[0].message, "Field 'name' exceeds maximum length of 5");
+        assert.equal(result.issues[0].value, 'Alexandra');
+        assert.equal(result.issues[3].message, 'Slugs are lowercase words');
+        assert.deepEqual(result.errors, result.issues.map(issue => issue.message));
+    });
+
+    it('stops at required and type failures', () => {
+        const schema = new Schema(fields, { tableName: 'users', timestamps: false });
+        const result = schema.validate({ age: 'old' });
+        assert.deepEqual(result.issues.map(issue => `${issue.field}:${issue.rule}`), ['name:required', 'age:type']);
+    });
+
+    it('only checks present fields in partial validation', () => {
+        const schema = new Schema(fields, { tableName: 'users', timestamps: false });
+        assert.equal(schema.validate({ age: 30 }, { partial: true }).isValid, true);
+    });
+
+    it('renders messages from field, schema and locale templates', () => {
+        defineLocale('test-de', { required: "Feld '{field}' ist erforderlich", max: 'Höchstens {max}' });
+        const schema = new Schema({
+            name: { type: 'string', required: true },
+            age: { type: 'integer', max: 150, messages: { max: issue => `${issue.value} is too old` } },
+            score: { type: 'integer', max: 10 }
+        }, { tableName: 'users', timestamps: false, locale: 'test-de', messages: { max: 'At most {max}' } });
+
+        const result = schema.validate({ age: 200, score: 11 });
+        assert.deepEqual(result.errors, ["Feld 'name' ist erforderlich", '200 is too old', 'At most 10']);
+    });
+});
+
+describe('model validation', () => {
+    it('throws ValidationError with the issues of create and update', async () => {
+        const orm = await createTestOrm();
+        const User = orm.define('User', {
+            id: { type: 'integer', primaryKey: true, autoIncrement: true },
+            ...fields
+        }, { tableName: 'users', timestamps: false });
+        await orm.sync();
+
+        await assert.rejects(User.create({ name: 'A', slug: 'a' }), (error: unknown) => {
+            assert.ok(error instanceof ValidationError);
+            assert.deepEqual(error.issues.map(issue => issue.rule), ['minLength']);
+            assert.deepEqual(error.fields, { name: ["Field 'name' is below minimum length of 2"] });
+            return true;
+        });
+
+        const user = await User.create({ name: 'Ada', slug: 'ada' });
+        await assert.rejects(User.update({ age: 200 }, { id: user.id }), ValidationError);
+        assert.equal(await User.count(), 1);
+    });
+});